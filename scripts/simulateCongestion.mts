@@ -0,0 +1,104 @@
+/**
+ * @file simulateCongestion.mts
+ * @description This script compares the congestion control strategies of NetTask on a simulated lossy link.
+ * @version 1.0.0
+ *
+ * Copyright (c) 2024 DarkenLM https://github.com/DarkenLM
+ */
+
+import { cac } from "cac";
+import isBinMode from "./util/isBinMode.mts";
+import { DefaultLogger, getOrCreateGlobalLogger } from "./util/logger.mts";
+import {
+    AIMDCongestionControl,
+    CongestionControl,
+    FixedWindowCongestionControl
+} from "../src/common/protocol/congestionControl.ts";
+import { simulateLossyLink } from "../src/common/protocol/congestionSimulation.ts";
+
+let logger: DefaultLogger;
+
+//#region ============== Types ==============
+interface CLIOptions {
+    senders: number;
+    datagrams: number;
+    capacity: number;
+    lossRate: number;
+    fixedWindow: number;
+    seed: number;
+}
+//#endregion
+
+//#region ============== Constants ==============
+const NAME = "simulateCongestion";
+const VERSION = "0.0.1";
+const DEFAULT_SENDERS = 8;
+const DEFAULT_DATAGRAMS = 1000;
+const DEFAULT_CAPACITY = 32;
+const DEFAULT_LOSS_RATE = 0.01;
+const DEFAULT_FIXED_WINDOW = 32;
+const DEFAULT_SEED = 1;
+
+const STRATEGIES: Record<string, (options: CLIOptions) => CongestionControl> = {
+    "AIMD": () => new AIMDCongestionControl(),
+    "Fixed": (options) => new FixedWindowCongestionControl(options.fixedWindow)
+};
+//#endregion
+
+//#region ============== Functions ==============
+/**
+ * Runs every strategy on the same link, with the same seed, with every sender using the strategy being compared.
+ */
+function compareStrategies(options: CLIOptions) {
+    logger.pInfo(
+        `Simulating ${options.senders} senders delivering ${options.datagrams} datagrams each through a link with a `
+        + `capacity of ${options.capacity} datagrams per round trip and a loss rate of ${options.lossRate * 100}%.`
+    );
+
+    for (const [name, makeStrategy] of Object.entries(STRATEGIES)) {
+        const strategies = Array.from({ length: options.senders }, () => makeStrategy(options));
+        const result = simulateLossyLink(strategies, {
+            datagrams: options.datagrams,
+            capacity: options.capacity,
+            lossRate: options.lossRate,
+            seed: options.seed
+        });
+
+        const sent = result.senders.reduce((acc, sender) => acc + sender.sent, 0);
+        const dropped = result.senders.reduce((acc, sender) => acc + sender.dropped, 0);
+        const lost = result.senders.reduce((acc, sender) => acc + sender.lost, 0);
+        const finished = result.senders.filter(sender => sender.rounds !== undefined);
+
+        logger.pLog(
+            `[${name}] Rounds: ${result.rounds}`,
+            `| Utilization: ${(result.utilization * 100).toFixed(1)}%`,
+            `| Retransmitted: ${(100 * (dropped + lost) / sent).toFixed(1)}% (${dropped} dropped, ${lost} lost)`,
+            `| Finished: ${finished.length}/${result.senders.length}`
+        );
+    }
+}
+//#endregion
+
+//#region ============== CLI ==============
+const cli = cac(NAME).version(VERSION);
+cli.help();
+cli.option("--debug, -d", "Enable debug mode");
+cli.option("--senders <n>", "Number of senders sharing the link", { default: DEFAULT_SENDERS });
+cli.option("--datagrams <n>", "Number of datagrams each sender delivers", { default: DEFAULT_DATAGRAMS });
+cli.option("--capacity <n>", "Datagrams forwarded by the link per round trip", { default: DEFAULT_CAPACITY });
+cli.option("--lossRate <rate>", "Probability of a forwarded datagram being lost", { default: DEFAULT_LOSS_RATE });
+cli.option("--fixedWindow <n>", "Window of the fixed window strategy", { default: DEFAULT_FIXED_WINDOW });
+cli.option("--seed <n>", "Seed of the random losses", { default: DEFAULT_SEED });
+
+async function cliHandler() {
+    const { options } = cli.parse();
+    if (options.help || options.version) return; // Do not execute script if help message was requested.
+
+    logger = getOrCreateGlobalLogger({ debug: options.debug });
+    compareStrategies(options as CLIOptions);
+}
+
+if (isBinMode(import.meta.url)) {
+    cliHandler();
+}
+//#endregion
@@ -1,12 +1,29 @@
 import fs from "fs/promises";
 import { getOrCreateGlobalLogger } from "../common/util/logger.js";
 import { UDPClient } from "../agent/protocol/udp.js";
-import { TCPClient } from "../agent/protocol/tcp.js";
-import { NetTask, NetTaskMetric } from "$common/datagram/NetTask.js";
-import { AlertFlow } from "$common/datagram/AlertFlow.js";
+import { TCPClientState, TCPClientStateSubscriber } from "../agent/protocol/tcp.js";
+import { NetTask, NetTaskMetric, NetTaskResponseMetrics } from "$common/datagram/NetTask.js";
+import { AlertFlow, AlertSeverity, AlertState } from "$common/datagram/AlertFlow.js";
 import { IgnoreValues, SPACKPacked, SPACKTask, SPACKTaskMetric } from "$common/datagram/spack.js";
 import { executeIPerfClient, executeIPerfServer, executePing } from "$common/util/command.js";
 import { getCpuUsage, getRamUsage } from "$common/util/systemMetrics.js";
+import { AlertThreshold } from "../server/config.js";
+
+//#region ============== Types ==============
+/**
+ * The severity of the alerts firing on a running task, by metric. Kept across the iterations of the task, so that an
+ * alert is only sent when the severity of a metric changes, and resolved once the metric returns below it's thresholds.
+ */
+type FiringAlerts = Map<string, AlertSeverity>;
+//#endregion ============== Types ==============
+
+//#region ============== Constants ==============
+/**
+ * The alerts firing on each running task, by task config identifier. An entry exists only while the task runs, and is
+ * shared with the runs of the task requested by the server.
+ */
+const runningTaskAlerts = new Map<string, FiringAlerts>();
+//#endregion ============== Constants ==============
 
 //#region ============== Utilities ==============
 
@@ -51,6 +68,86 @@ function createSPACKTaskMetricForAlert(
     return spack;
 }
 
+/**
+ * A change to the alerts of a metric, to be sent to the server.
+ */
+interface AlertChange {
+    severity: AlertSeverity,
+    state: AlertState
+}
+
+/**
+ * Returns the severity of the highest threshold crossed by the value of a metric, or undefined if none was crossed.
+ * 
+ * @param value The value of the metric
+ * @param threshold The thresholds of the alert condition of the metric
+ */
+function getAlertSeverity(value: number, threshold: AlertThreshold | undefined): AlertSeverity | undefined {
+    if (threshold?.critical !== undefined && value >= threshold.critical) return AlertSeverity.CRITICAL;
+    if (threshold?.warning !== undefined && value >= threshold.warning) return AlertSeverity.WARNING;
+
+    return undefined;
+}
+
+/**
+ * Evaluates the value of a metric against it's thresholds, returning the change to the alerts of the metric, if any.
+ * An alert fires when the metric crosses a threshold, and fires again whenever it's severity changes. Once the metric
+ * returns below every threshold, the alert is resolved.
+ * 
+ * @param firing The alerts firing on the task
+ * @param metric The name of the metric
+ * @param value The value of the metric
+ * @param threshold The thresholds of the alert condition of the metric
+ * @returns The change to be sent to the server, or undefined if the severity of the metric did not change
+ */
+function updateAlert(
+    firing: FiringAlerts, 
+    metric: string, 
+    value: number, 
+    threshold: AlertThreshold | undefined
+): AlertChange | undefined {
+    const prev = firing.get(metric);
+    const severity = getAlertSeverity(value, threshold);
+    if (severity === prev) return undefined;
+
+    if (severity === undefined) {
+        firing.delete(metric);
+        return { severity: <AlertSeverity>prev, state: AlertState.RESOLVED };
+    }
+
+    firing.set(metric, severity);
+    return { severity, state: AlertState.FIRING };
+}
+
+/**
+ * Sends an alert to the server via the tcp client.
+ * 
+ * @param udp UDP client used by the agent, whose TCP client sends the alerts enveloped with the session keys
+ * @param nt NetTask containing connection information
+ * @param taskConfigId Config identifier of the task
+ * @param schemas Task schemas for processing the metrics containing alerts
+ * @param spack The metrics carried by the alert
+ * @param change The severity and state of the alert
+ */
+function sendAlert(
+    udp: UDPClient, 
+    nt: NetTask, 
+    taskConfigId: string, 
+    schemas: SPACKPacked | { [key: string]: SPACKTask; }, 
+    spack: SPACKTaskMetric, 
+    change: AlertChange
+) {
+    const alMetric = new AlertFlow(
+        nt.getSessionId(),
+        taskConfigId,
+        (<SPACKTask>schemas[<never>taskConfigId]).getUnpacked(),
+        spack,
+        change.severity,
+        change.state
+    );
+    udp.tcpClient.sendAlert(alMetric.link(udp.ecdhe));
+}
+
 /**
  * Metrics monitorized during a task execution.
  */
@@ -81,7 +178,8 @@ interface MonitorLinkMetrics {
  * @param nt NetTask containing connection information
  * @param taskConfigId Config identifier of the task
  * @param schemas Task schemas for processing the metrics containing alerts
- * @param tcp TCP client to send alerts
+ * @param udp UDP client used by the agent, whose TCP client sends the alerts enveloped with the session keys
+ * @param firing The alerts firing on the task
  * @returns Average metrics 
  */
 async function monitorMetrics(
@@ -90,7 +188,8 @@ async function monitorMetrics(
     nt: NetTask, 
     taskConfigId: string, 
     schemas: SPACKPacked | { [key: string]: SPACKTask; }, 
-    tcp: TCPClient
+    udp: UDPClient,
+    firing: FiringAlerts
 ): Promise<MonitorDeviceMetrics> {
     const logger = getOrCreateGlobalLogger();
     const endTime = Date.now() + duration;
@@ -124,23 +223,16 @@ async function monitorMetrics(
 
         if (task.device_metrics.cpu_usage) {
             const cpuUsage = getCpuUsage();
-            if (
-                typeof task.alert_conditions.cpu_usage === "number" 
-                && cpuAlert === false 
-                && task.alert_conditions.cpu_usage < cpuUsage
-            ) {
-                cpuAlert = true;
-                logger.warn("CPU Usage exceeded! Value: " + cpuUsage);
+            const change = updateAlert(firing, "cpu_usage", cpuUsage, task.alert_conditions.cpu_usage);
+            if (change) {
+                logger.warn(`CPU Usage alert ${AlertState[change.state]} (${AlertSeverity[change.severity]})! Value: ${cpuUsage}`);
 
                 const spack: SPACKTaskMetric = createSPACKTaskMetricForAlert("cpu_usage", cpuUsage, networkInterfacesAlertsValue);
-                const alMetric = new AlertFlow(
-                    nt.getSessionId(),
-                    taskConfigId,
-                    (<SPACKTask>schemas[<never>taskConfigId]).getUnpacked(),
-                    spack
-                );
-                tcp.send(alMetric.serialize());
+                sendAlert(udp, nt, taskConfigId, schemas, spack, change);
+            }
 
+            if (firing.has("cpu_usage")) {
+                cpuAlert = true;
                 result.avgCpuUsage = IgnoreValues.s8;
             } else {
                 cpuUsageCounter++;
@@ -150,23 +242,16 @@ async function monitorMetrics(
 
         if (task.device_metrics.ram_usage) {
             const ramUsage = getRamUsage();
-            if (
-                typeof task.alert_conditions.ram_usage === "number" 
-                && ramAlert === false 
-                && task.alert_conditions.ram_usage < ramUsage
-            ) {
-                ramAlert = true;
-                logger.warn("RAM Usage exceeded! Value: " + ramUsage);
+            const change = updateAlert(firing, "ram_usage", ramUsage, task.alert_conditions.ram_usage);
+            if (change) {
+                logger.warn(`RAM Usage alert ${AlertState[change.state]} (${AlertSeverity[change.severity]})! Value: ${ramUsage}`);
 
                 const spack: SPACKTaskMetric = createSPACKTaskMetricForAlert("ram_usage", ramUsage, networkInterfacesAlertsValue);
-                const alMetric = new AlertFlow(
-                    nt.getSessionId(),
-                    taskConfigId,
-                    (<SPACKTask>schemas[<never>taskConfigId]).getUnpacked(),
-                    spack
-                );
-                tcp.send(alMetric.serialize());
+                sendAlert(udp, nt, taskConfigId, schemas, spack, change);
+            }
 
+            if (firing.has("ram_usage")) {
+                ramAlert = true;
                 result.avgRamUsage = IgnoreValues.s8;
             } else {
                 ramUsageCounter++;
@@ -186,29 +271,28 @@ async function monitorMetrics(
                     );
 
                     const pps = currentPackets - prevPackets;
-                    if (
-                        typeof task.alert_conditions.interface_stats === "number" 
-                        && networkInterfacesAlertsControl[netInterface] === false 
-                        && task.alert_conditions.interface_stats < pps
-                    ) {
-                        networkInterfacesAlertsControl[netInterface] = true;
+                    const change = updateAlert(
+                        firing, 
+                        `interface_stats.${netInterface}`, 
+                        pps, 
+                        task.alert_conditions.interface_stats
+                    );
+                    if (change) {
                         networkInterfacesAlertsValue[netInterface] = pps;
-                        logger.warn("PPS Value exceeded! Value: " + pps);
+                        logger.warn(`PPS alert ${AlertState[change.state]} (${AlertSeverity[change.severity]})! Value: ${pps}`);
 
                         const spack: SPACKTaskMetric = createSPACKTaskMetricForAlert(
                             "interface_stats", 
                             IgnoreValues.s8, 
                             networkInterfacesAlertsValue
                         );
-                        const alMetric = new AlertFlow(
-                            nt.getSessionId(),
-                            taskConfigId,
-                            (<SPACKTask>schemas[<never>taskConfigId]).getUnpacked(),
-                            spack
-                        );
-                        tcp.send(alMetric.serialize());
+                        sendAlert(udp, nt, taskConfigId, schemas, spack, change);
 
                         networkInterfacesAlertsValue[netInterface] = IgnoreValues.s8;
+                    }
+
+                    if (firing.has(`interface_stats.${netInterface}`)) {
+                        networkInterfacesAlertsControl[netInterface] = true;
                     } else {
                         interfaceStats[netInterface] = <number>interfaceStats[netInterface] + pps;
                     }
@@ -329,135 +413,166 @@ async function executeCommand(
 }
 
 /**
+ * Runs a single iteration of a task, monitoring the device and executing the link tests for the duration of 
+ * the task frequency. Alerts raised during the iteration are sent via the tcp client.
  * 
- * 
- * @param taskConfigId 
- * @param task 
- * @param udp 
- * @param nt 
- * @param schemas 
+ * @param taskConfigId Config identifier of the task
+ * @param task Task configuration to run
+ * @param udp UDP client used by the agent
+ * @param nt NetTask containing connection information
+ * @param schemas Task schemas for processing the metrics containing alerts
+ * @param firing The alerts firing on the task
+ * @returns The collected metrics, ready to be sent to the server
  */
-async function executeTask(
+async function collectMetrics(
     taskConfigId: string, 
     task: SPACKTask, 
     udp: UDPClient, 
     nt: NetTask, 
-    schemas: SPACKPacked | { [key: string]: SPACKTask; }
-): Promise<void> {
+    schemas: SPACKPacked | { [key: string]: SPACKTask; },
+    firing: FiringAlerts
+): Promise<SPACKTaskMetric> {
     const logger = getOrCreateGlobalLogger();
-    logger.pInfo(`Starting task '${taskConfigId}' execution.\n`);
-
-    async function taskLoop() {
-        logger.info(`Running a new task (${taskConfigId}) iteration.`);
-        const frequency = task.frequency * 1000;
-
-        // Parallel execution of monitor and executors
-        const [deviceMetrics, linkMetrics] = await Promise.all([
-            monitorMetrics(task, frequency, nt, taskConfigId, schemas, udp.tcpClient),
-            executeCommand(task),
-        ]);
-
-        logger.pInfo(`Metrics report for task '${taskConfigId}':`);
-
-        logger.pInfo("|-> Device metrics:");
-        if (
-            deviceMetrics.avgCpuUsage 
-            && deviceMetrics.avgCpuUsage !== IgnoreValues.s8
-        ) logger.pInfo(`|--> Average CPU Usage: ${deviceMetrics.avgCpuUsage}%`);
-
-        if (
-            deviceMetrics.avgRamUsage 
-            && deviceMetrics.avgRamUsage !== IgnoreValues.s8
-        ) logger.pInfo(`|--> Average RAM Usage: ${deviceMetrics.avgRamUsage}%`);
-
-        if (deviceMetrics.interfacePPS && deviceMetrics.interfacePPS) {
-            for (const [netInterface, pps] of Object.entries(deviceMetrics.interfacePPS)) {
-                if (pps !== IgnoreValues.s8) logger.pInfo(`|--> '${netInterface}' total packets: ${pps}`);
-            }
+    const frequency = task.frequency * 1000;
+
+    // Parallel execution of monitor and executors
+    const [deviceMetrics, linkMetrics] = await Promise.all([
+        monitorMetrics(task, frequency, nt, taskConfigId, schemas, udp, firing),
+        executeCommand(task),
+    ]);
+
+    logger.pInfo(`Metrics report for task '${taskConfigId}':`);
+
+    logger.pInfo("|-> Device metrics:");
+    if (
+        deviceMetrics.avgCpuUsage 
+        && deviceMetrics.avgCpuUsage !== IgnoreValues.s8
+    ) logger.pInfo(`|--> Average CPU Usage: ${deviceMetrics.avgCpuUsage}%`);
+
+    if (
+        deviceMetrics.avgRamUsage 
+        && deviceMetrics.avgRamUsage !== IgnoreValues.s8
+    ) logger.pInfo(`|--> Average RAM Usage: ${deviceMetrics.avgRamUsage}%`);
+
+    if (deviceMetrics.interfacePPS && deviceMetrics.interfacePPS) {
+        for (const [netInterface, pps] of Object.entries(deviceMetrics.interfacePPS)) {
+            if (pps !== IgnoreValues.s8) logger.pInfo(`|--> '${netInterface}' total packets: ${pps}`);
         }
+    }
 
-        const interfaceStats: Record<string, number> | undefined = deviceMetrics.interfacePPS === undefined 
-            ? undefined 
-            : deviceMetrics.interfacePPS;
+    const interfaceStats: Record<string, number> | undefined = deviceMetrics.interfacePPS === undefined 
+        ? undefined 
+        : deviceMetrics.interfacePPS;
 
-        logger.pInfo("|-> Link metrics:");
+    logger.pInfo("|-> Link metrics:");
 
-        //#region ============== ALERT TREATMENT ==============
-        const interfaceDefaultAlert: Record<string, number> = {};
-        if (interfaceStats) {
-            for (const key of Object.keys(interfaceStats))
-                interfaceDefaultAlert[key] = IgnoreValues.s8;
-        }
+    //#region ============== ALERT TREATMENT ==============
+    const interfaceDefaultAlert: Record<string, number> = {};
+    if (interfaceStats) {
+        for (const key of Object.keys(interfaceStats))
+            interfaceDefaultAlert[key] = IgnoreValues.s8;
+    }
 
-        if (
-            task.alert_conditions.jitter
-            && linkMetrics.jitter
-            && (linkMetrics.jitter - 1) >= task.alert_conditions.jitter
-        ) {
+    // Unreachable targets are reported with the highest value of each metric.
+    const unreachableValues = { jitter: 10001, latency: 10001, packet_loss: 101 } as const;
+    for (const metric of ["jitter", "latency", "packet_loss"] as const) {
+        const value = linkMetrics[metric];
+        if (!value) continue;
+
+        const unreachable = value === IgnoreValues.s16;
+        const change = updateAlert(
+            firing, 
+            metric, 
+            unreachable ? unreachableValues[metric] - 1 : value - 1, 
+            task.alert_conditions[metric]
+        );
+        if (change) {
             const spack: SPACKTaskMetric = createSPACKTaskMetricForAlert(
-                "jitter", 
-                linkMetrics.jitter === IgnoreValues.s16 ? 10001 : linkMetrics.jitter, // 10001 means Target Unreachable
+                metric, 
+                unreachable ? unreachableValues[metric] : value,
                 interfaceDefaultAlert
             );
-            const alMetric = new AlertFlow(
-                nt.getSessionId(),
-                taskConfigId,
-                (<SPACKTask>schemas[<never>taskConfigId]).getUnpacked(),
-                spack
-            );
-            udp.tcpClient.send(alMetric.serialize());
-            linkMetrics.jitter = IgnoreValues.s16;
+            sendAlert(udp, nt, taskConfigId, schemas, spack, change);
         }
 
-        if (
-            task.alert_conditions.latency
-            && linkMetrics.latency
-            && (linkMetrics.latency - 1) >= task.alert_conditions.latency
-        ) {
+        // Only metrics without a firing alert are sent with the task metrics, even if the alert was already sent.
+        if (firing.has(metric)) linkMetrics[metric] = IgnoreValues.s16;
+    }
+    //#endregion ============== ALERT TREATMENT ==============
 
-            const spack: SPACKTaskMetric = createSPACKTaskMetricForAlert(
-                "latency", 
-                linkMetrics.latency === IgnoreValues.s16 ? 10001 : linkMetrics.latency, // 10001 means Target Unreachable
-                interfaceDefaultAlert
-            );
-            const alMetric = new AlertFlow(
-                nt.getSessionId(),
-                taskConfigId,
-                (<SPACKTask>schemas[<never>taskConfigId]).getUnpacked(),
-                spack
-            );
+    if (linkMetrics.bandwidth && linkMetrics.bandwidth !== IgnoreValues.s16) logger.pInfo(`|--> Bandwidth: ${linkMetrics.bandwidth - 1} Mbps`);
+    if (linkMetrics.jitter && linkMetrics.jitter !== IgnoreValues.s16) logger.pInfo(`|--> Jitter: ${linkMetrics.jitter - 1} ms`);
+    if (linkMetrics.latency && linkMetrics.latency !== IgnoreValues.s16) logger.pInfo(`|--> Latency: ${linkMetrics.latency - 1} ms`);
+    if (linkMetrics.packet_loss && linkMetrics.packet_loss !== IgnoreValues.s16) logger.pInfo(`|--> Packet Loss: ${linkMetrics.packet_loss - 1}%`);
 
-            udp.tcpClient.send(alMetric.serialize());
-            linkMetrics.latency = IgnoreValues.s16;
+    logger.pInfo(`Metrics report for task '${taskConfigId}' ended.\n`);
+
+    return {
+        device_metrics: {
+            cpu_usage: deviceMetrics.avgCpuUsage,
+            ram_usage: deviceMetrics.avgRamUsage,
+            interface_stats: deviceMetrics.interfacePPS
+        },
+        link_metrics: {
+            bandwidth: linkMetrics.bandwidth,
+            jitter: linkMetrics.jitter,
+            packet_loss: linkMetrics.packet_loss,
+            latency: linkMetrics.latency
         }
+    };
+}
 
-        if (
-            task.alert_conditions.packet_loss
-            && linkMetrics.packet_loss
-            && (linkMetrics.packet_loss - 1) >= task.alert_conditions.packet_loss
-        ) {
-            const spack: SPACKTaskMetric = createSPACKTaskMetricForAlert(
-                "packet_loss", 
-                linkMetrics.packet_loss === IgnoreValues.s16 ? 101 : linkMetrics.packet_loss, // 101 means Target Unreachable
-                interfaceDefaultAlert
-            );
-            const alMetric = new AlertFlow(
-                nt.getSessionId(),
-                taskConfigId,
-                (<SPACKTask>schemas[<never>taskConfigId]).getUnpacked(),
-                spack
-            );
-            udp.tcpClient.send(alMetric.serialize());
-            linkMetrics.packet_loss = IgnoreValues.s16;
+/**
+ * Runs a task periodically, with the frequency defined on it's configuration, sending the collected metrics
+ * to the server after every iteration. The task runs until the signal is aborted. An iteration already running
+ * when the signal is aborted is allowed to finish, but it's metrics are discarded, since the server no longer
+ * expects them under the old task configuration.
+ * 
+ * @param taskConfigId Config identifier of the task
+ * @param task Task configuration to run
+ * @param udp UDP client used by the agent
+ * @param nt NetTask containing connection information
+ * @param schemas Task schemas for processing the metrics containing alerts
+ * @param signal Signal used to cancel the task
+ */
+async function executeTask(
+    taskConfigId: string, 
+    task: SPACKTask, 
+    udp: UDPClient, 
+    nt: NetTask, 
+    schemas: SPACKPacked | { [key: string]: SPACKTask; },
+    signal?: AbortSignal
+): Promise<void> {
+    const logger = getOrCreateGlobalLogger();
+    logger.pInfo(`Starting task '${taskConfigId}' execution.\n`);
+
+    // Alerts raised while the AlertFlow connection is down are kept by the TCP client, and delivered once it is back.
+    const onConnectionState: TCPClientStateSubscriber = (state, prev) => {
+        if (state === TCPClientState.RECONNECTING && prev === TCPClientState.CONNECTED) {
+            logger.pWarn(`Alerts of task '${taskConfigId}' will be delivered once the connection to the server is restored.`);
+        } else if (state === TCPClientState.CONNECTED) {
+            const pending = udp.tcpClient.countPendingAlerts(taskConfigId);
+            if (pending > 0) logger.pInfo(`Delivering ${pending} alert(s) of task '${taskConfigId}' kept while disconnected from the server.`);
         }
-        //#endregion ============== ALERT TREATMENT ==============
+    };
+    udp.tcpClient.subscribeState(onConnectionState);
+
+    const firing: FiringAlerts = new Map();
+    runningTaskAlerts.set(taskConfigId, firing);
 
-        if (linkMetrics.bandwidth && linkMetrics.bandwidth !== IgnoreValues.s16) logger.pInfo(`|--> Bandwidth: ${linkMetrics.bandwidth - 1} Mbps`);
-        if (linkMetrics.jitter && linkMetrics.jitter !== IgnoreValues.s16) logger.pInfo(`|--> Jitter: ${linkMetrics.jitter - 1} ms`);
-        if (linkMetrics.latency && linkMetrics.latency !== IgnoreValues.s16) logger.pInfo(`|--> Latency: ${linkMetrics.latency - 1} ms`);
-        if (linkMetrics.packet_loss && linkMetrics.packet_loss !== IgnoreValues.s16) logger.pInfo(`|--> Packet Loss: ${linkMetrics.packet_loss - 1}%`);
+    async function taskLoop() {
+        if (signal?.aborted) {
+            logger.pInfo(`Task '${taskConfigId}' execution stopped.\n`);
+            return;
+        }
 
-        logger.pInfo(`Metrics report for task '${taskConfigId}' ended.\n`);
+        logger.info(`Running a new task (${taskConfigId}) iteration.`);
+        const metrics = await collectMetrics(taskConfigId, task, udp, nt, schemas, firing);
+        if (signal?.aborted) {
+            logger.info(`Discarding metrics of task '${taskConfigId}', which was stopped during the iteration.`);
+            logger.pInfo(`Task '${taskConfigId}' execution stopped.\n`);
+            return;
+        }
 
         // Send metrics
         const ntMetric = new NetTaskMetric(
@@ -467,19 +582,7 @@ async function executeTask(
             0,
             false,
             0,
-            {
-                device_metrics: {
-                    cpu_usage: deviceMetrics.avgCpuUsage,
-                    ram_usage: deviceMetrics.avgRamUsage,
-                    interface_stats: deviceMetrics.interfacePPS
-                },
-                link_metrics: {
-                    bandwidth: linkMetrics.bandwidth,
-                    jitter: linkMetrics.jitter,
-                    packet_loss: linkMetrics.packet_loss,
-                    latency: linkMetrics.latency
-                }
-            },
+            metrics,
             taskConfigId,
             (<SPACKTask>schemas[<never>taskConfigId]).getUnpacked()
         ).link(udp.ecdhe);
@@ -493,7 +596,53 @@ async function executeTask(
         await taskLoop();
     }
 
-    await taskLoop();
+    try {
+        await taskLoop();
+    } finally {
+        udp.tcpClient.unsubscribeState(onConnectionState);
+        // A task restarted with a new configuration may already be running under the same identifier.
+        if (runningTaskAlerts.get(taskConfigId) === firing) runningTaskAlerts.delete(taskConfigId);
+    }
+}
+
+/**
+ * Runs a task once, out of it's schedule, on the request of the server. The collected metrics are sent to the
+ * server correlated to the request.
+ * 
+ * @param taskConfigId Config identifier of the task
+ * @param task Task configuration to run
+ * @param udp UDP client used by the agent
+ * @param nt NetTask containing connection information
+ * @param schemas Task schemas for processing the metrics containing alerts
+ * @param requestId Identifier of the request sent by the server
+ */
+async function executeTaskOnce(
+    taskConfigId: string, 
+    task: SPACKTask, 
+    udp: UDPClient, 
+    nt: NetTask, 
+    schemas: SPACKPacked | { [key: string]: SPACKTask; },
+    requestId: number
+): Promise<void> {
+    const logger = getOrCreateGlobalLogger();
+    logger.pInfo(`Running task '${taskConfigId}' on request ${requestId}.\n`);
+
+    const firing = runningTaskAlerts.get(taskConfigId) ?? new Map();
+    const metrics = await collectMetrics(taskConfigId, task, udp, nt, schemas, firing);
+
+    const ntResponse = new NetTaskResponseMetrics(
+        nt.getSessionId(),
+        udp.flowControl.getLastSeq(),
+        udp.flowControl.getLastAck(),
+        requestId,
+        metrics,
+        taskConfigId,
+        (<SPACKTask>schemas[<never>taskConfigId]).getUnpacked()
+    ).link(udp.ecdhe);
+
+    udp.send(ntResponse);
+
+    logger.info(`End of task '${taskConfigId}' execution on request ${requestId}.\n`);
 }
 
-export { executeTask };
\ No newline at end of file
+export { executeTask, executeTaskOnce };
\ No newline at end of file
@@ -11,10 +11,12 @@ import path from "path";
 import { cac } from "cac";
 import isBinMode from "$common/util/isBinMode.js";
 import { getOrCreateGlobalLogger } from "$common/util/logger.js";
-import { UDPClient } from "./protocol/udp.js";
+import { AgentIdentity, UDPClient } from "./protocol/udp.js";
 import { ConnectionTarget } from "$common/protocol/connection.js";
 import { TCPClient } from "./protocol/tcp.js";
 import { registerShutdown } from "../common/util/shutdown.js";
+import { loadServerVerifier, parsePrivateKey, ServerVerifier } from "$common/protocol/certificate.js";
+import { AgentCredential } from "$common/protocol/enrollment.js";
 // import { NetTask, NetTaskDatagramType, NetTaskRegister } from "$common/datagrams/NetTask.js";
 
 //#region ============== Types ==============
@@ -23,7 +25,13 @@ interface CLIOptions {
     host: string,
     port: number,
     cwd: string,
-    keystore: string
+    keystore: string,
+    spool: string,
+    name?: string,
+    token?: string,
+    key?: string,
+    serverKey?: string,
+    ca?: string
 }
 //#endregion ============== Types ==============
 
@@ -34,6 +42,7 @@ const DEFAULT_HOST = "127.0.0.1";
 const DEFAULT_PORT = 2022;
 const DEFAULT_CWD = ".";
 const DEFAULT_KEYSTORE = "agent.keystore";
+const DEFAULT_SPOOL = "metrics.spool";
 //#endregion ============== Constants ==============
 
 /**
@@ -55,7 +64,8 @@ export async function agentInit(options: CLIOptions) {
     const port = options.port;
 
     const tcpClient = new TCPClient();
-    await tcpClient.connect(new ConnectionTarget(host, port));
+    // Not awaited: the client reconnects until the server is reachable, keeping the alerts raised meanwhile.
+    tcpClient.connect(new ConnectionTarget(host, port));
     // tcpClient.send(Buffer.from("Hello from TCP Client."));
 
     // let al = new AlertFlow(1, AlertFlowDatagramType.REQUEST_ALERT, 5);
@@ -64,7 +74,24 @@ export async function agentInit(options: CLIOptions) {
     // tcpClient.send(al.makeAlertFlowDatagram());
     // tcpClient.send(al2.makeAlertFlowDatagram());
 
-    const udpClient = new UDPClient(options.keystore, tcpClient);
+    let verifier: ServerVerifier | undefined;
+    if (options.serverKey !== undefined) {
+        verifier = await loadServerVerifier("pinned", options.serverKey);
+    } else if (options.ca !== undefined) {
+        verifier = await loadServerVerifier("ca", options.ca, host);
+    } else {
+        logger.pWarn("No server key or CA given. The identity of the server will not be verified.");
+    }
+
+    let identity: AgentIdentity | undefined;
+    if (options.name !== undefined) {
+        const credential: AgentCredential = options.token !== undefined
+            ? { token: options.token }
+            : { privateKey: parsePrivateKey(await fsp.readFile(options.key!, "utf8")) };
+        identity = { name: options.name, credential };
+    }
+
+    const udpClient = new UDPClient(options.keystore, tcpClient, options.spool, identity, verifier);
     udpClient.connect(new ConnectionTarget(host, port + 1));
 
     // udpClient.send(Buffer.from("Hello from UDP Client."));
@@ -91,18 +118,52 @@ cli.option(
     "--keystore [keystore]", "The name of the keystore file to be used by this agent to revive closed connections.", 
     { type: <never>String, default: DEFAULT_KEYSTORE }
 );
+cli.option(
+    "--spool [spool]", "The name of the file to be used by this agent to store metrics that could not be delivered.", 
+    { type: <never>String, default: DEFAULT_SPOOL }
+);
+cli.option(
+    "--name [name]", 
+    "The name of the device of this agent on the config of the server. Requires either --token or --key. " +
+    "Without a name, the server identifies the agent by it's address.", 
+    { type: <never>String }
+);
+cli.option(
+    "--token [token]", "The enrollment token of the device named by --name. Requires --name, and can not be used along with --key.", 
+    { type: <never>String }
+);
+cli.option(
+    "--key [file]", "The private key provisioned for the device named by --name, instead of an enrollment token. Requires --name.", 
+    { type: <never>String }
+);
+cli.option("--server-key [file]", "The public key of the server, pinned to verify it's identity.", { type: <never>String });
+cli.option("--ca [file]", "A bundle with the public keys of the CAs trusted to issue certificates for the server.", { type: <never>String });
 
 async function cliHandler() {
     const { options } = cli.parse();
     if (options.help || options.version) return; // Do not execute script if help message was requested.
     
-    getOrCreateGlobalLogger({ printCallerFile: options.debug, debug: options.debug });
+    const logger = getOrCreateGlobalLogger({ printCallerFile: options.debug, debug: options.debug });
+
+    const credentials = [options.token, options.key].filter(c => c !== undefined).length;
+    if ((options.name === undefined) !== (credentials === 0) || credentials > 1) {
+        logger.pError("The option --name must be given along with exactly one of --token or --key.");
+        process.exitCode = 1;
+        return;
+    }
+
+    if (options.serverKey !== undefined && options.ca !== undefined) {
+        logger.pError("The options --server-key and --ca can not be given together.");
+        process.exitCode = 1;
+        return;
+    }
 
     if (!path.isAbsolute(options.cwd)) {
         options.cwd = path.join(process.cwd(), options.cwd);
     }
 
     options.keystore = path.join(options.cwd, options.keystore);
+    options.spool = path.join(options.cwd, options.spool);
 
     await agentInit(options as CLIOptions);
     return;
@@ -2,28 +2,178 @@
  * @module TCP
  * TCP Client implementation.
  * 
+ * Alerts are kept by the client until the server acknowledges them, and are sent again if no acknowledgement arrives
+ * in time, or after reconnecting. Since the server recognizes the alerts it already stored, an alert is stored once 
+ * even if sent several times.
+ * 
+ * Once connected, the client reconnects on it's own whenever the connection is lost, waiting between attempts for an
+ * exponentially growing, randomized delay, so that agents losing the server at the same time do not reconnect all at
+ * once. Alerts raised while disconnected are kept, and sent once the connection is restored.
+ * 
  * @copyright Copyright (c) 2024 DarkenLM https://github.com/DarkenLM
  */
 
 import net from "net";
 import { TCPConnection } from "$common/protocol/tcp.js";
 import { ConnectionTarget } from "$common/protocol/connection.js";
+import { frame, FrameReader } from "$common/protocol/framing.js";
+import { AlertFlow, AlertFlowAck } from "$common/datagram/AlertFlow.js";
+import { ECDHE } from "$common/protocol/ecdhe.js";
+import { BufferReader } from "$common/util/buffer.js";
+import { subscribeShutdown } from "$common/util/shutdown.js";
+
+//#region ============== Constants ==============
+/**
+ * Time, in milliseconds, to wait for the acknowledgement of an alert before sending it again.
+ */
+const ALERT_ACK_TIMEOUT = 10 * 1000;
+
+/**
+ * Number of times an alert is sent before it is dropped.
+ */
+const MAX_ALERT_ATTEMPTS = 10;
+
+/**
+ * Maximum number of alerts waiting to be acknowledged. When full, the oldest alert is dropped.
+ */
+const MAX_PENDING_ALERTS = 256;
+
+/**
+ * Delay, in milliseconds, before the first attempt to reconnect. Doubled on every failed attempt.
+ */
+const RECONNECT_BASE_DELAY = 1000;
+
+/**
+ * Maximum delay, in milliseconds, between attempts to reconnect.
+ */
+const RECONNECT_MAX_DELAY = 60 * 1000;
+
+enum TCPClientState {
+    /**
+     * No connection was ever attempted.
+     */
+    IDLE,
+    CONNECTING,
+    CONNECTED,
+    /**
+     * The connection was lost, or could not be established, and the client is waiting to try again.
+     */
+    RECONNECTING,
+    /**
+     * The client was closed, and no longer reconnects.
+     */
+    CLOSED
+};
+//#endregion ============== Constants ==============
+
+//#region ============== Types ==============
+/**
+ * An alert waiting to be acknowledged by the server.
+ */
+interface PendingAlert {
+    alert: AlertFlow,
+    /**
+     * Number of times the alert was written to the socket.
+     */
+    attempts: number,
+    /**
+     * The time the alert was last written to the socket at, in milliseconds.
+     */
+    sentAt: number
+}
+
+/**
+ * The current NetTask session of the agent. Alerts are sent under it's id, enveloped with it's keys.
+ */
+interface SessionCrypto {
+    sessionId: Buffer,
+    ecdhe: ECDHE
+}
+
+/**
+ * Called whenever the state of the connection of a {@link TCPClient} changes.
+ */
+type TCPClientStateSubscriber = (state: TCPClientState, prev: TCPClientState) => void;
+//#endregion ============== Types ==============
+
+/**
+ * Returns the delay, in milliseconds, before a given attempt to reconnect. The delay is picked at random between zero 
+ * and an exponentially growing cap, so that clients that lost the connection at the same time spread their attempts.
+ * @param attempt The number of attempts that failed since the connection was lost.
+ */
+function reconnectDelay(attempt: number): number {
+    const cap = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt);
+    return Math.round(Math.random() * cap);
+}
 
 /**
  * A TCP Client with integrated events and asynchronous flow control.
  * 
  * @example
- * const client = new TCPClient().connect(new ConnectionTarget(ADDRESS, PORT));
+ * const logger = getOrCreateGlobalLogger();
+ * const client = new TCPClient();
+ * client.subscribeState((state) => logger.info(TCPClientState[state]));
+ * client.connect(new ConnectionTarget(ADDRESS, PORT));
  * client.send(Buffer.from("Hello world!"))
  */
 class TCPClient extends TCPConnection {
-    protected connected: boolean;
+    private _state: TCPClientState;
+    /**
+     * The target to connect, and reconnect, to.
+     */
+    private target?: ConnectionTarget;
+    /**
+     * Number of attempts to reconnect that failed since the connection was lost.
+     */
+    private reconnectAttempts: number;
+    private reconnectTimer?: NodeJS.Timeout;
+    /**
+     * Whether the connection was established at least once, to tell reconnections apart from the first connection.
+     */
+    private everConnected: boolean;
+    /**
+     * The functions called whenever the state of the connection changes.
+     */
+    private subscribers: TCPClientStateSubscriber[];
+    /**
+     * Returns the current NetTask session, used to envelope alerts and open acknowledgements, or undefined if
+     * the agent is not registered.
+     */
+    private sessionCrypto?: () => SessionCrypto | undefined;
+    /**
+     * The alerts waiting to be acknowledged, by alert id, in the order they were sent.
+     */
+    private pending: Map<string, PendingAlert>;
+    /**
+     * Reassembles the frames received from the server.
+     */
+    private frames: FrameReader;
+    private retryTimer: NodeJS.Timeout;
 
     constructor() {
         const socket = new net.Socket();
         super(socket);
 
-        this.connected = false;
+        this._state = TCPClientState.IDLE;
+        this.reconnectAttempts = 0;
+        this.everConnected = false;
+        this.subscribers = [];
+        this.pending = new Map();
+        this.frames = new FrameReader();
+        this.retryTimer = setInterval(this.retryPending.bind(this), ALERT_ACK_TIMEOUT / 2);
+        this.retryTimer.unref();
+
+        subscribeShutdown(() => {
+            this.logger.info("TCP Client shutting down.");
+            this.close();
+        });
+    }
+
+    /**
+     * Returns the state of the connection.
+     */
+    public get state(): TCPClientState {
+        return this._state;
     }
 
     /**
@@ -31,7 +181,47 @@ class TCPClient extends TCPConnection {
      * to send and receive packets.
      */
     public isConnected(): boolean {
-        return this.connected;
+        return this._state === TCPClientState.CONNECTED;
+    }
+
+    /**
+     * Subscribes to the changes of the state of the connection. Subscribers are called in subscription order.
+     * @param subscriber The function to call whenever the state changes.
+     */
+    public subscribeState(subscriber: TCPClientStateSubscriber): void {
+        if (this.subscribers.includes(subscriber)) return;
+
+        this.subscribers.push(subscriber);
+    }
+
+    /**
+     * Unsubscribes from the changes of the state of the connection.
+     * @param subscriber A function previously passed to {@link subscribeState}.
+     */
+    public unsubscribeState(subscriber: TCPClientStateSubscriber): void {
+        const index = this.subscribers.indexOf(subscriber);
+        if (index === -1) return;
+
+        this.subscribers.splice(index, 1);
+    }
+
+    /**
+     * Changes the state of the connection, notifying every subscriber.
+     */
+    private setState(state: TCPClientState): void {
+        const prev = this._state;
+        if (prev === state) return;
+
+        this._state = state;
+        this.logger.info(`TCP Client state changed: ${TCPClientState[prev]} -> ${TCPClientState[state]}.`);
+
+        for (const subscriber of [...this.subscribers]) {
+            try {
+                subscriber(state, prev);
+            } catch (e) {
+                this.logger.error("TCP Client state subscriber failed:", e);
+            }
+        }
     }
 
     public onError(err: Error): void {
@@ -39,40 +229,219 @@ class TCPClient extends TCPConnection {
     }
     
     public onMessage(msg: Buffer): void {
-        this.logger.info(`TCP Client got message from target:`, msg.toString("utf8"));
+        this.logger.info(`TCP Client got ${msg.byteLength} bytes from target.`);
+
+        let frames: Buffer[];
+        try {
+            frames = this.frames.push(msg);
+        } catch (e) {
+            // The stream is no longer in sync, and nothing else received on it can be trusted.
+            this.logger.pWarn(`Closing TCP connection to the server: ${(<Error>e).message}`);
+            this.socket.destroy();
+            return;
+        }
+
+        for (const payload of frames) this.handleAck(payload);
     }
 
     public onSocketConnection(): void {
-        this.connected = true;
+        if (this.everConnected) this.logger.pInfo(`Reconnected to the server at '${this.target?.qualifiedName}'.`);
+
+        this.everConnected = true;
+        this.reconnectAttempts = 0;
+        this.setState(TCPClientState.CONNECTED);
+
+        // Whatever was not acknowledged before the connection was lost is sent again.
+        for (const entry of this.pending.values()) this.transmit(entry);
+    }
+
+    protected onClose(): void {
+        // A partial frame left by the closed connection would corrupt the next one.
+        this.frames = new FrameReader();
+
+        if (this._state === TCPClientState.CLOSED) return;
+
+        if (this._state === TCPClientState.CONNECTED) {
+            this.logger.pWarn(`Lost connection to the server. Alerts will be kept until it is restored.`);
+        } else {
+            this.reconnectAttempts++;
+        }
+
+        const delay = reconnectDelay(this.reconnectAttempts);
+        this.logger.info(`TCP Client reconnecting in ${delay}ms (attempt ${this.reconnectAttempts + 1}).`);
+
+        this.setState(TCPClientState.RECONNECTING);
+        this.reconnectTimer = setTimeout(this.reconnect.bind(this), delay);
+    }
+
+    /**
+     * Attempts to connect again to the target, after the connection was lost or could not be established.
+     */
+    private reconnect(): void {
+        this.reconnectTimer = undefined;
+        if (this._state !== TCPClientState.RECONNECTING || !this.target) return;
+
+        this.setState(TCPClientState.CONNECTING);
+        this.socket.connect({
+            host: this.target.address,
+            port: this.target.port
+        });
+    }
+
+    /**
+     * Sets the source of the NetTask session, used to envelope alerts and open acknowledgements. Since the session
+     * changes whenever the agent registers again, and it's keys whenever they are rotated, it is fetched on every use.
+     */
+    public useSessionCrypto(provider: () => SessionCrypto | undefined): void {
+        this.sessionCrypto = provider;
+    }
+
+    /**
+     * Sends an alert to the server, keeping it until the server acknowledges it. If not connected, the alert is sent
+     * once the connection is established.
+     * @param alert The alert to send.
+     */
+    public sendAlert(alert: AlertFlow): void {
+        if (this.pending.size >= MAX_PENDING_ALERTS) {
+            const [oldest] = this.pending.keys();
+            this.pending.delete(oldest);
+            this.logger.pWarn(`Dropped alert '${oldest}': Too many alerts waiting to be acknowledged.`);
+        }
+
+        const entry: PendingAlert = { alert, attempts: 0, sentAt: 0 };
+        this.pending.set(alert.getAlertId(), entry);
+        this.transmit(entry);
+    }
+
+    /**
+     * Returns the number of alerts waiting to be acknowledged by the server.
+     * @param taskId If given, only the alerts of this task are counted.
+     */
+    public countPendingAlerts(taskId?: string): number {
+        if (taskId === undefined) return this.pending.size;
+
+        let count = 0;
+        for (const entry of this.pending.values()) {
+            if (entry.alert.getTaskId() === taskId) count++;
+        }
+
+        return count;
+    }
+
+    /**
+     * Writes a pending alert to the socket, under the current session. Alerts raised on a session that was since
+     * replaced, by the agent registering again, are sent under the new one.
+     */
+    private transmit(entry: PendingAlert): void {
+        if (!this.isConnected()) return;
+
+        try {
+            const session = this.sessionCrypto?.();
+            if (session) entry.alert.setSessionId(session.sessionId).link(session.ecdhe);
+            this.send(entry.alert.serialize());
+        } catch (e) {
+            this.pending.delete(entry.alert.getAlertId());
+            this.logger.pError(`Dropped alert '${entry.alert.getAlertId()}': Could not be serialized.`, e);
+            return;
+        }
+
+        entry.attempts++;
+        entry.sentAt = Date.now();
+    }
+
+    /**
+     * Sends again the alerts that were not acknowledged in time, dropping the ones sent too many times.
+     */
+    private retryPending(): void {
+        const now = Date.now();
+        for (const [alertId, entry] of this.pending) {
+            if (entry.attempts === 0 || now - entry.sentAt < ALERT_ACK_TIMEOUT) continue;
+
+            if (entry.attempts >= MAX_ALERT_ATTEMPTS) {
+                this.pending.delete(alertId);
+                this.logger.pWarn(`Dropped alert '${alertId}': Not acknowledged after ${entry.attempts} attempts.`);
+                continue;
+            }
+
+            this.transmit(entry);
+        }
     }
 
     /**
-     * Sends a payload to the target.
+     * Handles a frame received from the server, holding a single AlertFlow Acknowledgement Datagram.
+     * 
+     * @param payload The payload of the frame.
+     */
+    private handleAck(payload: Buffer): void {
+        const reader = new BufferReader(payload);
+        if (!AlertFlowAck.verifySignature(reader)) {
+            this.logger.warn("TCP Client got a frame that is not an AlertFlow acknowledgement.");
+            return;
+        }
+
+        const session = this.sessionCrypto?.();
+        if (!session) return;
+
+        try {
+            const header = AlertFlow.deserializeHeader(reader);
+            const ack = AlertFlowAck.deserialize(reader, header, session.ecdhe);
+
+            if (this.pending.delete(ack.getAlertId())) this.logger.info(`Alert '${ack.getAlertId()}' was acknowledged.`);
+        } catch (e) {
+            // The alert is sent again, and acknowledged again, if it was not acknowledged.
+            this.logger.warn("TCP Client rejected an acknowledgement:", e);
+        }
+    }
+
+    /**
+     * Sends a payload to the target, as a single frame.
      * @param payload A Buffer containing the payload data.
+     * @throws {FramingError} If the payload does not fit in a frame.
      */
     public send(payload: Buffer): void {
-        if (!this.connected) return;
+        if (!this.isConnected()) return;
 
-        this.socket.write(payload);
+        this.socket.write(frame(payload));
     }
 
     /**
-     * Opens a connection to a given target on a given port.
+     * Opens a connection to a given target on a given port. Should only be called once, since the client reconnects
+     * on it's own whenever the connection is lost.
      * @param target The remote target to connect to.
+     * @returns A promise resolved once the connection is first established.
      */
-    public async connect(target: ConnectionTarget) {
+    public async connect(target: ConnectionTarget): Promise<void> {
         return new Promise((resolve) => {
             this.logger.log("TCP Client target:", target.qualifiedName);
 
+            this.target = target;
             this.socket.once("connect", resolve);
+
+            this.setState(TCPClientState.CONNECTING);
             this.socket.connect({
                 host: target.address,
                 port: target.port
             });
         });
     }
+
+    /**
+     * Closes the connection, and stops reconnecting. Alerts still waiting to be acknowledged are lost.
+     */
+    public close(): void {
+        if (this._state === TCPClientState.CLOSED) return;
+
+        this.setState(TCPClientState.CLOSED);
+        clearTimeout(this.reconnectTimer);
+        clearInterval(this.retryTimer);
+        this.socket.end();
+    }
 }
 
 export {
+    type SessionCrypto,
+    type TCPClientStateSubscriber,
+
+    TCPClientState,
     TCPClient
 };
\ No newline at end of file
@@ -6,23 +6,42 @@
  */
 
 import fs from "fs";
-import { NetTask, NetTaskDatagramType, NetTaskRegister, NetTaskRegisterChallenge, NetTaskRegisterChallenge2, NetTaskPushSchemas, NetTaskRejected, NetTaskRejectedReason, NetTaskWake, NetTaskBodyless, NetTaskReset } from "$common/datagram/NetTask.js";
+import { NetTask, NetTaskDatagramType, NetTaskRegister, NetTaskRegisterChallenge, NetTaskRegisterChallenge2, NetTaskPushSchemas, NetTaskRejected, NetTaskRejectedReason, NetTaskWake, NetTaskBodyless, NetTaskReset, NetTaskSelectiveAck, NetTaskMetric, NetTaskFragment, NetTaskRequestMetrics, NetTaskResponseTask, NetTaskRequestStatus, NetTaskUpdateSchemas, NetTaskSchemasAck, NetTaskRekey, NetTaskRekeyAck } from "$common/datagram/NetTask.js";
 import { ConnectionTarget } from "$common/protocol/connection.js";
-import { ECDHE } from "$common/protocol/ecdhe.js";
+import { AEADAlgorithm, ECDHE, LEGACY_AEAD } from "$common/protocol/ecdhe.js";
+import { isSupportedCipherSuite, makeNegotiationTranscript, SUPPORTED_AEADS, SUPPORTED_CURVES } from "$common/protocol/cipherSuite.js";
+import { ServerVerifier } from "$common/protocol/certificate.js";
+import { AgentCredential, makeEnrollmentTranscript, proveEnrollment } from "$common/protocol/enrollment.js";
+import { ReplayError } from "$common/protocol/replay.js";
 import { UDPConnection } from "$common/protocol/udp.js";
 import { BufferReader, bufferXOR } from "$common/util/buffer.js";
 import { RemoteInfo } from "dgram";
-import { executeTask } from "../executor.js";
+import { executeTask, executeTaskOnce } from "../executor.js";
 import { TCPClient } from "./tcp.js";
 import { DuplicatedPackageError, FlowControl, MaxRetransmissionsReachedError, OutOfOrderPackageError, ReachedMaxWindowError } from "$common/protocol/flowControl.js";
 import { subscribeShutdown } from "../../common/util/shutdown.js";
-
-const ECDHE_ALGO = "secp128r1";
+import { MetricSpool, SpoolEntry } from "../spool.js";
+import { SPACKPacked, SPACKTask } from "$common/datagram/spack.js";
 
 interface Keystore {
     sessionId: Buffer
     secret: Buffer
     salt: Buffer
+    /**
+     * The AEAD negotiated for the session. Missing on keystores stored before cipher suites were negotiated.
+     */
+    aead?: AEADAlgorithm
+}
+
+/**
+ * The identity of the agent, as defined for it's device on the config of the server.
+ */
+interface AgentIdentity {
+    name: string,
+    /**
+     * The credentials provisioned for the device. Never sent to the server, only used to prove the agent holds them.
+     */
+    credential: AgentCredential
 }
 
 /**
@@ -35,19 +54,56 @@ interface Keystore {
 class UDPClient extends UDPConnection {
     private target!: ConnectionTarget;
     private _ecdhe: ECDHE;
+    /**
+     * The key pairs offered to the server on the Register datagram, one for every supported curve. The one on the 
+     * curve chosen by the server becomes the {@link UDPClient.ecdhe|ecdhe} of the session.
+     */
+    private keyShares: ECDHE[];
     private _tcpClient: TCPClient;
     private _flowControl: FlowControl;
     private keystore: string;
+    private spool: MetricSpool;
+    /**
+     * The metric reports already stored on the spool, so that they are not stored again.
+     */
+    private spooled: WeakSet<NetTaskMetric>;
+    /**
+     * The metric reports replayed from the spool, not yet acknowledged by the server, along with their spool entries.
+     */
+    private replaying: Map<NetTaskMetric, SpoolEntry>;
+    private schemas?: SPACKPacked | { [key: string]: SPACKTask; };
+    private schemaVersion: number;
+    private runningTasks: Map<string, AbortController>;
     private sessionId?: Buffer;
     private challengeSalt?: Buffer;
     private wake: boolean;
+    private identity?: AgentIdentity;
+    private verifier?: ServerVerifier;
+    /**
+     * The number of replayed datagrams dropped.
+     */
+    private replays: number;
 
-    public constructor(keystore: string, tcpClient: TCPClient) {
+    /**
+     * @param identity The identity used to register with the server. Without one, the server identifies the agent 
+     * by it's address.
+     * @param verifier Verifies the identity of the server during registration. Without one, any server is trusted.
+     */
+    public constructor(keystore: string, tcpClient: TCPClient, spool: string, identity?: AgentIdentity, verifier?: ServerVerifier) {
         super();
 
+        this.identity = identity;
+        this.verifier = verifier;
         this._flowControl = new FlowControl();
         this.keystore = keystore;
+        this.spool = new MetricSpool(spool);
+        this.spooled = new WeakSet();
+        this.replaying = new Map();
         this._tcpClient = tcpClient;
+        this._tcpClient.useSessionCrypto(() => this.sessionId && { sessionId: this.sessionId, ecdhe: this._ecdhe });
+        this.schemaVersion = 0;
+        this.replays = 0;
+        this.runningTasks = new Map();
         // Connection keys present. Attempt to revive connection.
         if (fs.existsSync(keystore)) {
             this.logger.info("[AGENT] A keystore already exists. Attempting to load connection keys from keystore.");
@@ -65,7 +121,8 @@ class UDPClient extends UDPConnection {
 
             this.logger.log("UDP SERVER KEYSTORE:", ksPayload);
 
-            this._ecdhe = new ECDHE(ksPayload.secret, ksPayload.salt);
+            this._ecdhe = new ECDHE(ksPayload.secret, ksPayload.salt, ksPayload.aead ?? LEGACY_AEAD);
+            this.keyShares = [];
             this.sessionId = ksPayload.sessionId;
             this.challengeSalt = ksPayload.salt;
             this.wake = true;
@@ -74,13 +131,16 @@ class UDPClient extends UDPConnection {
             
             // process.exit(1);
         } else {
-            this._ecdhe = new ECDHE(ECDHE_ALGO);
+            this.keyShares = [];
+            this._ecdhe = this.generateKeyShares();
             this.wake = false;
         }
 
         subscribeShutdown(() => {
             this.logger.info("UDP Client shutting down.");
 
+            this.spoolUndelivered();
+
             if (this._ecdhe.initialized && this.sessionId && this.challengeSalt) {
                 this.saveConnection();
             }
@@ -93,6 +153,10 @@ class UDPClient extends UDPConnection {
     public get ecdhe(): ECDHE { return this._ecdhe; }
     public get flowControl(): FlowControl { return this._flowControl; }
 
+    /**
+     * Stores the keys of the current session on the keystore. The keystore is replaced atomically, so that it
+     * is never left holding only part of the keys.
+     */
     public saveConnection() {
         if (!this._ecdhe.initialized || !this.sessionId || !this.challengeSalt) return;
 
@@ -100,7 +164,8 @@ class UDPClient extends UDPConnection {
         const ksPayload = {
             sessionId: this.sessionId.toString("base64url"),
             secret: this._ecdhe.secret!.toString("base64url"),
-            salt: this.challengeSalt.toString("base64url")
+            salt: this.challengeSalt.toString("base64url"),
+            aead: this._ecdhe.aead
         };
 
         const ksBuf = Buffer.from(JSON.stringify(ksPayload).split("").toReversed().join(""));
@@ -109,10 +174,157 @@ class UDPClient extends UDPConnection {
             Buffer.from(Buffer.alloc(ksBuf.byteLength).fill(0x69))
         );
         
-        fs.writeFileSync(this.keystore, serKS, "binary");
+        const tmpKeystore = `${this.keystore}.tmp`;
+        fs.writeFileSync(tmpKeystore, serKS, "binary");
+        fs.renameSync(tmpKeystore, this.keystore);
         this.logger.success("Successfully stored connection keys.");
     }
     
+    /**
+     * Stores every metric report not yet acknowledged by the server on the spool, to be replayed on the next session.
+     * Reports split into fragments are stored whole, as long as any of their fragments is not acknowledged. Reports
+     * already stored, including the ones being replayed, are skipped.
+     */
+    public spoolUndelivered() {
+        // Replayed reports are still on the spool, and are replayed again on the next session.
+        this.replaying.clear();
+
+        const undelivered = new Set<NetTaskMetric>();
+        for (const dg of this._flowControl.getUnacknowledged()) {
+            const original = dg instanceof NetTaskFragment ? dg.getOriginal() : dg;
+            if (original instanceof NetTaskMetric && !this.spooled.has(original)) undelivered.add(original);
+        }
+        if (undelivered.size === 0) return;
+
+        undelivered.forEach(dg => this.spooled.add(dg));
+
+        this.logger.warn(`[AGENT] Storing ${undelivered.size} undelivered metric reports on the spool.`);
+        this.spool.push(...[...undelivered].map(dg => ({ 
+            taskId: dg.getTaskId(), 
+            timestamp: dg.getTimestamp(), 
+            metrics: dg.getMetrics() 
+        })));
+    }
+
+    /**
+     * Generates a new key pair on every supported curve, to be offered on the next Register datagram.
+     * 
+     * @returns The key pair on the preferred curve, standing for the ecdhe of the session until the server 
+     * chooses a curve.
+     */
+    private generateKeyShares(): ECDHE {
+        this.keyShares = SUPPORTED_CURVES.map(curve => new ECDHE(curve));
+        return this.keyShares[0];
+    }
+
+    /**
+     * Returns the key shares offered to the server, as sent on the Register datagram.
+     */
+    private getOfferedKeyShares() {
+        return this.keyShares.map(ecdhe => ({ curve: ecdhe.curve!, publicKey: ecdhe.publicKey }));
+    }
+
+    /**
+     * Creates the datagram starting the Registration Process, carrying the public keys, the supported AEADs
+     * and the identity of this agent.
+     */
+    private makeRegister(): NetTaskRegister {
+        return new NetTaskRegister(
+            this.sessionId!, 
+            this._flowControl.getLastSeq(), 
+            this._flowControl.getLastAck(), 
+            0, 
+            false, 
+            0, 
+            this.getOfferedKeyShares(),
+            SUPPORTED_AEADS,
+            this.identity?.name
+        );
+    }
+
+    /**
+     * Removes from the spool the replayed metric reports acknowledged by the server, that is, the ones with no
+     * datagram or fragment left unacknowledged.
+     */
+    private acknowledgeReplayed() {
+        if (this.replaying.size === 0) return;
+
+        const unacknowledged = new Set(this._flowControl.getUnacknowledged().map(
+            dg => dg instanceof NetTaskFragment ? dg.getOriginal() : dg
+        ));
+        for (const [dg, entry] of this.replaying) {
+            if (unacknowledged.has(dg)) continue;
+
+            this.replaying.delete(dg);
+            this.spool.remove(entry);
+        }
+    }
+
+    /**
+     * Sends every metric report stored on the spool to the server, in collection order. Reports are kept on the spool
+     * until acknowledged, while reports of tasks no longer assigned to this agent are discarded.
+     * 
+     * @param sessionId The identifier of the re-established session.
+     * @param schemas The task schemas pushed by the server.
+     */
+    private replaySpool(sessionId: Buffer, schemas: SPACKPacked | { [key: string]: SPACKTask; }) {
+        const replayed = new Set(this.replaying.values());
+        const entries = this.spool.peek().filter(entry => !replayed.has(entry));
+        if (entries.length === 0) return;
+
+        this.logger.info(`[AGENT] Replaying ${entries.length} undelivered metric reports.`);
+
+        for (const entry of entries) {
+            const task = <SPACKTask | undefined>schemas[<never>entry.taskId];
+            if (!task) {
+                this.logger.warn(`[AGENT] Discarding spooled metrics of unknown task '${entry.taskId}'.`);
+                this.spool.remove(entry);
+                continue;
+            }
+
+            const ntMetric = new NetTaskMetric(
+                sessionId,
+                this._flowControl.getLastSeq(),
+                this._flowControl.getLastAck(),
+                0,
+                false,
+                0,
+                entry.metrics,
+                entry.taskId,
+                task.getUnpacked(),
+                entry.timestamp
+            ).link(this._ecdhe);
+
+            this.spooled.add(ntMetric);
+            this.replaying.set(ntMetric, entry);
+            this.send(ntMetric);
+        }
+    }
+
+    /**
+     * Starts running a task periodically, until it is stopped with {@link stopTask}.
+     *
+     * @param taskConfigId The config identifier of the task.
+     * @param task The task schema pushed by the server.
+     * @param nt The NetTask datagram containing the session information.
+     */
+    private startTask(taskConfigId: string, task: SPACKTask, nt: NetTask) {
+        const controller = new AbortController();
+        this.runningTasks.set(taskConfigId, controller);
+
+        executeTask(taskConfigId, task, this, nt, this.schemas!, controller.signal);
+    }
+
+    /**
+     * Stops a running task. Does nothing if the task is not running.
+     *
+     * @param taskConfigId The config identifier of the task.
+     */
+    private stopTask(taskConfigId: string) {
+        this.runningTasks.get(taskConfigId)?.abort();
+        this.runningTasks.delete(taskConfigId);
+    }
+
     public onError(err: Error): void {
         this.logger.error("UDP Client got an error:", err);
     }
@@ -143,13 +355,21 @@ class UDPClient extends UDPConnection {
                             const envelope = ECDHE.deserializeEncryptedMessage(reader.read(pHeader.payloadSize));
                             payload = this._ecdhe.deenvelope(envelope);
                         } catch (e) {
+                            if (e instanceof ReplayError) {
+                                this.replays++;
+                                this.logger.pWarn(`[AGENT] Dropped ${e.reason} datagram replayed from ${
+                                    ConnectionTarget.toQualifiedName(rinfo)
+                                } (${this.replays} so far).`);
+                                continue;
+                            }
+
                             throw new Error(`[AGENT] Authentication error: Crypto error.`, { cause: e });
                         }
                     } else {
                         payload = reader.read(pHeader.payloadSize);
                     }
 
-                    const payloadReader = new BufferReader(payload);
+                    let payloadReader = new BufferReader(payload);
                     const nt = NetTask.deserializePrivateHeader(payloadReader, pHeader);
                     
                     this.logger.pLog(`---------- PACOTE RECEBIDO ----------`);
@@ -158,9 +378,12 @@ class UDPClient extends UDPConnection {
 
                     // this.logger.info("UDP Agent header:", nt);
                     try {
-                        //Fragmentando tenho de criar o pacote
-                        
                         this._flowControl.evaluateConnection(nt);
+                        this.acknowledgeReplayed();
+
+                        if (this._flowControl.hasPendingPackets()) {
+                            this.send();
+                        }
                     } catch (error) {
                         // if (error instanceof ConnectionRejected) {
                         //     this.logger.error("[AGENT] Connection rejected. Try again later.");
@@ -172,27 +395,46 @@ class UDPClient extends UDPConnection {
                         } else if (error instanceof OutOfOrderPackageError) {
                             this.logger.error("Out-of-order package:", error.message);
                             
-                            const retransmission = new NetTaskBodyless(
+                            const sack = new NetTaskSelectiveAck(
                                 pHeader.sessionId,
                                 this._flowControl.getLastSeq(),
-                                nt.getSequenceNumber(),
-                                this._flowControl.getLastAck() + 1,
+                                this._flowControl.getLastAck(),
+                                this._flowControl.getReceivedRanges()
                             );
-                            this.send(retransmission);
+                            this.send(sack);
                         } else {
                             this.logger.error("An unexpected error occurred:", error);
                             break;
                         }
                     }
 
+                    if (nt.isFragment()) {
+                        const body = this._flowControl.reassemble(nt, payloadReader.readRemaining());
+                        if (!body) {
+                            // Message still incomplete. Acknowledge the fragment and wait for the rest.
+                            const ack = new NetTaskBodyless(
+                                nt.getSessionId(),
+                                this._flowControl.getLastSeq(),
+                                this._flowControl.getLastAck(),
+                                0,
+                            );
+                            this.send(ack);
+                            continue;
+                        }
+
+                        payloadReader = new BufferReader(body);
+                    }
+
                     switch (nt.getType()) {
                         /**
                          * Third phase of the Registration Process, where the Agent, after receiving the Server Public Key,
-                         * the challenge and the salt, creates the ecdhe link between the Server Public Key and
-                         * the ecdhe link that links the Server to the Agent Public Key. Afterwards, the Agent verifies
-                         * the integrity of the challenge received, leading to the regeneration of his keys. Next,
+                         * the challenge, the salt and the chosen cipher suite, checks that the suite was one it offered and 
+                         * creates the ecdhe link between the Server Public Key and the ecdhe link that links the Server to 
+                         * the Agent Public Key on the chosen curve, bound to the negotiation. Afterwards, the Agent verifies
+                         * the integrity of the challenge received, leading to the regeneration of his keys. If the Agent
+                         * trusts specific servers, the signature of the Server is verified first. Next,
                          * he creates the Register Challenge 2 Datagram, in order to communicate to the server the 
-                         * confirmed challenge.
+                         * confirmed challenge, along with the proof of his credentials.
                          */
                         case NetTaskDatagramType.REGISTER_CHALLENGE: {
                             if (this._ecdhe.initialized) {
@@ -205,13 +447,61 @@ class UDPClient extends UDPConnection {
                             }
 
                             const registerDg = NetTaskRegisterChallenge.deserialize(payloadReader, nt);
-                            this._ecdhe.link(registerDg.publicKey, registerDg.salt);
+                            const suite = registerDg.suite;
+                            const ecdhe = this.keyShares.find(share => share.curve === suite.curve);
+                            if (!ecdhe || !isSupportedCipherSuite(suite)) {
+                                this.logger.pError(
+                                    `[AGENT] Server chose a cipher suite that was not offered: ${suite.curve} with ${suite.aead}.`
+                                );
+                                process.exit(1);
+                            }
+
+                            const negotiation = makeNegotiationTranscript(this.getOfferedKeyShares(), SUPPORTED_AEADS, suite);
+                            if (this.verifier) {
+                                try {
+                                    this.verifier.verify(
+                                        ecdhe.publicKey, 
+                                        registerDg.publicKey, 
+                                        registerDg.salt, 
+                                        negotiation,
+                                        registerDg.signature, 
+                                        registerDg.certificate
+                                    );
+                                } catch (e) {
+                                    this.logger.pError("[AGENT] Server authentication failed:", (<Error>e).message);
+                                    process.exit(1);
+                                }
+                            }
+
+                            this._ecdhe = ecdhe;
+                            this._ecdhe.link(registerDg.publicKey, registerDg.salt, { aead: suite.aead, context: negotiation });
+
+                            // The negotiation is mixed into the shared secret. If it was tampered with, the challenge
+                            // can not be decrypted.
+                            let confirm;
+                            try {
+                                confirm = this._ecdhe.verifyChallenge(ECDHE.deserializeChallenge(registerDg.challenge));
+                            } catch (e) {
+                                this.logger.pError(
+                                    "[AGENT] Handshake failed: the register challenge could not be verified."
+                                    + " The cipher suite negotiation might have been tampered with.", 
+                                    (<Error>e).message
+                                );
+                                process.exit(1);
+                            }
 
-                            const confirm = this._ecdhe.verifyChallenge(ECDHE.deserializeChallenge(registerDg.challenge));
                             this._ecdhe.regenerateKeys(confirm.control);
+                            this.logger.info(`[AGENT] Negotiated cipher suite: ${suite.curve} with ${suite.aead}.`);
 
                             this.challengeSalt = confirm.control;
 
+                            const proof = this.identity 
+                                ? proveEnrollment(
+                                    this.identity.credential, 
+                                    makeEnrollmentTranscript(this._ecdhe.publicKey, registerDg.publicKey, registerDg.salt)
+                                ) 
+                                : Buffer.alloc(0);
+
                             const register2Dg = new NetTaskRegisterChallenge2(
                                 nt.getSessionId(),
                                 this._flowControl.getLastSeq(),
@@ -219,7 +509,8 @@ class UDPClient extends UDPConnection {
                                 0,
                                 false,
                                 0,
-                                ECDHE.serializeChallenge(confirm.challenge)
+                                ECDHE.serializeChallenge(confirm.challenge),
+                                proof
                             ).link(this._ecdhe);
 
                             this.logger.info("[AGENT] Third authentication phase:", register2Dg);
@@ -236,20 +527,11 @@ class UDPClient extends UDPConnection {
 
                                 if (fs.existsSync(this.keystore)) fs.rmSync(this.keystore);
                                 
-                                this._ecdhe = new ECDHE(ECDHE_ALGO);
+                                this._ecdhe = this.generateKeyShares();
                                 this.sessionId = this._ecdhe.generateSessionId();
                                 this.challengeSalt = undefined;
 
-                                // const registerDg = new NetTaskRegister(this.sessionId, 0, 0, false, this.ecdhe.publicKey);
-                                const registerDg = new NetTaskRegister(
-                                    this.sessionId, 
-                                    this._flowControl.getLastSeq(), 
-                                    this._flowControl.getLastAck(), 
-                                    0, 
-                                    false, 
-                                    0, 
-                                    this._ecdhe.publicKey
-                                );
+                                const registerDg = this.makeRegister();
                                 this.send(registerDg);
                             } else {
                                 this.logger.error(`[AGENT] Connection rejected with reason: ${
@@ -263,6 +545,8 @@ class UDPClient extends UDPConnection {
                         case NetTaskDatagramType.PUSH_SCHEMAS: {
                             const ntSchemas = NetTaskPushSchemas.deserialize(payloadReader, this._ecdhe, nt);
                             const schemas = ntSchemas.getSchemas();
+                            this.schemas = schemas;
+                            this.schemaVersion = 0;
                             this.logger.pInfo(`Connection established with the server.`);
 
                             const ack = new NetTaskBodyless(
@@ -276,8 +560,15 @@ class UDPClient extends UDPConnection {
                             // this.logger.log("SCHEMAS:", schemas);
                             ntSchemas.link(this._ecdhe).serialize();
 
+                            this.replaySpool(nt.getSessionId(), schemas);
+
+                            // Schemas are pushed again when a connection is revived. Restart every task from scratch.
+                            for (const taskConfigId of this.runningTasks.keys()) {
+                                this.stopTask(taskConfigId);
+                            }
+
                             for (const [taskConfigId, task] of Object.entries(ntSchemas.getSchemas())) {
-                                executeTask(taskConfigId, task, this, nt, schemas);
+                                this.startTask(taskConfigId, task, nt);
                             }
 
                             // const metric = new NetTaskMetric(
@@ -325,11 +616,113 @@ class UDPClient extends UDPConnection {
                             }
                             break;
                         }
+                        case NetTaskDatagramType.SELECTIVE_ACK: {
+                            const sackDg = NetTaskSelectiveAck.deserialize(payloadReader, nt);
+                            this._flowControl.acknowledgeRanges(sackDg.getRanges());
+
+                            const missing = this._flowControl.packetsMissing(nt.getAcknowledgementNumber(), sackDg.getRanges());
+                            this.logger.warn("Pedido de retransmissão dos pacotes com seq:", missing.join(", "));
+                            for (const dg of this._flowControl.getDgFromRecoveryList(missing)) {
+                                this.send(dg);
+                            }
+                            break;
+                        }
+                        case NetTaskDatagramType.UPDATE_SCHEMAS: {
+                            const updateDg = NetTaskUpdateSchemas.deserialize(payloadReader, this._ecdhe, nt);
+                            const version = updateDg.getSchemaVersion();
+
+                            if (version > this.schemaVersion) {
+                                // The deserialized collection is extended with the tasks left untouched, 
+                                // so that it keeps being recognized as a collection of unpacked tasks.
+                                const schemas = <{ [key: string]: SPACKTask; }>updateDg.getSchemas();
+                                const updated = Object.entries(schemas);
+                                for (const [taskConfigId, task] of Object.entries(this.schemas ?? {})) {
+                                    if (!(taskConfigId in schemas) && !updateDg.getRemoved().includes(taskConfigId)) {
+                                        schemas[taskConfigId] = task;
+                                    }
+                                }
+                                this.schemas = schemas;
+
+                                for (const taskConfigId of updateDg.getRemoved()) {
+                                    this.logger.pInfo(`[AGENT] Task '${taskConfigId}' was removed by the server.`);
+                                    this.stopTask(taskConfigId);
+                                }
+
+                                for (const [taskConfigId, task] of updated) {
+                                    this.logger.pInfo(`[AGENT] Task '${taskConfigId}' was ${
+                                        this.runningTasks.has(taskConfigId) ? "modified" : "added"
+                                    } by the server.`);
+                                    this.stopTask(taskConfigId);
+                                    this.startTask(taskConfigId, task, nt);
+                                }
+
+                                this.schemaVersion = version;
+                            } else {
+                                this.logger.warn(`[AGENT] Ignoring outdated schema update (version ${version}, running ${this.schemaVersion}).`);
+                            }
+
+                            const ackDg = new NetTaskSchemasAck(
+                                nt.getSessionId(),
+                                this._flowControl.getLastSeq(),
+                                this._flowControl.getLastAck(),
+                                this.schemaVersion
+                            ).link(this._ecdhe);
+                            this.send(ackDg);
+                            break;
+                        }
+                        /**
+                         * The Server rotated the keys of the session. The Agent derives the same keys from the received
+                         * salt, stores them on the keystore and confirms the rotation with a datagram encrypted with 
+                         * the new keys. Datagrams the Server sent before the rotation are still accepted for a while.
+                         */
+                        case NetTaskDatagramType.REKEY: {
+                            const rekeyDg = NetTaskRekey.deserialize(payloadReader, this._ecdhe, nt);
+                            
+                            this._ecdhe.rotateKeys(rekeyDg.getSalt());
+                            this.challengeSalt = rekeyDg.getSalt();
+                            this.saveConnection();
+                            this.logger.info("[AGENT] Session keys rotated.");
+
+                            const rekeyAckDg = new NetTaskRekeyAck(
+                                nt.getSessionId(),
+                                this._flowControl.getLastSeq(),
+                                this._flowControl.getLastAck(),
+                                rekeyDg.getSalt()
+                            ).link(this._ecdhe);
+                            this.send(rekeyAckDg);
+                            break;
+                        }
+                        case NetTaskDatagramType.REQUEST_METRICS: {
+                            const requestDg = NetTaskRequestMetrics.deserialize(payloadReader, this._ecdhe, nt);
+                            const taskConfigId = requestDg.getTaskId();
+                            const task = this.schemas ? <SPACKTask | undefined>this.schemas[<never>taskConfigId] : undefined;
+                            this.logger.info(`[AGENT] Server requested metrics for task '${taskConfigId}'.`);
+
+                            const responseDg = new NetTaskResponseTask(
+                                nt.getSessionId(),
+                                this._flowControl.getLastSeq(),
+                                this._flowControl.getLastAck(),
+                                requestDg.getRequestId(),
+                                task ? NetTaskRequestStatus.ACCEPTED : NetTaskRequestStatus.UNKNOWN_TASK
+                            ).link(this._ecdhe);
+                            this.send(responseDg);
+
+                            if (!task) {
+                                this.logger.warn(`[AGENT] Rejected metrics request for unknown task '${taskConfigId}'.`);
+                                break;
+                            }
+
+                            executeTaskOnce(taskConfigId, task, this, nt, this.schemas!, requestDg.getRequestId());
+                            break;
+                        }
                         case NetTaskDatagramType.WAKE: {
                             this.logger.info("[AGENT] Got Wake packet from server.");
                             try {
                                 // Ignore, because no real payload is sent, just a sanity test.
                                 const wakeDg = NetTaskWake.deserialize(payloadReader, this._ecdhe!, nt);
+                                // The reset drops the datagrams in flight, so the metric reports among them are
+                                // kept to be replayed once the schemas are pushed.
+                                this.spoolUndelivered();
                                 this._flowControl.reset(wakeDg.getSequenceNumber());
                                 // this.flowControl.setLastSeq(wakeDg.getSequenceNumber());
                                 this.logger.info("[AGENT] Sequence number reset.");
@@ -381,20 +774,11 @@ class UDPClient extends UDPConnection {
 
                                 fs.rmSync(this.keystore);
                                 
-                                this._ecdhe = new ECDHE(ECDHE_ALGO);
+                                this._ecdhe = this.generateKeyShares();
                                 this.sessionId = this._ecdhe.generateSessionId();
                                 this.challengeSalt = undefined;
 
-                                // const registerDg = new NetTaskRegister(this.sessionId, 0, 0, false, this.ecdhe.publicKey);
-                                const registerDg = new NetTaskRegister(
-                                    this.sessionId, 
-                                    this._flowControl.getLastSeq(), 
-                                    this._flowControl.getLastAck(), 
-                                    0, 
-                                    false, 
-                                    0, 
-                                    this._ecdhe.publicKey
-                                );
+                                const registerDg = this.makeRegister();
                                 this.send(registerDg);
                             }
 
@@ -409,19 +793,11 @@ class UDPClient extends UDPConnection {
 
                                 fs.rmSync(this.keystore);
                                 
-                                this._ecdhe = new ECDHE(ECDHE_ALGO);
+                                this._ecdhe = this.generateKeyShares();
                                 this.sessionId = this._ecdhe.generateSessionId();
                                 this.challengeSalt = undefined;
 
-                                const registerDg = new NetTaskRegister(
-                                    this.sessionId, 
-                                    this._flowControl.getLastSeq(), 
-                                    this._flowControl.getLastAck(), 
-                                    0, 
-                                    false, 
-                                    0, 
-                                    this._ecdhe.publicKey
-                                );
+                                const registerDg = this.makeRegister();
                                 this.send(registerDg);
                             } catch(e) {
                                 this.logger.error("[AGENT] Invalid reset packet:", e);
@@ -454,34 +830,34 @@ class UDPClient extends UDPConnection {
         try{
             const dgToSend = this._flowControl.controlledSend(dg);
             
-            if(dgToSend.getSequenceNumber() === this._flowControl.getLastSeq()){
-                this._flowControl.readyToSend(dgToSend);
-            } else {
-                dgToSend.setNack(0);
-            }
-
             this.logger.pLog(`---------- PACOTE ENVIADO ----------`);
             this.logger.pLog(dgToSend.toString());
             this.logger.pLog(`-------------------------------------`); 
             
-            if(dgToSend.getType() === NetTaskDatagramType.BODYLESS || dgToSend.getType() === NetTaskDatagramType.WAKE || dgToSend.getType() === NetTaskDatagramType.SEND_METRICS){
-                //@ts-expect-error STFU Typescript.
-                this.socket.send(dgToSend.serialize(), this.target.port, this.target.address);
-                return;
-            }
-            
-            //@ts-expect-error STFU Typescript.
             this.socket.send(dgToSend.serialize(), this.target.port, this.target.address);
-            
-            this._flowControl.startTimer(dgToSend, (seq) => {
-                this.handleTimeout(seq);
-            }); 
+
+            if(
+                dgToSend.getType() !== NetTaskDatagramType.BODYLESS 
+                && dgToSend.getType() !== NetTaskDatagramType.WAKE 
+                && dgToSend.getType() !== NetTaskDatagramType.SELECTIVE_ACK
+            ){
+                this._flowControl.startTimer(dgToSend, (seq) => {
+                    this.handleTimeout(seq);
+                }); 
+            }
+
+            // Keep draining the queue until it is empty or the window is full.
+            if (this._flowControl.hasPendingPackets()) {
+                this.send();
+            }
         } catch (error) {
             if (error instanceof ReachedMaxWindowError) {
-                this.logger.warn(`Reached maximum window limit. Halting queue.`);
+                // The datagram stays queued, and is sent once the server acknowledges the ones in flight.
+                this.logger.warn(`Reached maximum window limit. Datagram queued.`);
                 return;
             } else if (error instanceof MaxRetransmissionsReachedError) {
                 this.logger.warn("Agent is not responding to meeee...");
+                this.spoolUndelivered();
                 this.socket.close();
                 process.emit("SIGINT");
                 return;
@@ -521,16 +897,7 @@ class UDPClient extends UDPConnection {
             /**
              * First phase of the Registration Process, where an Agent sends the Server his public key.
              */
-            // const registerDg = new NetTaskRegister(this.sessionId, 0, 0, false, this.ecdhe.publicKey);
-            const registerDg = new NetTaskRegister(
-                this.sessionId, 
-                this._flowControl.getLastSeq(), 
-                this._flowControl.getLastAck(), 
-                0, 
-                false, 
-                0, 
-                this._ecdhe.publicKey
-            );
+            const registerDg = this.makeRegister();
             this.logger.log("[AGENT] First phase auth:", registerDg);
             this.send(registerDg);
         }
@@ -557,4 +924,8 @@ class UDPClient extends UDPConnection {
     }
 }
 
-export { UDPClient };
\ No newline at end of file
+export { 
+    type AgentIdentity,
+
+    UDPClient 
+};
\ No newline at end of file
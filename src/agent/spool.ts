@@ -0,0 +1,136 @@
+/**
+ * @module Spool
+ * On-disk buffer for metrics the agent was unable to deliver to the server. Metrics are kept in collection order,
+ * and replayed once a session with the server is re-established.
+ *
+ * @copyright Copyright (c) 2024 DarkenLM https://github.com/DarkenLM
+ */
+
+import fs from "fs";
+import { SPACKTaskMetric } from "$common/datagram/spack.js";
+import { DefaultLogger, getOrCreateGlobalLogger } from "$common/util/logger.js";
+
+//#region ============== Constants ==============
+const DEFAULT_MAX_ENTRIES = 1024;
+//#endregion ============== Constants ==============
+
+//#region ============== Types ==============
+/**
+ * A metric report waiting to be delivered to the server.
+ */
+interface SpoolEntry {
+    /**
+     * The config identifier of the task that collected the metrics.
+     */
+    taskId: string,
+    /**
+     * The time, in milliseconds since the epoch, at which the metrics were collected.
+     */
+    timestamp: number,
+    metrics: SPACKTaskMetric
+}
+//#endregion ============== Types ==============
+
+/**
+ * A bounded queue of undelivered metric reports, persisted to disk as one JSON entry per line.
+ * When the spool is full, the oldest entries are discarded to make room for new ones. Entries are only removed once
+ * delivered, so that a crash while they are being replayed does not lose them.
+ *
+ * @example
+ * const spool = new MetricSpool(path.join(cwd, "metrics.spool"));
+ * spool.push({ taskId, timestamp, metrics });
+ * for (const entry of spool.peek()) { ...; spool.remove(entry); }
+ */
+class MetricSpool {
+    private path: string;
+    private maxEntries: number;
+    private entries: SpoolEntry[];
+    private logger: DefaultLogger;
+
+    /**
+     * Creates an instance of MetricSpool, loading any entries left on disk by a previous execution.
+     * @param path The path of the spool file.
+     * @param maxEntries The maximum number of entries kept on the spool.
+     */
+    public constructor(path: string, maxEntries: number = DEFAULT_MAX_ENTRIES) {
+        this.path = path;
+        this.maxEntries = maxEntries;
+        this.entries = [];
+        this.logger = getOrCreateGlobalLogger();
+
+        if (fs.existsSync(path)) {
+            for (const line of fs.readFileSync(path, "utf8").split("\n")) {
+                if (line.trim() === "") continue;
+
+                try {
+                    this.entries.push(JSON.parse(line));
+                } catch (e) {
+                    this.logger.warn(`[SPOOL] Ignoring malformed spool entry:`, e);
+                }
+            }
+
+            this.entries = this.entries.slice(-maxEntries);
+            this.logger.info(`[SPOOL] Loaded ${this.entries.length} undelivered metric reports from disk.`);
+        }
+    }
+
+    public get size() { return this.entries.length; }
+
+    /**
+     * Appends metric reports to the end of the spool, and persists the spool to disk.
+     * @param entries The metric reports to store, in collection order.
+     */
+    public push(...entries: SpoolEntry[]) {
+        if (entries.length === 0) return;
+
+        this.entries.push(...entries);
+        if (this.entries.length > this.maxEntries) {
+            const dropped = this.entries.length - this.maxEntries;
+            this.entries = this.entries.slice(dropped);
+            this.logger.warn(`[SPOOL] Spool is full. Discarded the ${dropped} oldest metric reports.`);
+        }
+
+        this.save();
+    }
+
+    /**
+     * Returns every metric report on the spool, in collection order, without removing them.
+     */
+    public peek(): SpoolEntry[] {
+        return [...this.entries];
+    }
+
+    /**
+     * Removes a metric report from the spool, once it was delivered, and persists the spool to disk.
+     * Does nothing if the report is no longer on the spool.
+     * @param entry The metric report, as returned by {@link peek}.
+     */
+    public remove(entry: SpoolEntry) {
+        const index = this.entries.indexOf(entry);
+        if (index === -1) return;
+
+        this.entries.splice(index, 1);
+        this.save();
+    }
+
+    /**
+     * Writes the spool to disk. The file is first written to a temporary path and then renamed,
+     * so that a crash never leaves a partially written spool behind.
+     */
+    private save() {
+        if (this.entries.length === 0) {
+            if (fs.existsSync(this.path)) fs.rmSync(this.path);
+            return;
+        }
+
+        const tmpPath = `${this.path}.tmp`;
+        fs.writeFileSync(tmpPath, this.entries.map(entry => JSON.stringify(entry)).join("\n") + "\n", "utf8");
+        fs.renameSync(tmpPath, this.path);
+    }
+}
+
+export {
+    type SpoolEntry,
+
+    MetricSpool
+};
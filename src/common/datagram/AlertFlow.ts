@@ -4,18 +4,98 @@
  * Common definition of the AlertFlow Protocol. Used in both the AGENT and SERVER solutions for the communication
  * of alert occasions. 
  * 
+ * Only the signature, version and session id of an AlertFlow Datagram are sent in plaintext. The alert itself is 
+ * enveloped with the keys of the NetTask session identified by the session id, so that it can neither be read nor 
+ * forged by anyone but the agent of that session.
+ * 
+ * Every alert carries an id, unique per agent. The Server acknowledges an alert, with an {@link AlertFlowAck}, once it
+ * is stored, and the Agent sends it again until it is acknowledged. Alerts received again are recognized by their id.
+ * 
+ * Every alert has a severity, given by the highest threshold crossed, and a state. An alert is sent firing when a metric
+ * crosses a threshold, and again whenever it's severity changes. Once the metric returns below every threshold, the 
+ * alert is sent resolved, with the severity it last fired with.
+ * 
  * @copyright Copyright (c) 2024 DarkenLM https://github.com/DarkenLM
  */
 
+import crypto from "crypto";
 import { BufferReader, BufferWriter } from "$common/util/buffer.js";
+import { ECDHE } from "$common/protocol/ecdhe.js";
+import { ReplayError } from "$common/protocol/replay.js";
 import { dropEmpty } from "$common/util/object.js";
 import { deserializeTaskMetric, serializedTaskMetric, SPACKTaskMetric } from "./spack.js";
 
 //#region ============== Constants ==============
-const ALERT_FLOW_VERSION = 1;
+const ALERT_FLOW_VERSION = 5;
 const ALERT_FLOW_SIGNATURE = Buffer.from("ATFW", "utf8");
+const ALERT_FLOW_ACK_SIGNATURE = Buffer.from("ATFA", "utf8");
+
+enum AlertSeverity {
+    WARNING,
+    CRITICAL
+};
+
+enum AlertState {
+    /**
+     * The metric crossed a threshold, or the severity of an alert already firing changed.
+     */
+    FIRING,
+    /**
+     * The metric returned below every threshold.
+     */
+    RESOLVED
+};
 //#endregion ============== Constants ==============
 
+//#region ============== Types ==============
+/**
+ * The plaintext header of an AlertFlow Datagram, identifying the session whose keys envelope the alert.
+ */
+interface AlertFlowHeader {
+    version: number,
+    sessionId: Buffer
+}
+//#endregion ============== Types ==============
+
+/**
+ * Serializes a datagram, enveloping it's payload with the keys of the session.
+ */
+function serializeEnveloped(signature: Buffer, sessionId: Buffer, ecdhe: ECDHE, payload: Buffer, tag: string): Buffer {
+    let envelope: Buffer;
+    try {
+        envelope = ECDHE.serializeEncryptedMessage(ecdhe.envelope(payload));
+    } catch (e) {
+        throw new Error(`[${tag}] Serialization Error: Crypto error:`, { cause: e });
+    }
+
+    const writer = new BufferWriter();
+    writer.write(signature);
+    writer.writeUInt32(ALERT_FLOW_VERSION);
+    writer.writeUInt32(sessionId.byteLength);
+    writer.write(sessionId);
+    writer.writeUInt32(envelope.byteLength);
+    writer.write(envelope);
+
+    return writer.finish();
+}
+
+/**
+ * Reads the envelope of a datagram and opens it with the keys of the session. The envelope is consumed from 
+ * the reader even if it can not be opened.
+ * @throws {ReplayError} If the datagram was replayed.
+ */
+function deserializeEnveloped(reader: BufferReader, ecdhe: ECDHE, tag: string): BufferReader {
+    const envelopeLen = reader.readUInt32();
+    const envelope = reader.read(envelopeLen);
+
+    try {
+        return new BufferReader(ecdhe.deenvelope(envelope));
+    } catch (e) {
+        if (e instanceof ReplayError) throw e;
+        throw new Error(`[${tag}] Deserialization Error: Crypto error:`, { cause: e });
+    }
+}
+
 /**
  * This class represents a message datagram used between the Agent and Server solutions
  * to alert critical changes in the state of network devices.
@@ -26,24 +106,80 @@ class AlertFlow {
     private taskId: string;
     private task: object;
     private spack!: SPACKTaskMetric;
+    private timestamp: number;
+    private clockOffset: number;
+    private alertId: string;
+    private severity: AlertSeverity;
+    private state: AlertState;
+    private ecdhe?: ECDHE;
 
+    /**
+     * @param alertId The id of the alert, unique per agent. A new one is generated if ommited.
+     */
     public constructor(
         sessionId: Buffer,
         taskId: string,
         task: object,
-        spack: SPACKTaskMetric
+        spack: SPACKTaskMetric,
+        severity: AlertSeverity = AlertSeverity.CRITICAL,
+        state: AlertState = AlertState.FIRING,
+        timestamp: number = Date.now(),
+        clockOffset: number = 0,
+        alertId: string = crypto.randomUUID()
     ) {
         this.version = ALERT_FLOW_VERSION;
         this.sessionId = sessionId;
         this.taskId = taskId;
         this.spack = dropEmpty(Object.fromEntries(Object.entries(spack)));
         this.task = task;
+        this.timestamp = timestamp;
+        this.clockOffset = clockOffset;
+        this.alertId = alertId;
+        this.severity = severity;
+        this.state = state;
     }
 
     public getVersion(): number { return this.version; }
     public getSessionId(): Buffer { return this.sessionId; }
+    /**
+     * Returns the id of the alert, which is kept when the alert is sent again.
+     */
+    public getAlertId(): string { return this.alertId; }
     public getTaskId(): string { return this.taskId; }
+    public getSeverity(): AlertSeverity { return this.severity; }
+    public getState(): AlertState { return this.state; }
     public getMetrics(): SPACKTaskMetric { return this.spack; }
+    /**
+     * Returns the time, in milliseconds since the epoch, at which the alert was raised, as measured by the 
+     * clock of the agent.
+     */
+    public getTimestamp(): number { return this.timestamp; }
+    /**
+     * Returns the difference, in milliseconds, between the clock of the receiver and the clock of the agent, 
+     * estimated from the time the alert was sent. Includes the transmission delay.
+     */
+    public getClockOffset(): number { return this.clockOffset; }
+    /**
+     * Returns the time at which the alert was raised, corrected to the clock of the receiver.
+     */
+    public getCollectionDate(): Date { return new Date(this.timestamp + this.clockOffset); }
+
+    /**
+     * Changes the session the alert is sent under. Used to send, under a new session, alerts raised on a session
+     * that was since replaced.
+     */
+    public setSessionId(sessionId: Buffer): this {
+        this.sessionId = sessionId;
+        return this;
+    }
+
+    /**
+     * Links this datagram to the keys of the session, used to envelope the alert. Required before serialization.
+     */
+    public link(ecdhe: ECDHE): this {
+        this.ecdhe = ecdhe;
+        return this;
+    }
 
     // public toString(): string {
     //     return  "--< ALERT FLOW >--\n" +
@@ -65,12 +201,12 @@ class AlertFlow {
     }
 
     /**
-     * Second phase of the deserialization, returning an AlertFlow Datagram from a given message buffer.
+     * Second phase of the deserialization, returning the plaintext header of an AlertFlow Datagram, used to find
+     * the keys of the session the alert was enveloped with.
      * @param reader BufferReader instanciated with a message buffer received from the server.
-     * @returns An AlertFlow instance representing the deserialized message.
+     * @returns The header of the datagram.
      */
-    public static deserialize(reader: BufferReader, configTasks: object): AlertFlow {
-        // const logger = getOrCreateGlobalLogger();
+    public static deserializeHeader(reader: BufferReader): AlertFlowHeader {
         const version = reader.readUInt32();
         if (version != ALERT_FLOW_VERSION) {
             throw new Error(`ALERTFLOW Datagram Invalid Version. Excepted: ${ALERT_FLOW_VERSION}. Received: ${version}.`);
@@ -79,20 +215,61 @@ class AlertFlow {
         const sessionIdLen = reader.readUInt32();
         const sessionId = reader.read(sessionIdLen);
 
-        const metric = { taskId: "", metrics: <SPACKTaskMetric>{} };
+        return { version, sessionId };
+    }
+
+    /**
+     * Third and last phase of the deserialization, returning an AlertFlow Datagram from a given message buffer.
+     * The envelope is consumed from the reader even if it can not be opened, so that the next datagram can be read.
+     * @param reader BufferReader instanciated with a message buffer received from the server.
+     * @param header The header of the datagram, read with {@link deserializeHeader}.
+     * @param ecdhe The keys of the session identified by the header.
+     * @returns An AlertFlow instance representing the deserialized message.
+     * @throws {Error} If the alert was not enveloped with the keys of the session.
+     * @throws {ReplayError} If the datagram was replayed.
+     */
+    public static deserialize(reader: BufferReader, header: AlertFlowHeader, ecdhe: ECDHE, configTasks: object): AlertFlow {
+        // const logger = getOrCreateGlobalLogger();
+        const payloadReader = deserializeEnveloped(reader, ecdhe, "AF");
+        const sessionId = header.sessionId;
+
+        const metric = { 
+            alertId: "", 
+            severity: AlertSeverity.CRITICAL, 
+            state: AlertState.FIRING, 
+            taskId: "", 
+            metrics: <SPACKTaskMetric>{}, 
+            timestamp: 0, 
+            clockOffset: 0 
+        };
         try {
-            const taskIdLen = reader.readUInt32();
-            metric.taskId = reader.read(taskIdLen).toString("utf8");
+            const alertIdLen = payloadReader.readUInt32();
+            metric.alertId = payloadReader.read(alertIdLen).toString("utf8");
+
+            metric.severity = payloadReader.readUInt8();
+            if (!(metric.severity in AlertSeverity)) throw new Error(`Unknown severity: ${metric.severity}.`);
+
+            metric.state = payloadReader.readUInt8();
+            if (!(metric.state in AlertState)) throw new Error(`Unknown state: ${metric.state}.`);
 
-            const spackLen = reader.readUInt32();
-            const rawSpack = reader.read(spackLen);
+            const taskIdLen = payloadReader.readUInt32();
+            metric.taskId = payloadReader.read(taskIdLen).toString("utf8");
 
-            metric.metrics = deserializeTaskMetric(
+            const sentAt = Number(payloadReader.read(8).readBigUInt64BE());
+
+            const spackLen = payloadReader.readUInt32();
+            const rawSpack = payloadReader.read(spackLen);
+
+            const { timestamp, clock_offset, ...metrics } = deserializeTaskMetric(
                 rawSpack, 
                 // In order to not import stuff from server into common, we do this hack to simply accept whatever.
                 // It's the responsability of the user to guarantee this doesn't explode on their hands.
-                <never>(<Record<string, unknown>>configTasks)[<keyof typeof configTasks>metric.taskId]
+                <never>(<Record<string, unknown>>configTasks)[<keyof typeof configTasks>metric.taskId],
+                sentAt
             );
+            metric.metrics = metrics;
+            metric.timestamp = timestamp;
+            metric.clockOffset = clock_offset;
         } catch (e) {
             throw new Error(`[NT_Metric] Malformed NetTaskMetric packet: Malformed schema payload.`, { cause: e });
         }
@@ -101,7 +278,12 @@ class AlertFlow {
             sessionId,
             metric.taskId,
             <never>(<Record<string, unknown>>configTasks)[<keyof typeof configTasks>metric.taskId],
-            metric.metrics
+            metric.metrics,
+            metric.severity,
+            metric.state,
+            metric.timestamp,
+            metric.clockOffset,
+            metric.alertId
         );
     }
 
@@ -109,26 +291,114 @@ class AlertFlow {
      * Serializes an {@link AlertFlow} object into network-transmittable buffers.
      */
     public serialize(): Buffer {
-        const pack = serializedTaskMetric(this.spack, <never>this.task);
+        if (!this.ecdhe) {
+            throw new Error(`[AF] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const pack = serializedTaskMetric({ ...this.spack, timestamp: this.timestamp }, <never>this.task);
         
         const taskLen = Buffer.alloc(4);
         taskLen.writeUInt32BE(this.taskId.length);
 
+        // Send time, stamped on every transmission, so that the receiver is able to correct the clock offset of the agent.
+        const sentAtBuf = Buffer.alloc(8);
+        sentAtBuf.writeBigUInt64BE(BigInt(Date.now()));
+
         const packLen = Buffer.alloc(4);
         packLen.writeUInt32BE(pack.byteLength);
-        const payload = Buffer.concat([taskLen, Buffer.from(this.taskId, "utf8"), packLen, pack]);
 
+        const alertId = Buffer.from(this.alertId, "utf8");
+        const alertIdLen = Buffer.alloc(4);
+        alertIdLen.writeUInt32BE(alertId.byteLength);
+
+        const payload = Buffer.concat([
+            alertIdLen, alertId, Buffer.from([this.severity, this.state]), taskLen, Buffer.from(this.taskId, "utf8"), sentAtBuf, packLen, pack
+        ]);
+
+        return serializeEnveloped(ALERT_FLOW_SIGNATURE, this.sessionId, this.ecdhe, payload, "AF");
+    }
+}
+
+/**
+ * This class represents the acknowledgement, sent by the Server, of an alert it stored. The acknowledgement is
+ * enveloped with the keys of the session, so that alerts can not be acknowledged by anyone but the Server.
+ */
+class AlertFlowAck {
+    private version: number;
+    private sessionId: Buffer;
+    private alertId: string;
+    private ecdhe?: ECDHE;
+
+    public constructor(sessionId: Buffer, alertId: string) {
+        this.version = ALERT_FLOW_VERSION;
+        this.sessionId = sessionId;
+        this.alertId = alertId;
+    }
+
+    public getVersion(): number { return this.version; }
+    public getSessionId(): Buffer { return this.sessionId; }
+    public getAlertId(): string { return this.alertId; }
+
+    /**
+     * Links this datagram to the keys of the session, used to envelope the acknowledgement. Required before serialization.
+     */
+    public link(ecdhe: ECDHE): this {
+        this.ecdhe = ecdhe;
+        return this;
+    }
+
+    /**
+     * First phase of the deserialization, used to verify the signature of an AlertFlow Acknowledgement Datagram. 
+     * Should always be used before {@link AlertFlow.deserializeHeader}, which reads the header shared by both
+     * datagrams, and {@link deserialize}.
+     * @param reader BufferReader instanciated with a message buffer received from the server.
+     * @returns A boolean representing whether or not the signature is valid.
+     */
+    public static verifySignature(reader: BufferReader): boolean {
+        const sig = reader.read(4);
+
+        return ALERT_FLOW_ACK_SIGNATURE.equals(sig);
+    }
+
+    /**
+     * Last phase of the deserialization, returning an AlertFlow Acknowledgement Datagram from a given message buffer.
+     * @param reader BufferReader instanciated with a message buffer received from the server.
+     * @param header The header of the datagram, read with {@link AlertFlow.deserializeHeader}.
+     * @param ecdhe The keys of the session identified by the header.
+     * @throws {Error} If the acknowledgement was not enveloped with the keys of the session.
+     * @throws {ReplayError} If the datagram was replayed.
+     */
+    public static deserialize(reader: BufferReader, header: AlertFlowHeader, ecdhe: ECDHE): AlertFlowAck {
+        const payloadReader = deserializeEnveloped(reader, ecdhe, "AF_Ack");
+
+        const alertIdLen = payloadReader.readUInt32();
+        const alertId = payloadReader.read(alertIdLen).toString("utf8");
+
+        return new AlertFlowAck(header.sessionId, alertId);
+    }
+
+    /**
+     * Serializes an {@link AlertFlowAck} object into network-transmittable buffers.
+     */
+    public serialize(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[AF_Ack] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const alertId = Buffer.from(this.alertId, "utf8");
         const writer = new BufferWriter();
-        writer.write(ALERT_FLOW_SIGNATURE);
-        writer.writeUInt32(this.version);
-        writer.writeUInt32(this.sessionId.byteLength);
-        writer.write(this.sessionId);
-        writer.write(payload);
+        writer.writeUInt32(alertId.byteLength);
+        writer.write(alertId);
 
-        return writer.finish();
+        return serializeEnveloped(ALERT_FLOW_ACK_SIGNATURE, this.sessionId, this.ecdhe, writer.finish(), "AF_Ack");
     }
 }
 
 export {
-    AlertFlow
+    type AlertFlowHeader,
+
+    AlertSeverity,
+    AlertState,
+    AlertFlow,
+    AlertFlowAck
 };
\ No newline at end of file
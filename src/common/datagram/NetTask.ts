@@ -8,6 +8,8 @@
  */
 
 import { ECDHE, HASH_LEN } from "$common/protocol/ecdhe.js";
+import { CipherSuite, KeyShare } from "$common/protocol/cipherSuite.js";
+import { REPLAY_WINDOW } from "$common/protocol/replay.js";
 import { BufferReader, BufferWriter } from "$common/util/buffer.js";
 import { DefaultLogger, getOrCreateGlobalLogger } from "$common/util/logger.js";
 import { _SPACKTask, deserializeSPACK, isSPACKTaskCollection, packTaskSchemas, serializedTaskMetric as serializeTaskMetric, serializeSPACK, SPACKPacked, SPACKTask, SPACKTaskCollectionPacked, SPACKTaskMetric, unpackTaskSchemas, deserializeTaskMetric } from "./spack.js";
@@ -22,6 +24,14 @@ interface NetTaskPublicHeader {
     moreFragments: boolean,
     offset: number
 };
+
+/**
+ * An inclusive range of sequence numbers received by the sender of a {@link NetTaskSelectiveAck} datagram.
+ */
+interface NetTaskSackRange {
+    start: number,
+    end: number
+}
 //#endregion ============== Types ==============
 
 //#region ============== Constants ==============
@@ -31,6 +41,23 @@ const NET_TASK_CRYPTO    = Buffer.from("CC", "utf8");
 const NET_TASK_NOCRYPTO  = Buffer.from("NC", "utf8");
 const NET_TASK_WAKE_PING = Buffer.from("WAKEPING", "utf8");
 
+/**
+ * Size, in bytes, of the private header: version, sequence number, acknowledgement number,
+ * nacknowledgement number, type, advertised window and the 8 byte send time.
+ */
+const NET_TASK_PRIVATE_HEADER_SIZE = 4 * 6 + 8;
+
+/**
+ * Size, in bytes, added to a payload when enveloped: the length prefixes for the content, IV and auth tag,
+ * plus the 12 byte IV, the 16 byte auth tag and the 8 byte timestamp.
+ */
+const NET_TASK_ENVELOPE_OVERHEAD = 4 * 3 + 12 + 16 + 8;
+
+/**
+ * Maximum number of ranges carried by a single {@link NetTaskSelectiveAck} datagram.
+ */
+const NET_TASK_SACK_MAX_RANGES = 32;
+
 enum NetTaskDatagramType {
     BODYLESS,
     //#region ------- REGISTER PROCESS -------
@@ -42,10 +69,15 @@ enum NetTaskDatagramType {
     //#endregion ------- REGISTER PROCESS -------
     PUSH_SCHEMAS,
     SEND_METRICS,
-    // REQUEST_METRICS,
-    // RESPONSE_TASK,
-    // RESPONSE_METRICS
     WAKE,
+    SELECTIVE_ACK,
+    REQUEST_METRICS,
+    RESPONSE_TASK,
+    RESPONSE_METRICS,
+    UPDATE_SCHEMAS,
+    ACK_SCHEMAS,
+    REKEY,
+    ACK_REKEY
 };
 
 enum NetTaskRejectedReason {
@@ -53,6 +85,23 @@ enum NetTaskRejectedReason {
     UNKNOWN,
     CRYPTO_ERROR,
     AUTH_ERROR,
+    /**
+     * The agent claimed to be a device that does not exist, or that has no credentials.
+     */
+    UNKNOWN_IDENTITY,
+    /**
+     * The agent could not prove it holds the credentials of the device it claimed to be.
+     */
+    BAD_PROOF,
+    /**
+     * The agent offered no curve or no AEAD supported by the server.
+     */
+    UNSUPPORTED_CIPHER_SUITE
+}
+
+enum NetTaskRequestStatus {
+    ACCEPTED,
+    UNKNOWN_TASK
 }
 //#endregion ============== Constants ==============
 /**
@@ -70,6 +119,9 @@ class NetTask {
     protected nacknowledgementNumber: number;
     protected type: NetTaskDatagramType;
     protected payloadSize: number;
+    protected window: number;
+    protected sentAt: number;
+    protected ecdhe?: ECDHE;
     protected logger!: DefaultLogger;
 
     public constructor(
@@ -93,6 +145,8 @@ class NetTask {
         this.offset = offset;
         this.type = type;
         this.payloadSize = payloadSize;
+        this.window = 0;
+        this.sentAt = 0;
 
         // this.logger = getOrCreateGlobalLogger();
         Object.defineProperty(this, "logger", {
@@ -112,11 +166,106 @@ class NetTask {
     public getOffset(): number { return this.offset; }
     public getType(): NetTaskDatagramType { return this.type; }
     public getPayloadSize(): number { return this.payloadSize; }
+    public getWindow(): number { return this.window; }
+    /**
+     * Returns the time, in milliseconds since the epoch, at which this datagram was last serialized, as measured by 
+     * the clock of the sender. Only present on received datagrams.
+     */
+    public getSentAt(): number { return this.sentAt; }
+
+    /**
+     * Returns a boolean indicating whether this datagram is a fragment of a larger datagram.
+     */
+    public isFragment(): boolean {
+        return this.moreFragments || this.offset > 0;
+    }
 
     public setNack(nack: number){
         this.nacknowledgementNumber = nack;
     }
 
+    /**
+     * Sets the window advertised by this datagram, that is, how many more datagrams the sender is able to receive.
+     */
+    public setWindow(window: number){
+        this.window = window;
+    }
+
+    public link(ecdhe: ECDHE): this {
+        this.ecdhe = ecdhe;
+        return this;
+    }
+
+    /**
+     * Serializes this datagram into a network-transmittable buffer. Must be implemented by every datagram type.
+     */
+    public serialize(): Buffer {
+        throw new Error(`[NT] Serialization Error: ${NetTaskDatagramType[this.type]} datagram is not serializable.`);
+    }
+
+    /**
+     * Serializes the body of this datagram, that is, the part of the payload that follows the private header, before
+     * it is enveloped. Enveloped datagrams must implement it, while the body of the other datagrams is taken from their
+     * serialized form.
+     */
+    protected serializeBody(): Buffer {
+        if (NetTask.isEncrypted(this)) {
+            throw new Error(`[NT] Serialization Error: ${NetTaskDatagramType[this.type]} datagram body is not serializable.`);
+        }
+
+        const reader = new BufferReader(this.serialize());
+        reader.read(NET_TASK_SIGNATURE.byteLength);
+        const pHeader = NetTask.deserializePublicHeader(reader);
+
+        return reader.read(pHeader.payloadSize).subarray(NET_TASK_PRIVATE_HEADER_SIZE);
+    }
+
+    /**
+     * Splits this datagram into fragments whose payload does not exceed the given size. Each fragment carries a
+     * slice of the body of this datagram, and is given a consecutive sequence number, starting on the sequence
+     * number of this datagram. The body is split before it is enveloped, so each fragment is enveloped once, when
+     * serialized. If no fragmentation is needed, this datagram is returned as is.
+     *
+     * @param maxPayloadSize The maximum payload size, in bytes, of each fragment.
+     * @returns A list containing the fragments of this datagram, in order.
+     */
+    public fragment(maxPayloadSize: number): NetTask[] {
+        const encrypted = NetTask.isEncrypted(this);
+        if (encrypted && !this.ecdhe) {
+            throw new Error(`[NT] Fragmentation Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const body = this.serializeBody();
+        const overhead = NET_TASK_PRIVATE_HEADER_SIZE + (encrypted ? NET_TASK_ENVELOPE_OVERHEAD : 0);
+        if (overhead + body.byteLength <= maxPayloadSize) return [this];
+
+        const chunkSize = maxPayloadSize - overhead;
+        if (chunkSize <= 0) {
+            throw new Error(`[NT] Fragmentation Error: Maximum payload size is too small to fit any data.`);
+        }
+
+        const fragments: NetTask[] = [];
+        for (let offset = 0; offset < body.byteLength; offset += chunkSize) {
+            const fragment = new NetTaskFragment(
+                this.sessionId,
+                this.cryptoMark,
+                this.sequenceNumber + fragments.length,
+                this.acknowledgementNumber,
+                this.nacknowledgementNumber,
+                offset + chunkSize < body.byteLength,
+                offset,
+                this.type,
+                body.subarray(offset, offset + chunkSize),
+                this
+            );
+            fragment.setWindow(this.window);
+
+            fragments.push(this.ecdhe ? fragment.link(this.ecdhe) : fragment);
+        }
+
+        return fragments;
+    }
+
     public toString(): string {
         // return  "--< NET TASK >--\n" +
         //         "  VERSION: " + this.version + "\n" +
@@ -137,6 +286,7 @@ class NetTask {
                 - OFFSET: ${this.offset}
                 - TYPE: ${NetTaskDatagramType[this.type]}
                 - PAYLOAD_SIZE: ${this.payloadSize}
+                - WINDOW: ${this.window}
         `;
     }
 
@@ -217,6 +367,11 @@ class NetTask {
         writer.writeUInt32(this.acknowledgementNumber);
         writer.writeUInt32(this.nacknowledgementNumber);
         writer.writeUInt32(this.type); 
+        writer.writeUInt32(this.window);
+        // Stamped on every serialization, so that retransmissions carry the time they were sent at.
+        const sentAtBuf = Buffer.alloc(8);
+        sentAtBuf.writeBigUInt64BE(BigInt(Date.now()));
+        writer.write(sentAtBuf);
 
         return writer.finish();
     }
@@ -246,8 +401,10 @@ class NetTask {
         const acknowledgementNumber = reader.readUInt32();
         const nacknowledgementNumber = reader.readUInt32();
         const type = reader.readUInt32();
+        const window = reader.readUInt32();
+        const sentAt = Number(reader.read(8).readBigUInt64BE());
 
-        return new NetTask(
+        const nt = new NetTask(
             partialHeader.sessionId, 
             partialHeader.cryptoMark, 
             sequenceNumber,
@@ -258,6 +415,10 @@ class NetTask {
             type, 
             partialHeader.payloadSize
         );
+        nt.setWindow(window);
+        nt.sentAt = sentAt;
+
+        return nt;
     }
 }
 
@@ -295,6 +456,162 @@ class NetTaskBodyless extends NetTask {
     }
 }
 
+/**
+ * A selective acknowledgement, sent when out-of-order datagrams are received. Besides the cumulative acknowledgement
+ * on the private header, it lists every range of sequence numbers already received after the gap, allowing the
+ * other end to retransmit all the missing datagrams at once.
+ */
+class NetTaskSelectiveAck extends NetTask {
+    private ranges: NetTaskSackRange[];
+
+    public constructor(
+        sessionId: Buffer,
+        sequenceNumber: number,
+        acknowledgementNumber: number,
+        ranges: NetTaskSackRange[]
+    ) {
+        super(
+            sessionId,
+            NET_TASK_NOCRYPTO,
+            sequenceNumber,
+            acknowledgementNumber,
+            0,
+            false,
+            0,
+            NetTaskDatagramType.SELECTIVE_ACK,
+            0
+        );
+
+        this.ranges = ranges.slice(0, NET_TASK_SACK_MAX_RANGES);
+    }
+
+    public getRanges(): NetTaskSackRange[] {
+        return this.ranges;
+    }
+
+    public serialize(): Buffer {
+        const privHeader = super.serializePrivateHeader();
+        this.payloadSize = privHeader.byteLength + 1 + this.ranges.length * 4 * 2;
+
+        const pubHeader = super.serializePublicHeader();
+        const newWriter = new BufferWriter();
+
+        newWriter.write(pubHeader);
+        newWriter.write(privHeader);
+        newWriter.writeUInt8(this.ranges.length);
+        for (const range of this.ranges) {
+            newWriter.writeUInt32(range.start);
+            newWriter.writeUInt32(range.end);
+        }
+
+        return newWriter.finish();
+    }
+
+    public static deserialize(reader: BufferReader, dg: NetTask): NetTaskSelectiveAck {
+        if (dg.getType() != NetTaskDatagramType.SELECTIVE_ACK) {
+            throw new Error(`[NT_SelectiveAck] Deserialization Error: Not a SelectiveAck datagram.`);
+        }
+
+        const rangeCount = reader.readUInt8();
+        if (rangeCount > NET_TASK_SACK_MAX_RANGES) {
+            throw new Error(`[NT_SelectiveAck] Deserialization Error: Too many ranges. Received: ${rangeCount}.`);
+        }
+
+        const ranges: NetTaskSackRange[] = [];
+        for (let i = 0; i < rangeCount; i++) {
+            const start = reader.readUInt32();
+            const end = reader.readUInt32();
+            if (end < start) {
+                throw new Error(`[NT_SelectiveAck] Deserialization Error: Invalid range ${start}-${end}.`);
+            }
+
+            ranges.push({ start, end });
+        }
+
+        return new NetTaskSelectiveAck(
+            dg.getSessionId(),
+            dg.getSequenceNumber(),
+            dg.getAcknowledgementNumber(),
+            ranges
+        );
+    }
+}
+
+/**
+ * A fragment of a larger datagram, created through {@link NetTask.fragment}. Carries a slice of the body of the
+ * original datagram, starting at the byte offset present on the public header. The type of the original datagram
+ * is preserved, and the body is enveloped whenever the original datagram is encrypted.
+ */
+class NetTaskFragment extends NetTask {
+    private body: Buffer;
+    private original?: NetTask;
+
+    public constructor(
+        sessionId: Buffer,
+        cryptoMark: Buffer,
+        sequenceNumber: number,
+        acknowledgementNumber: number,
+        nacknowledgementNumber: number,
+        moreFragments: boolean,
+        offset: number,
+        type: NetTaskDatagramType,
+        body: Buffer,
+        original?: NetTask
+    ) {
+        super(
+            sessionId,
+            cryptoMark,
+            sequenceNumber,
+            acknowledgementNumber,
+            nacknowledgementNumber,
+            moreFragments,
+            offset,
+            type,
+            0
+        );
+
+        this.body = body;
+        this.original = original;
+    }
+
+    public getBody(): Buffer {
+        return this.body;
+    }
+
+    /**
+     * Returns the datagram this fragment was split from, if it was created on this end.
+     */
+    public getOriginal(): NetTask | undefined {
+        return this.original;
+    }
+
+    public serialize(): Buffer {
+        const payloadWriter = new BufferWriter();
+        payloadWriter.write(super.serializePrivateHeader());
+        payloadWriter.write(this.body);
+
+        let payload = payloadWriter.finish();
+        if (NetTask.isEncrypted(this)) {
+            if (!this.ecdhe) {
+                throw new Error(`[NT_Fragment] Serialization Error: Datagram not linked against an ECDHE instance.`);
+            }
+
+            try {
+                payload = ECDHE.serializeEncryptedMessage(this.ecdhe.envelope(payload));
+            } catch (e) {
+                throw new Error(`[NT_Fragment] Serialization Error: Crypto error:`, { cause: e });
+            }
+        }
+        this.payloadSize = payload.byteLength;
+
+        const dgramWriter = new BufferWriter();
+        dgramWriter.write(super.serializePublicHeader());
+        dgramWriter.write(payload);
+
+        return dgramWriter.finish();
+    }
+}
+
 class NetTaskRejected extends NetTask {
     private reasonFlag: NetTaskRejectedReason;
 
@@ -356,8 +673,6 @@ class NetTaskRejected extends NetTask {
 }
 
 class NetTaskReset extends NetTask {
-    protected ecdhe?: ECDHE;
-
     public constructor(
         sessionId: Buffer,
         sequenceNumber: number,
@@ -376,12 +691,7 @@ class NetTaskReset extends NetTask {
         );
     }
 
-    public link(ecdhe: ECDHE): this {
-        this.ecdhe = ecdhe;
-        return this;
-    }
-
-    public serialize() {
+    protected serializeBody(): Buffer {
         if (!this.ecdhe) {
             throw new Error(`[NT_Wake] Serialization Error: Datagram not linked against an ECDHE instance.`);
         }
@@ -403,11 +713,22 @@ class NetTaskReset extends NetTask {
         const enc = this.ecdhe.encrypt(timestampBuf);
         const serENC = ECDHE.serializeEncryptedMessage(enc);
 
+        const bodyWriter = new BufferWriter();
+        bodyWriter.writeUInt32(serENC.byteLength);
+        bodyWriter.write(serENC);
+
+        return bodyWriter.finish();
+    }
+
+    public serialize() {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_Wake] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
         const payloadWriter = new BufferWriter();
         const privHeader = super.serializePrivateHeader();
         payloadWriter.write(privHeader);
-        payloadWriter.writeUInt32(serENC.byteLength);
-        payloadWriter.write(serENC);
+        payloadWriter.write(this.serializeBody());
 
         // Envelope payload
         let envelope: Buffer; 
@@ -435,9 +756,9 @@ class NetTaskReset extends NetTask {
         const serEnc = reader.read(serEncLen);
         const desMessage = ECDHE.deserializeEncryptedMessage(serEnc);
         const message = ecdhe.decrypt(desMessage);
-        const timestamp = message.readBigUInt64BE();
+        const timestamp = Number(message.readBigUInt64BE());
 
-        if (timestamp + 1_000_000n < BigInt(Date.now())) {
+        if (Math.abs(Date.now() - timestamp) > REPLAY_WINDOW) {
             throw new Error(`[NT_Reset] Deserialization Error: Reset Datagram payload is expired.`);
         }
 
@@ -451,8 +772,14 @@ class NetTaskReset extends NetTask {
 
 //#region ============== REGISTER PROCESS ==============
 class NetTaskRegister extends NetTask {
-    private _publicKey: Buffer;
+    private _keyShares: KeyShare[];
+    private _aeads: string[];
+    private _name?: string;
 
+    /**
+     * @param keyShares The ephemeral public keys of the agent, one for every curve it supports, in order of preference.
+     * @param aeads The AEADs supported by the agent, in order of preference.
+     */
     public constructor (
         sessionId: Buffer,
         sequenceNumber: number,
@@ -460,7 +787,9 @@ class NetTaskRegister extends NetTask {
         nacknowledgementNumber: number,
         moreFragments: boolean,
         offset: number,
-        publicKey: Buffer
+        keyShares: KeyShare[],
+        aeads: string[],
+        name?: string
     ) {
         super(
             sessionId,
@@ -473,22 +802,53 @@ class NetTaskRegister extends NetTask {
             NetTaskDatagramType.REQUEST_REGISTER, 
             0
         );
-        this._publicKey = publicKey;
+        this._keyShares = keyShares;
+        this._aeads = aeads;
+        this._name = name;
     }
 
-    public get publicKey(): Buffer { return this._publicKey; }
+    public get keyShares(): KeyShare[] { return this._keyShares; }
+    public get aeads(): string[] { return this._aeads; }
+    /**
+     * The name of the device the agent claims to be, or undefined if the agent should be matched by it's source address.
+     * The claim is proven on the {@link NetTaskRegisterChallenge2} datagram.
+     */
+    public get name(): string | undefined { return this._name; }
 
     public serialize(): Buffer {
         const privHeader = super.serializePrivateHeader();
-        this.payloadSize = privHeader.byteLength + 4 + this._publicKey.byteLength;
+        const name = Buffer.from(this._name ?? "", "utf8");
+        const payloadWriter = new BufferWriter();
+
+        payloadWriter.writeUInt32(this._keyShares.length);
+        for (const share of this._keyShares) {
+            const curve = Buffer.from(share.curve, "utf8");
+            payloadWriter.writeUInt32(curve.byteLength);
+            payloadWriter.write(curve);
+            payloadWriter.writeUInt32(share.publicKey.byteLength);
+            payloadWriter.write(share.publicKey);
+        }
+
+        payloadWriter.writeUInt32(this._aeads.length);
+        for (const aead of this._aeads) {
+            const aeadBuf = Buffer.from(aead, "utf8");
+            payloadWriter.writeUInt32(aeadBuf.byteLength);
+            payloadWriter.write(aeadBuf);
+        }
+
+        // An empty name means the agent has no identity.
+        payloadWriter.writeUInt32(name.byteLength);
+        payloadWriter.write(name);
+
+        const payload = payloadWriter.finish();
+        this.payloadSize = privHeader.byteLength + payload.byteLength;
 
         const pubHeader = super.serializePublicHeader();
         const newWriter = new BufferWriter();
 
         newWriter.write(pubHeader);
         newWriter.write(privHeader);
-        newWriter.writeUInt32(this._publicKey.byteLength);
-        newWriter.write(this._publicKey);
+        newWriter.write(payload);
 
         // const logger = getOrCreateGlobalLogger();
         // logger.log("[NT_Register] WRITE BUF:", newWriter.finish().toString("hex").match(/../g));
@@ -504,9 +864,27 @@ class NetTaskRegister extends NetTask {
         // const logger = getOrCreateGlobalLogger();
         // logger.log("[NT_Register] BUF:", reader);
 
-        const publicKeyLen = reader.readUInt32();
-        // logger.log("[NT_Register] PKLEN:", publicKeyLen);
-        const publicKey = reader.read(publicKeyLen);
+        const keyShares: KeyShare[] = [];
+        const keyShareCount = reader.readUInt32();
+        for (let i = 0; i < keyShareCount; i++) {
+            const curveLen = reader.readUInt32();
+            const curve = reader.read(curveLen).toString("utf8");
+            const publicKeyLen = reader.readUInt32();
+            // logger.log("[NT_Register] PKLEN:", publicKeyLen);
+            const publicKey = reader.read(publicKeyLen);
+
+            keyShares.push({ curve, publicKey });
+        }
+
+        const aeads: string[] = [];
+        const aeadCount = reader.readUInt32();
+        for (let i = 0; i < aeadCount; i++) {
+            const aeadLen = reader.readUInt32();
+            aeads.push(reader.read(aeadLen).toString("utf8"));
+        }
+
+        const nameLen = reader.readUInt32();
+        const name = reader.read(nameLen).toString("utf8");
 
         return new NetTaskRegister(
             dg.getSessionId(),
@@ -515,7 +893,9 @@ class NetTaskRegister extends NetTask {
             dg.getNAcknowledgementNumber(),
             dg.getMoreFragmentsFlag(), 
             dg.getOffset(), 
-            publicKey
+            keyShares,
+            aeads,
+            name || undefined
         );
     }
 }
@@ -524,7 +904,16 @@ class NetTaskRegisterChallenge extends NetTask {
     private _publicKey: Buffer;
     private _challenge: Buffer;
     private _salt: Buffer;
+    private _suite: CipherSuite;
+    private _signature: Buffer;
+    private _certificate: Buffer;
 
+    /**
+     * @param suite The cipher suite chosen by the server, out of the ones offered on the {@link NetTaskRegister} datagram.
+     * @param signature The signature of the public key and salt by the long-term key of the server, 
+     * or an empty buffer if the server has no signing key.
+     * @param certificate The serialized certificate of the server, or an empty buffer if it has none.
+     */
     public constructor (
         sessionId: Buffer,
         sequenceNumber: number,
@@ -534,7 +923,10 @@ class NetTaskRegisterChallenge extends NetTask {
         offset: number,
         publicKey: Buffer,
         challenge: Buffer,
-        salt: Buffer
+        salt: Buffer,
+        suite: CipherSuite,
+        signature: Buffer,
+        certificate: Buffer
     ) {
         super(
             sessionId,
@@ -550,19 +942,34 @@ class NetTaskRegisterChallenge extends NetTask {
         this._publicKey = publicKey;
         this._challenge = challenge;
         this._salt = salt;
+        this._suite = suite;
+        this._signature = signature;
+        this._certificate = certificate;
     }
 
     public get publicKey(): Buffer { return this._publicKey; }
     public get salt(): Buffer { return this._salt; }
+    /**
+     * The cipher suite chosen by the server. Not yet verified to be one offered by the agent.
+     */
+    public get suite(): CipherSuite { return this._suite; }
     public get challenge(): Buffer { return this._challenge; }
+    public get signature(): Buffer { return this._signature; }
+    public get certificate(): Buffer { return this._certificate; }
 
     public serialize(): Buffer {
         const privHeader = super.serializePrivateHeader();
+        const curve = Buffer.from(this._suite.curve, "utf8");
+        const aead = Buffer.from(this._suite.aead, "utf8");
         this.payloadSize = privHeader.byteLength
             + this._publicKey.byteLength
             + this._challenge.byteLength
             + this._salt.byteLength
-            + 4 * 3;
+            + curve.byteLength
+            + aead.byteLength
+            + this._signature.byteLength
+            + this._certificate.byteLength
+            + 4 * 7;
 
         const pubHeader = super.serializePublicHeader();
         const newWriter = new BufferWriter();
@@ -575,6 +982,14 @@ class NetTaskRegisterChallenge extends NetTask {
         newWriter.write(this._challenge);
         newWriter.writeUInt32(this._salt.byteLength);
         newWriter.write(this._salt);
+        newWriter.writeUInt32(curve.byteLength);
+        newWriter.write(curve);
+        newWriter.writeUInt32(aead.byteLength);
+        newWriter.write(aead);
+        newWriter.writeUInt32(this._signature.byteLength);
+        newWriter.write(this._signature);
+        newWriter.writeUInt32(this._certificate.byteLength);
+        newWriter.write(this._certificate);
 
         return newWriter.finish();
     }
@@ -590,6 +1005,14 @@ class NetTaskRegisterChallenge extends NetTask {
         const challenge = reader.read(challengeLen);
         const saltLen = reader.readUInt32();
         const salt = reader.read(saltLen);
+        const curveLen = reader.readUInt32();
+        const curve = reader.read(curveLen).toString("utf8");
+        const aeadLen = reader.readUInt32();
+        const aead = reader.read(aeadLen).toString("utf8");
+        const signatureLen = reader.readUInt32();
+        const signature = reader.read(signatureLen);
+        const certificateLen = reader.readUInt32();
+        const certificate = reader.read(certificateLen);
 
         return new NetTaskRegisterChallenge(
             dg.getSessionId(),
@@ -600,7 +1023,10 @@ class NetTaskRegisterChallenge extends NetTask {
             dg.getOffset(), 
             publicKey, 
             challenge,
-            salt
+            salt,
+            <CipherSuite>{ curve, aead },
+            signature,
+            certificate
         );
     }
 }
@@ -698,8 +1124,12 @@ class NetTaskRegisterChallenge extends NetTask {
 // }
 class NetTaskRegisterChallenge2 extends NetTask {
     private _challenge: Buffer;
-    private ecdhe?: ECDHE;
+    private _proof: Buffer;
 
+    /**
+     * @param proof The proof that the agent holds the credentials of the device it claimed to be on the
+     * {@link NetTaskRegister} datagram, or an empty buffer if it claimed none.
+     */
     public constructor (
         sessionId: Buffer,
         sequenceNumber: number,
@@ -707,7 +1137,8 @@ class NetTaskRegisterChallenge2 extends NetTask {
         nacknowledgementNumber: number,
         moreFragments: boolean,
         offset: number,
-        challenge: Buffer
+        challenge: Buffer,
+        proof: Buffer
     ) {
         super(
             sessionId,
@@ -721,14 +1152,11 @@ class NetTaskRegisterChallenge2 extends NetTask {
             0
         );
         this._challenge = challenge;
+        this._proof = proof;
     }
 
     public get challenge(): Buffer { return this._challenge; }
-
-    public link(ecdhe: ECDHE): this {
-        this.ecdhe = ecdhe;
-        return this;
-    }
+    public get proof(): Buffer { return this._proof; }
 
     public serialize(): Buffer {
         if (!this.ecdhe) {
@@ -737,7 +1165,7 @@ class NetTaskRegisterChallenge2 extends NetTask {
         
         // Write Payload
         const privHeader = super.serializePrivateHeader();
-        this.payloadSize = privHeader.byteLength + this.challenge.byteLength + 4;
+        this.payloadSize = privHeader.byteLength + this.challenge.byteLength + 4 + this._proof.byteLength + 4;
 
 
         const pubHeader = super.serializePublicHeader();
@@ -746,6 +1174,8 @@ class NetTaskRegisterChallenge2 extends NetTask {
         dgramWriter.write(privHeader);
         dgramWriter.writeUInt32(this._challenge.byteLength);
         dgramWriter.write(this._challenge);
+        dgramWriter.writeUInt32(this._proof.byteLength);
+        dgramWriter.write(this._proof);
 
         return dgramWriter.finish();
     }
@@ -757,6 +1187,8 @@ class NetTaskRegisterChallenge2 extends NetTask {
 
         const challengeLen = reader.readUInt32();
         const challenge = reader.read(challengeLen);
+        const proofLen = reader.readUInt32();
+        const proof = reader.read(proofLen);
 
         return new NetTaskRegisterChallenge2(
             dg.getSessionId(),
@@ -765,7 +1197,8 @@ class NetTaskRegisterChallenge2 extends NetTask {
             dg.getNAcknowledgementNumber(), 
             dg.getMoreFragmentsFlag(),
             dg.getOffset(),
-            challenge
+            challenge,
+            proof
         );
     }
 }
@@ -774,7 +1207,6 @@ class NetTaskRegisterChallenge2 extends NetTask {
 class NetTaskPushSchemas extends NetTask {
     private spack!: SPACKPacked | { [key: string]: SPACKTask; };
     // private message: string;
-    private ecdhe?: ECDHE;
 
     public constructor(
         sessionId: Buffer,
@@ -808,12 +1240,7 @@ class NetTaskPushSchemas extends NetTask {
         return this.spack;
     }
 
-    public link(ecdhe: ECDHE): this {
-        this.ecdhe = ecdhe;
-        return this;
-    }
-
-    public serialize(): Buffer {
+    protected serializeBody(): Buffer {
         if (!this.ecdhe) {
             throw new Error(`[NT_PushSchemas] Serialization Error: Datagram not linked against an ECDHE instance.`);
 
@@ -843,11 +1270,23 @@ class NetTaskPushSchemas extends NetTask {
         const enc = this.ecdhe.encrypt(packCompound);
         const serENC = ECDHE.serializeEncryptedMessage(enc);
 
+        const bodyWriter = new BufferWriter();
+        bodyWriter.writeUInt32(serENC.byteLength);
+        bodyWriter.write(serENC);
+
+        return bodyWriter.finish();
+    }
+
+    public serialize(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_PushSchemas] Serialization Error: Datagram not linked against an ECDHE instance.`);
+
+        }
+
         const payloadWriter = new BufferWriter();
         const privHeader = super.serializePrivateHeader();
         payloadWriter.write(privHeader);
-        payloadWriter.writeUInt32(serENC.byteLength);
-        payloadWriter.write(serENC);
+        payloadWriter.write(this.serializeBody());
 
         // this.logger.log("[NT_PS] PACK:", pack);
 
@@ -905,79 +1344,679 @@ class NetTaskPushSchemas extends NetTask {
     }
 }
 
-class NetTaskMetric extends NetTask {
-    private spack!: SPACKTaskMetric;
-    private ecdhe?: ECDHE;
-    private taskId: string;
-    private task: object;
+/**
+ * This class represents an incremental change to the tasks assigned to an agent, sent by the server after the
+ * initial {@link NetTaskPushSchemas}. Carries the tasks that were added or modified, and the identifiers of the tasks
+ * that were removed. Each update is tagged with a schema version, acknowledged by the agent with a 
+ * {@link NetTaskSchemasAck}.
+ */
+class NetTaskUpdateSchemas extends NetTask {
+    private schemaVersion: number;
+    private spack: SPACKPacked | { [key: string]: SPACKTask; };
+    private removed: string[];
 
     public constructor(
         sessionId: Buffer,
         sequenceNumber: number,
         acknowledgementNumber: number,
-        nacknowledgementNumber: number,
-        moreFragments: boolean,
-        offset: number,
-        spack: SPACKTaskMetric,
-        taskId: string,
-        // Should be of type Task, but I don't want to import stuff from the server into common, 
-        // and I'm too much of a lazy fuck to move the config to common.
-        task: object
+        schemaVersion: number,
+        spack: SPACKPacked | { [key: string]: SPACKTask; },
+        removed: string[]
     ) {
         super(
-            sessionId, 
-            NET_TASK_CRYPTO, 
-            sequenceNumber, 
+            sessionId,
+            NET_TASK_CRYPTO,
+            sequenceNumber,
             acknowledgementNumber,
-            nacknowledgementNumber, 
-            moreFragments,
-            offset, 
-            NetTaskDatagramType.SEND_METRICS, 
+            0, 
+            false,
+            0, 
+            NetTaskDatagramType.UPDATE_SCHEMAS,
             0
         );
 
-        this.spack = dropEmpty(Object.fromEntries(Object.entries(spack)));
-        this.taskId = taskId;
-        this.task = task;
-    }
-
-    public getMetrics() {
-        return this.spack;
+        this.schemaVersion = schemaVersion;
+        this.spack = spack;
+        this.removed = removed;
+    }
+
+    public getSchemaVersion() { return this.schemaVersion; }
+    /**
+     * Returns the tasks that were added or modified, indexed by their config identifier.
+     */
+    public getSchemas() { return this.spack; }
+    /**
+     * Returns the config identifiers of the tasks that were removed.
+     */
+    public getRemoved() { return this.removed; }
+
+    protected serializeBody(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_UpdateSchemas] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        let pack: Buffer;
+        if (isSPACKTaskCollection(this.spack)) {
+            pack = serializeSPACK(packTaskSchemas(
+                Object.fromEntries(Object.entries(this.spack).map(([k,v]) => [k, <never>(<_SPACKTask>v).getUnpacked()]))
+            ));
+        } else {
+            pack = serializeSPACK(this.spack);
+        }
+
+        const header = Buffer.alloc(8);
+        header.writeUInt32BE(this.schemaVersion);
+        header.writeUInt32BE(pack.byteLength, 4);
+
+        const removedBufs: Buffer[] = [];
+        const removedCount = Buffer.alloc(4);
+        removedCount.writeUInt32BE(this.removed.length);
+        for (const taskId of this.removed) {
+            const taskLen = Buffer.alloc(4);
+            taskLen.writeUInt32BE(Buffer.byteLength(taskId, "utf8"));
+            removedBufs.push(taskLen, Buffer.from(taskId, "utf8"));
+        }
+
+        const payloadCompound = Buffer.concat([header, pack, removedCount, ...removedBufs]);
+        const enc = this.ecdhe.encrypt(payloadCompound);
+        const serENC = ECDHE.serializeEncryptedMessage(enc);
+
+        const bodyWriter = new BufferWriter();
+        bodyWriter.writeUInt32(serENC.byteLength);
+        bodyWriter.write(serENC);
+
+        return bodyWriter.finish();
+    }
+
+    public serialize(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_UpdateSchemas] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const payloadWriter = new BufferWriter();
+        const privHeader = super.serializePrivateHeader();
+        payloadWriter.write(privHeader);
+        payloadWriter.write(this.serializeBody());
+
+        // Envelope payload
+        let envelope: Buffer; 
+        try {
+            envelope = ECDHE.serializeEncryptedMessage(this.ecdhe.envelope(payloadWriter.finish()));
+            this.payloadSize = envelope.byteLength;
+        } catch (e) {
+            throw new Error(`[NT_UpdateSchemas] Serialization Error: Crypto error:`, { cause: e });
+        }
+
+        const pubHeader = super.serializePublicHeader();
+        const dgramWriter = new BufferWriter();
+        dgramWriter.write(pubHeader);
+        dgramWriter.write(envelope);
+
+        return dgramWriter.finish();
+    }
+
+    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask): NetTaskUpdateSchemas {
+        if (dg.getType() != NetTaskDatagramType.UPDATE_SCHEMAS) {
+            throw new Error(`[NT_UpdateSchemas] Deserialization Error: Not an UpdateSchemas datagram.`);
+        }
+
+        const serEncLen = reader.readUInt32();
+        const serEnc = reader.read(serEncLen);
+        const desMessage = ECDHE.deserializeEncryptedMessage(serEnc);
+        const message = ecdhe.decrypt(desMessage);
+        const messageReader = new BufferReader(message);
+
+        let schemaVersion: number;
+        let tasks: { [key: string]: SPACKTask; } = {};
+        const removed: string[] = [];
+        try {
+            schemaVersion = messageReader.readUInt32();
+            const spackLen = messageReader.readUInt32();
+            const rawSpack = messageReader.read(spackLen);
+            tasks = unpackTaskSchemas(<SPACKTaskCollectionPacked>deserializeSPACK(rawSpack));
+
+            const removedCount = messageReader.readUInt32();
+            for (let i = 0; i < removedCount; i++) {
+                const taskLen = messageReader.readUInt32();
+                removed.push(messageReader.read(taskLen).toString("utf8"));
+            }
+        } catch (e) {
+            throw new Error(`[NT_UpdateSchemas] Malformed NetTaskUpdateSchemas packet: Malformed schema payload.`, { cause: e });
+        }
+
+        return new NetTaskUpdateSchemas(
+            dg.getSessionId(),
+            dg.getSequenceNumber(),
+            dg.getAcknowledgementNumber(),
+            schemaVersion,
+            tasks,
+            removed
+        );
+    }
+}
+
+/**
+ * This class represents the confirmation of an agent that a {@link NetTaskUpdateSchemas} was applied, 
+ * carrying the schema version the agent is now running.
+ */
+class NetTaskSchemasAck extends NetTask {
+    private schemaVersion: number;
+
+    public constructor(
+        sessionId: Buffer,
+        sequenceNumber: number,
+        acknowledgementNumber: number,
+        schemaVersion: number
+    ) {
+        super(
+            sessionId,
+            NET_TASK_CRYPTO,
+            sequenceNumber,
+            acknowledgementNumber,
+            0, 
+            false,
+            0, 
+            NetTaskDatagramType.ACK_SCHEMAS,
+            0
+        );
+
+        this.schemaVersion = schemaVersion;
+    }
+
+    public getSchemaVersion() { return this.schemaVersion; }
+
+    protected serializeBody(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_SchemasAck] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const payloadCompound = Buffer.alloc(4);
+        payloadCompound.writeUInt32BE(this.schemaVersion);
+
+        const enc = this.ecdhe.encrypt(payloadCompound);
+        const serENC = ECDHE.serializeEncryptedMessage(enc);
+
+        const bodyWriter = new BufferWriter();
+        bodyWriter.writeUInt32(serENC.byteLength);
+        bodyWriter.write(serENC);
+
+        return bodyWriter.finish();
+    }
+
+    public serialize(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_SchemasAck] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const payloadWriter = new BufferWriter();
+        const privHeader = super.serializePrivateHeader();
+        payloadWriter.write(privHeader);
+        payloadWriter.write(this.serializeBody());
+
+        // Envelope payload
+        let envelope: Buffer; 
+        try {
+            envelope = ECDHE.serializeEncryptedMessage(this.ecdhe.envelope(payloadWriter.finish()));
+            this.payloadSize = envelope.byteLength;
+        } catch (e) {
+            throw new Error(`[NT_SchemasAck] Serialization Error: Crypto error:`, { cause: e });
+        }
+
+        const pubHeader = super.serializePublicHeader();
+        const dgramWriter = new BufferWriter();
+        dgramWriter.write(pubHeader);
+        dgramWriter.write(envelope);
+
+        return dgramWriter.finish();
+    }
+
+    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask): NetTaskSchemasAck {
+        if (dg.getType() != NetTaskDatagramType.ACK_SCHEMAS) {
+            throw new Error(`[NT_SchemasAck] Deserialization Error: Not a SchemasAck datagram.`);
+        }
+
+        const serEncLen = reader.readUInt32();
+        const serEnc = reader.read(serEncLen);
+        const desMessage = ECDHE.deserializeEncryptedMessage(serEnc);
+        const message = ecdhe.decrypt(desMessage);
+
+        if (message.byteLength !== 4) {
+            throw new Error(`[NT_SchemasAck] Deserialization Error: Malformed SchemasAck payload.`);
+        }
+
+        return new NetTaskSchemasAck(
+            dg.getSessionId(), 
+            dg.getSequenceNumber(), 
+            dg.getAcknowledgementNumber(),
+            message.readUInt32BE()
+        );
+    }
+}
+
+class NetTaskMetric extends NetTask {
+    private spack!: SPACKTaskMetric;
+    private taskId: string;
+    private task: object;
+    private timestamp: number;
+    private clockOffset: number;
+
+    public constructor(
+        sessionId: Buffer,
+        sequenceNumber: number,
+        acknowledgementNumber: number,
+        nacknowledgementNumber: number,
+        moreFragments: boolean,
+        offset: number,
+        spack: SPACKTaskMetric,
+        taskId: string,
+        // Should be of type Task, but I don't want to import stuff from the server into common, 
+        // and I'm too much of a lazy fuck to move the config to common.
+        task: object,
+        timestamp: number = Date.now(),
+        clockOffset: number = 0
+    ) {
+        super(
+            sessionId, 
+            NET_TASK_CRYPTO, 
+            sequenceNumber, 
+            acknowledgementNumber,
+            nacknowledgementNumber, 
+            moreFragments,
+            offset, 
+            NetTaskDatagramType.SEND_METRICS, 
+            0
+        );
+
+        this.spack = dropEmpty(Object.fromEntries(Object.entries(spack)));
+        this.taskId = taskId;
+        this.task = task;
+        this.timestamp = timestamp;
+        this.clockOffset = clockOffset;
+    }
+
+    public getMetrics() {
+        return this.spack;
     }
 
     public getTaskId() {
         return this.taskId;
     }
 
-    public link(ecdhe: ECDHE): this {
-        this.ecdhe = ecdhe;
-        return this;
+    /**
+     * Returns the time, in milliseconds since the epoch, at which the metrics were collected, as measured by the 
+     * clock of the agent.
+     */
+    public getTimestamp() {
+        return this.timestamp;
+    }
+
+    /**
+     * Returns the difference, in milliseconds, between the clock of the receiver and the clock of the agent, 
+     * estimated from the time the datagram, or the last of it's fragments, was sent. Includes the transmission delay.
+     */
+    public getClockOffset() {
+        return this.clockOffset;
+    }
+
+    /**
+     * Returns the time at which the metrics were collected, corrected to the clock of the receiver.
+     */
+    public getCollectionDate(): Date {
+        return new Date(this.timestamp + this.clockOffset);
+    }
+
+    /**
+     * Serializes the task identifier and the metrics, along with the time they were collected at, into the plaintext 
+     * message to be encrypted. The send time is not part of it, as it is stamped on the private header instead.
+     */
+    protected serializeMetric(): Buffer {
+        this.logger.log("[NT_PushSchemas] PACK ARGS:", this.spack, this.task);
+        const pack = serializeTaskMetric({ ...this.spack, timestamp: this.timestamp }, <never>this.task);
+        this.logger.log("[NT_PushSchemas] PACK:", pack, pack.byteLength);
+
+        const taskLen = Buffer.alloc(4);
+        taskLen.writeUInt32BE(this.taskId.length);
+
+        const packLen = Buffer.alloc(4);
+        packLen.writeUInt32BE(pack.byteLength);
+        return Buffer.concat([taskLen, Buffer.from(this.taskId, "utf8"), packLen, pack]);
+    }
+
+    protected serializeBody(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_PushSchemas] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const packCompound = this.serializeMetric();
+
+        const enc = this.ecdhe.encrypt(packCompound);
+        const serENC = ECDHE.serializeEncryptedMessage(enc);
+
+        const bodyWriter = new BufferWriter();
+        bodyWriter.writeUInt32(serENC.byteLength);
+        bodyWriter.write(serENC);
+
+        return bodyWriter.finish();
+    }
+
+    public serialize(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_PushSchemas] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const payloadWriter = new BufferWriter();
+        const privHeader = super.serializePrivateHeader();
+        payloadWriter.write(privHeader);
+        payloadWriter.write(this.serializeBody());
+
+        // Envelope payload
+        let envelope: Buffer; 
+        try {
+            envelope = ECDHE.serializeEncryptedMessage(this.ecdhe.envelope(payloadWriter.finish()));
+            this.payloadSize = envelope.byteLength;
+        } catch (e) {
+            throw new Error(`[NT_PushSchemas] Serialization Error: Crypto error:`, { cause: e });
+        }
+
+        const pubHeader = super.serializePublicHeader();
+        const dgramWriter = new BufferWriter();
+        dgramWriter.write(pubHeader);
+        dgramWriter.write(envelope);
+
+        return dgramWriter.finish();
+    }
+
+    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask, configTasks: object): NetTaskMetric {
+        // const logger = getOrCreateGlobalLogger();
+
+        if (dg.getType() != NetTaskDatagramType.SEND_METRICS) {
+            throw new Error(`[NT_PushSchemas] Deserialization Error: Not a PushSchemas datagram.`);
+        }
+
+        const serEncLen = reader.readUInt32();
+        const serEnc = reader.read(serEncLen);
+        const desMessage = ECDHE.deserializeEncryptedMessage(serEnc);
+        const message = ecdhe.decrypt(desMessage);
+        const messageReader = new BufferReader(message);
+
+        // logger.log("[NT_PushSchemas] MESSAGE:", message);
+
+        const metric = NetTaskMetric.deserializeMetric(messageReader, configTasks, dg.getSentAt());
+
+        return new NetTaskMetric(
+            dg.getSessionId(), 
+            dg.getSequenceNumber(), 
+            dg.getAcknowledgementNumber(), 
+            dg.getNAcknowledgementNumber(), 
+            dg.getMoreFragmentsFlag(), 
+            dg.getOffset(),
+            metric.metrics,
+            metric.taskId,
+            <never>(<Record<string, unknown>>configTasks)[<keyof typeof configTasks>metric.taskId],
+            metric.timestamp,
+            metric.clockOffset
+        );
+    }
+
+    /**
+     * Deserializes the task identifier, the collection time and the metrics from a decrypted message.
+     * 
+     * @param sentAt The send time stamped on the datagram, used to estimate the clock offset of the agent.
+     */
+    protected static deserializeMetric(messageReader: BufferReader, configTasks: object, sentAt: number) {
+        const metric = { taskId: "", metrics: <SPACKTaskMetric>{}, timestamp: 0, clockOffset: 0 };
+        try {
+            const taskIdLen = messageReader.readUInt32();
+            metric.taskId = messageReader.read(taskIdLen).toString("utf8");
+
+            const spackLen = messageReader.readUInt32();
+            const rawSpack = messageReader.read(spackLen);
+
+            const { timestamp, clock_offset, ...metrics } = deserializeTaskMetric(
+                rawSpack, 
+                // In order to not import stuff from server into common, we do this hack to simply accept whatever.
+                // It's the responsability of the user to guarantee this doesn't explode on their hands.
+                <never>(<Record<string, unknown>>configTasks)[<keyof typeof configTasks>metric.taskId],
+                sentAt
+            );
+            metric.metrics = metrics;
+            metric.timestamp = timestamp;
+            metric.clockOffset = clock_offset;
+        } catch (e) {
+            throw new Error(`[NT_Metric] Malformed NetTaskMetric packet: Malformed schema payload.`, { cause: e });
+        }
+
+        return metric;
+    }
+}
+
+/**
+ * This class represents the metrics collected by an agent out of schedule, at the request of the server.
+ * The response is correlated to the {@link NetTaskRequestMetrics} datagram that triggered it through the request id.
+ */
+class NetTaskResponseMetrics extends NetTaskMetric {
+    private requestId: number;
+
+    public constructor(
+        sessionId: Buffer,
+        sequenceNumber: number,
+        acknowledgementNumber: number,
+        requestId: number,
+        spack: SPACKTaskMetric,
+        taskId: string,
+        task: object,
+        timestamp: number = Date.now(),
+        clockOffset: number = 0
+    ) {
+        super(sessionId, sequenceNumber, acknowledgementNumber, 0, false, 0, spack, taskId, task, timestamp, clockOffset);
+
+        this.type = NetTaskDatagramType.RESPONSE_METRICS;
+        this.requestId = requestId;
+    }
+
+    public getRequestId() { return this.requestId; }
+
+    protected serializeMetric(): Buffer {
+        const requestIdBuf = Buffer.alloc(4);
+        requestIdBuf.writeUInt32BE(this.requestId);
+
+        return Buffer.concat([requestIdBuf, super.serializeMetric()]);
+    }
+
+    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask, configTasks: object): NetTaskResponseMetrics {
+        if (dg.getType() != NetTaskDatagramType.RESPONSE_METRICS) {
+            throw new Error(`[NT_ResponseMetrics] Deserialization Error: Not a ResponseMetrics datagram.`);
+        }
+
+        const serEncLen = reader.readUInt32();
+        const serEnc = reader.read(serEncLen);
+        const desMessage = ECDHE.deserializeEncryptedMessage(serEnc);
+        const message = ecdhe.decrypt(desMessage);
+        const messageReader = new BufferReader(message);
+
+        const requestId = messageReader.readUInt32();
+        const metric = NetTaskMetric.deserializeMetric(messageReader, configTasks, dg.getSentAt());
+
+        return new NetTaskResponseMetrics(
+            dg.getSessionId(), 
+            dg.getSequenceNumber(), 
+            dg.getAcknowledgementNumber(), 
+            requestId,
+            metric.metrics,
+            metric.taskId,
+            <never>(<Record<string, unknown>>configTasks)[<keyof typeof configTasks>metric.taskId],
+            metric.timestamp,
+            metric.clockOffset
+        );
+    }
+}
+
+class NetTaskWake extends NetTask {
+    private newSeq: number;
+
+    public constructor(
+        sessionId: Buffer,
+        sequenceNumber: number,
+        acknowledgementNumber: number,
+        newSeq: number
+    ) {
+        super(
+            sessionId,
+            NET_TASK_CRYPTO,
+            sequenceNumber,
+            acknowledgementNumber,
+            0, 
+            false,
+            0, 
+            NetTaskDatagramType.WAKE,
+            0
+        );
+
+        this.newSeq = newSeq;
+    }
+
+    protected serializeBody(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_Wake] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const seqBuf = Buffer.alloc(4);
+        seqBuf.writeUInt32BE(this.newSeq);
+
+        const payloadCompount = Buffer.concat([NET_TASK_WAKE_PING, seqBuf]);
+        const enc = this.ecdhe.encrypt(payloadCompount);
+        const serENC = ECDHE.serializeEncryptedMessage(enc);
+
+        const bodyWriter = new BufferWriter();
+        bodyWriter.writeUInt32(serENC.byteLength);
+        bodyWriter.write(serENC);
+
+        return bodyWriter.finish();
+    }
+
+    public serialize() {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_Wake] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const payloadWriter = new BufferWriter();
+        const privHeader = super.serializePrivateHeader();
+        payloadWriter.write(privHeader);
+        payloadWriter.write(this.serializeBody());
+
+        // Envelope payload
+        let envelope: Buffer; 
+        try {
+            envelope = ECDHE.serializeEncryptedMessage(this.ecdhe.envelope(payloadWriter.finish()));
+            this.payloadSize = envelope.byteLength;
+        } catch (e) {
+            throw new Error(`[NT_Wake] Serialization Error: Crypto error:`, { cause: e });
+        }
+
+        const pubHeader = super.serializePublicHeader();
+        const dgramWriter = new BufferWriter();
+        dgramWriter.write(pubHeader);
+        dgramWriter.write(envelope);
+
+        return dgramWriter.finish();
+    }
+
+    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask): NetTaskWake {
+        if (dg.getType() != NetTaskDatagramType.WAKE) {
+            throw new Error(`[NT_Wake] Deserialization Error: Not a Wake datagram.`);
+        }
+
+        const serEncLen = reader.readUInt32();
+        const serEnc = reader.read(serEncLen);
+        const desMessage = ECDHE.deserializeEncryptedMessage(serEnc);
+        const message = ecdhe.decrypt(desMessage);
+        const messageReader = new BufferReader(message);
+
+        const ping = messageReader.read(NET_TASK_WAKE_PING.byteLength);
+        const newSeq = messageReader.readUInt32();
+
+        if (!ping.equals(NET_TASK_WAKE_PING)) {
+            throw new Error(`[NT_Wake] Deserialization Error: Wake Datagram payload broken or invalid.`);
+        }
+
+        return new NetTaskWake(
+            dg.getSessionId(), 
+            newSeq, 
+            dg.getAcknowledgementNumber(),
+            0
+        );
+    }
+
+    public static makeNewSeq() {
+        return Math.floor(Math.random() * (2 ** 32 - 1)) + 1;
     }
+}
 
-    public serialize(): Buffer {
+/**
+ * This class represents a request from the server for an agent to immediately run a task once, 
+ * out of the schedule defined by the task frequency.
+ */
+class NetTaskRequestMetrics extends NetTask {
+    private requestId: number;
+    private taskId: string;
+
+    public constructor(
+        sessionId: Buffer,
+        sequenceNumber: number,
+        acknowledgementNumber: number,
+        requestId: number,
+        taskId: string
+    ) {
+        super(
+            sessionId,
+            NET_TASK_CRYPTO,
+            sequenceNumber,
+            acknowledgementNumber,
+            0, 
+            false,
+            0, 
+            NetTaskDatagramType.REQUEST_METRICS,
+            0
+        );
+
+        this.requestId = requestId;
+        this.taskId = taskId;
+    }
+
+    public getRequestId() { return this.requestId; }
+    public getTaskId() { return this.taskId; }
+
+    protected serializeBody(): Buffer {
         if (!this.ecdhe) {
-            throw new Error(`[NT_PushSchemas] Serialization Error: Datagram not linked against an ECDHE instance.`);
+            throw new Error(`[NT_RequestMetrics] Serialization Error: Datagram not linked against an ECDHE instance.`);
         }
 
-        this.logger.log("[NT_PushSchemas] PACK ARGS:", this.spack, this.task);
-        const pack = serializeTaskMetric(this.spack, <never>this.task);
-        this.logger.log("[NT_PushSchemas] PACK:", pack, pack.byteLength);
+        const requestIdBuf = Buffer.alloc(4);
+        requestIdBuf.writeUInt32BE(this.requestId);
 
         const taskLen = Buffer.alloc(4);
-        taskLen.writeUInt32BE(this.taskId.length);
-
-        const packLen = Buffer.alloc(4);
-        packLen.writeUInt32BE(pack.byteLength);
-        const packCompound = Buffer.concat([taskLen, Buffer.from(this.taskId, "utf8"), packLen, pack]);
+        taskLen.writeUInt32BE(Buffer.byteLength(this.taskId, "utf8"));
 
-        const enc = this.ecdhe.encrypt(packCompound);
+        const payloadCompound = Buffer.concat([requestIdBuf, taskLen, Buffer.from(this.taskId, "utf8")]);
+        const enc = this.ecdhe.encrypt(payloadCompound);
         const serENC = ECDHE.serializeEncryptedMessage(enc);
 
+        const bodyWriter = new BufferWriter();
+        bodyWriter.writeUInt32(serENC.byteLength);
+        bodyWriter.write(serENC);
+
+        return bodyWriter.finish();
+    }
+
+    public serialize() {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_RequestMetrics] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
         const payloadWriter = new BufferWriter();
         const privHeader = super.serializePrivateHeader();
         payloadWriter.write(privHeader);
-        payloadWriter.writeUInt32(serENC.byteLength);
-        payloadWriter.write(serENC);
+        payloadWriter.write(this.serializeBody());
 
         // Envelope payload
         let envelope: Buffer; 
@@ -985,7 +2024,7 @@ class NetTaskMetric extends NetTask {
             envelope = ECDHE.serializeEncryptedMessage(this.ecdhe.envelope(payloadWriter.finish()));
             this.payloadSize = envelope.byteLength;
         } catch (e) {
-            throw new Error(`[NT_PushSchemas] Serialization Error: Crypto error:`, { cause: e });
+            throw new Error(`[NT_RequestMetrics] Serialization Error: Crypto error:`, { cause: e });
         }
 
         const pubHeader = super.serializePublicHeader();
@@ -996,11 +2035,9 @@ class NetTaskMetric extends NetTask {
         return dgramWriter.finish();
     }
 
-    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask, configTasks: object): NetTaskMetric {
-        // const logger = getOrCreateGlobalLogger();
-
-        if (dg.getType() != NetTaskDatagramType.SEND_METRICS) {
-            throw new Error(`[NT_PushSchemas] Deserialization Error: Not a PushSchemas datagram.`);
+    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask): NetTaskRequestMetrics {
+        if (dg.getType() != NetTaskDatagramType.REQUEST_METRICS) {
+            throw new Error(`[NT_RequestMetrics] Deserialization Error: Not a RequestMetrics datagram.`);
         }
 
         const serEncLen = reader.readUInt32();
@@ -1009,49 +2046,39 @@ class NetTaskMetric extends NetTask {
         const message = ecdhe.decrypt(desMessage);
         const messageReader = new BufferReader(message);
 
-        // logger.log("[NT_PushSchemas] MESSAGE:", message);
-
-        const metric = { taskId: "", metrics: <SPACKTaskMetric>{} };
+        let requestId: number, taskId: string;
         try {
+            requestId = messageReader.readUInt32();
             const taskIdLen = messageReader.readUInt32();
-            metric.taskId = messageReader.read(taskIdLen).toString("utf8");
-
-            const spackLen = messageReader.readUInt32();
-            const rawSpack = messageReader.read(spackLen);
-
-            metric.metrics = deserializeTaskMetric(
-                rawSpack, 
-                // In order to not import stuff from server into common, we do this hack to simply accept whatever.
-                // It's the responsability of the user to guarantee this doesn't explode on their hands.
-                <never>(<Record<string, unknown>>configTasks)[<keyof typeof configTasks>metric.taskId]
-            );
+            taskId = messageReader.read(taskIdLen).toString("utf8");
         } catch (e) {
-            throw new Error(`[NT_Metric] Malformed NetTaskMetric packet: Malformed schema payload.`, { cause: e });
+            throw new Error(`[NT_RequestMetrics] Deserialization Error: Malformed RequestMetrics payload.`, { cause: e });
         }
 
-        return new NetTaskMetric(
+        return new NetTaskRequestMetrics(
             dg.getSessionId(), 
             dg.getSequenceNumber(), 
-            dg.getAcknowledgementNumber(), 
-            dg.getNAcknowledgementNumber(), 
-            dg.getMoreFragmentsFlag(), 
-            dg.getOffset(),
-            metric.metrics,
-            metric.taskId,
-            <never>(<Record<string, unknown>>configTasks)[<keyof typeof configTasks>metric.taskId]
+            dg.getAcknowledgementNumber(),
+            requestId,
+            taskId
         );
     }
 }
 
-class NetTaskWake extends NetTask {
-    private ecdhe?: ECDHE;
-    private newSeq: number;
+/**
+ * This class represents the answer of an agent to a {@link NetTaskRequestMetrics} datagram, stating whether
+ * the requested task is going to be run. Accepted requests are later followed by a {@link NetTaskResponseMetrics}.
+ */
+class NetTaskResponseTask extends NetTask {
+    private requestId: number;
+    private status: NetTaskRequestStatus;
 
     public constructor(
         sessionId: Buffer,
         sequenceNumber: number,
         acknowledgementNumber: number,
-        newSeq: number
+        requestId: number,
+        status: NetTaskRequestStatus
     ) {
         super(
             sessionId,
@@ -1061,35 +2088,144 @@ class NetTaskWake extends NetTask {
             0, 
             false,
             0, 
-            NetTaskDatagramType.WAKE,
+            NetTaskDatagramType.RESPONSE_TASK,
             0
         );
 
-        this.newSeq = newSeq;
+        this.requestId = requestId;
+        this.status = status;
     }
 
-    public link(ecdhe: ECDHE): this {
-        this.ecdhe = ecdhe;
-        return this;
+    public getRequestId() { return this.requestId; }
+    public getStatus() { return this.status; }
+
+    protected serializeBody(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_ResponseTask] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const payloadCompound = Buffer.alloc(5);
+        payloadCompound.writeUInt32BE(this.requestId);
+        payloadCompound.writeUInt8(this.status, 4);
+
+        const enc = this.ecdhe.encrypt(payloadCompound);
+        const serENC = ECDHE.serializeEncryptedMessage(enc);
+
+        const bodyWriter = new BufferWriter();
+        bodyWriter.writeUInt32(serENC.byteLength);
+        bodyWriter.write(serENC);
+
+        return bodyWriter.finish();
     }
 
     public serialize() {
         if (!this.ecdhe) {
-            throw new Error(`[NT_Wake] Serialization Error: Datagram not linked against an ECDHE instance.`);
+            throw new Error(`[NT_ResponseTask] Serialization Error: Datagram not linked against an ECDHE instance.`);
         }
 
-        const seqBuf = Buffer.alloc(4);
-        seqBuf.writeUInt32BE(this.newSeq);
+        const payloadWriter = new BufferWriter();
+        const privHeader = super.serializePrivateHeader();
+        payloadWriter.write(privHeader);
+        payloadWriter.write(this.serializeBody());
 
-        const payloadCompount = Buffer.concat([NET_TASK_WAKE_PING, seqBuf]);
-        const enc = this.ecdhe.encrypt(payloadCompount);
+        // Envelope payload
+        let envelope: Buffer; 
+        try {
+            envelope = ECDHE.serializeEncryptedMessage(this.ecdhe.envelope(payloadWriter.finish()));
+            this.payloadSize = envelope.byteLength;
+        } catch (e) {
+            throw new Error(`[NT_ResponseTask] Serialization Error: Crypto error:`, { cause: e });
+        }
+
+        const pubHeader = super.serializePublicHeader();
+        const dgramWriter = new BufferWriter();
+        dgramWriter.write(pubHeader);
+        dgramWriter.write(envelope);
+
+        return dgramWriter.finish();
+    }
+
+    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask): NetTaskResponseTask {
+        if (dg.getType() != NetTaskDatagramType.RESPONSE_TASK) {
+            throw new Error(`[NT_ResponseTask] Deserialization Error: Not a ResponseTask datagram.`);
+        }
+
+        const serEncLen = reader.readUInt32();
+        const serEnc = reader.read(serEncLen);
+        const desMessage = ECDHE.deserializeEncryptedMessage(serEnc);
+        const message = ecdhe.decrypt(desMessage);
+
+        if (message.byteLength !== 5 || !(message.readUInt8(4) in NetTaskRequestStatus)) {
+            throw new Error(`[NT_ResponseTask] Deserialization Error: Malformed ResponseTask payload.`);
+        }
+
+        return new NetTaskResponseTask(
+            dg.getSessionId(), 
+            dg.getSequenceNumber(), 
+            dg.getAcknowledgementNumber(),
+            message.readUInt32BE(),
+            message.readUInt8(4)
+        );
+    }
+}
+
+/**
+ * This class represents the request of the server to rotate the keys of a session. Carries the salt the new keys are
+ * derived from, encrypted with the keys being replaced, which the agent confirms with a {@link NetTaskRekeyAck}.
+ * 
+ * **NOTE:** Must be linked against a {@link ECDHE.snapshot|snapshot} of the keys being replaced, so that it stays
+ * readable by the agent when retransmitted after the server rotated it's keys.
+ */
+class NetTaskRekey extends NetTask {
+    private salt: Buffer;
+
+    public constructor(
+        sessionId: Buffer,
+        sequenceNumber: number,
+        acknowledgementNumber: number,
+        salt: Buffer
+    ) {
+        super(
+            sessionId,
+            NET_TASK_CRYPTO,
+            sequenceNumber,
+            acknowledgementNumber,
+            0, 
+            false,
+            0, 
+            NetTaskDatagramType.REKEY,
+            0
+        );
+
+        this.salt = salt;
+    }
+
+    public getSalt() { return this.salt; }
+
+    protected serializeBody(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_Rekey] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const enc = this.ecdhe.encrypt(this.salt);
         const serENC = ECDHE.serializeEncryptedMessage(enc);
 
+        const bodyWriter = new BufferWriter();
+        bodyWriter.writeUInt32(serENC.byteLength);
+        bodyWriter.write(serENC);
+
+        return bodyWriter.finish();
+    }
+
+    public serialize(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_Rekey] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
         const payloadWriter = new BufferWriter();
         const privHeader = super.serializePrivateHeader();
         payloadWriter.write(privHeader);
-        payloadWriter.writeUInt32(serENC.byteLength);
-        payloadWriter.write(serENC);
+        payloadWriter.write(this.serializeBody());
 
         // Envelope payload
         let envelope: Buffer; 
@@ -1097,7 +2233,7 @@ class NetTaskWake extends NetTask {
             envelope = ECDHE.serializeEncryptedMessage(this.ecdhe.envelope(payloadWriter.finish()));
             this.payloadSize = envelope.byteLength;
         } catch (e) {
-            throw new Error(`[NT_Wake] Serialization Error: Crypto error:`, { cause: e });
+            throw new Error(`[NT_Rekey] Serialization Error: Crypto error:`, { cause: e });
         }
 
         const pubHeader = super.serializePublicHeader();
@@ -1108,49 +2244,144 @@ class NetTaskWake extends NetTask {
         return dgramWriter.finish();
     }
 
-    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask): NetTaskWake {
-        if (dg.getType() != NetTaskDatagramType.WAKE) {
-            throw new Error(`[NT_Wake] Deserialization Error: Not a Wake datagram.`);
+    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask): NetTaskRekey {
+        if (dg.getType() != NetTaskDatagramType.REKEY) {
+            throw new Error(`[NT_Rekey] Deserialization Error: Not a Rekey datagram.`);
         }
 
         const serEncLen = reader.readUInt32();
         const serEnc = reader.read(serEncLen);
         const desMessage = ECDHE.deserializeEncryptedMessage(serEnc);
         const message = ecdhe.decrypt(desMessage);
-        const messageReader = new BufferReader(message);
-
-        const ping = messageReader.read(NET_TASK_WAKE_PING.byteLength);
-        const newSeq = messageReader.readUInt32();
 
-        if (!ping.equals(NET_TASK_WAKE_PING)) {
-            throw new Error(`[NT_Wake] Deserialization Error: Wake Datagram payload broken or invalid.`);
+        if (message.byteLength === 0) {
+            throw new Error(`[NT_Rekey] Deserialization Error: Malformed Rekey payload.`);
         }
 
-        return new NetTaskWake(
+        return new NetTaskRekey(
             dg.getSessionId(), 
-            newSeq, 
+            dg.getSequenceNumber(), 
             dg.getAcknowledgementNumber(),
+            message
+        );
+    }
+}
+
+/**
+ * This class represents the confirmation of an agent that the keys of a session were rotated, carrying the salt
+ * received on the {@link NetTaskRekey}. Encrypted with the new keys, proving the agent derived them.
+ */
+class NetTaskRekeyAck extends NetTask {
+    private salt: Buffer;
+
+    public constructor(
+        sessionId: Buffer,
+        sequenceNumber: number,
+        acknowledgementNumber: number,
+        salt: Buffer
+    ) {
+        super(
+            sessionId,
+            NET_TASK_CRYPTO,
+            sequenceNumber,
+            acknowledgementNumber,
+            0, 
+            false,
+            0, 
+            NetTaskDatagramType.ACK_REKEY,
             0
         );
+
+        this.salt = salt;
     }
 
-    public static makeNewSeq() {
-        return Math.floor(Math.random() * (2 ** 32 - 1)) + 1;
+    public getSalt() { return this.salt; }
+
+    protected serializeBody(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_RekeyAck] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const enc = this.ecdhe.encrypt(this.salt);
+        const serENC = ECDHE.serializeEncryptedMessage(enc);
+
+        const bodyWriter = new BufferWriter();
+        bodyWriter.writeUInt32(serENC.byteLength);
+        bodyWriter.write(serENC);
+
+        return bodyWriter.finish();
+    }
+
+    public serialize(): Buffer {
+        if (!this.ecdhe) {
+            throw new Error(`[NT_RekeyAck] Serialization Error: Datagram not linked against an ECDHE instance.`);
+        }
+
+        const payloadWriter = new BufferWriter();
+        const privHeader = super.serializePrivateHeader();
+        payloadWriter.write(privHeader);
+        payloadWriter.write(this.serializeBody());
+
+        // Envelope payload
+        let envelope: Buffer; 
+        try {
+            envelope = ECDHE.serializeEncryptedMessage(this.ecdhe.envelope(payloadWriter.finish()));
+            this.payloadSize = envelope.byteLength;
+        } catch (e) {
+            throw new Error(`[NT_RekeyAck] Serialization Error: Crypto error:`, { cause: e });
+        }
+
+        const pubHeader = super.serializePublicHeader();
+        const dgramWriter = new BufferWriter();
+        dgramWriter.write(pubHeader);
+        dgramWriter.write(envelope);
+
+        return dgramWriter.finish();
+    }
+
+    public static deserialize(reader: BufferReader, ecdhe: ECDHE, dg: NetTask): NetTaskRekeyAck {
+        if (dg.getType() != NetTaskDatagramType.ACK_REKEY) {
+            throw new Error(`[NT_RekeyAck] Deserialization Error: Not a RekeyAck datagram.`);
+        }
+
+        const serEncLen = reader.readUInt32();
+        const serEnc = reader.read(serEncLen);
+        const desMessage = ECDHE.deserializeEncryptedMessage(serEnc);
+        const message = ecdhe.decrypt(desMessage);
+
+        return new NetTaskRekeyAck(
+            dg.getSessionId(), 
+            dg.getSequenceNumber(), 
+            dg.getAcknowledgementNumber(),
+            message
+        );
     }
 }
 
 export {
+    type NetTaskSackRange,
+
     NetTaskDatagramType,
     NetTaskRejectedReason,
+    NetTaskRequestStatus,
 
     NetTask,
+    NetTaskSelectiveAck,
+    NetTaskFragment,
     NetTaskRejected,
     NetTaskReset,
     NetTaskRegister,
     NetTaskRegisterChallenge,
     NetTaskRegisterChallenge2,
     NetTaskPushSchemas,
+    NetTaskUpdateSchemas,
+    NetTaskSchemasAck,
     NetTaskMetric,
+    NetTaskResponseMetrics,
+    NetTaskRequestMetrics,
+    NetTaskResponseTask,
+    NetTaskRekey,
+    NetTaskRekeyAck,
     NetTaskWake,
     NetTaskBodyless
 };
\ No newline at end of file
@@ -15,7 +15,7 @@ import { BufferReader, BufferWriter } from "$common/util/buffer.js";
 import { parseStringInterval } from "$common/util/date.js";
 import { getOrCreateGlobalLogger } from "$common/util/logger.js";
 import { AssertUniqueProperty, dropEmpty, GenericObject } from "$common/util/object.js";
-import { Task } from "../../server/config.js";
+import { AlertThreshold, Task } from "../../server/config.js";
 
 //#region ============== Types ==============
 /**
@@ -103,7 +103,8 @@ const DEFAULT_TASK = <Task><unknown>{
         "ram_usage": UNDEFINED,
         "interface_stats": UNDEFINED,
         "packet_loss": UNDEFINED,
-        "jitter": UNDEFINED
+        "jitter": UNDEFINED,
+        "latency": UNDEFINED
     }
 } satisfies Partial<Task>;
 
@@ -221,6 +222,8 @@ enum SPACKTaskKey {
     RAM_USAGE = "ram_usage",
     INTERFACE_STATS = "interface_stats",
     VOLUME = "volume",
+    WARNING = "warning",
+    CRITICAL = "critical",
     _NAMED_KEY = "::NAMED_KEY::"
 };
 /**
@@ -261,6 +264,8 @@ const SPACKTaskKeyMap = {
     [SPACKTaskKey.RAM_USAGE]:        { id: 18, packer: nilpack, unpacker: nilpack },
     [SPACKTaskKey.INTERFACE_STATS]:  { id: 19, packer: packInterfaceStats, unpacker: unpackInterfaceStats },
     [SPACKTaskKey.VOLUME]:           { id: 20, packer: nilpack, unpacker: nilpack },
+    [SPACKTaskKey.WARNING]:          { id: 21, packer: nilpack, unpacker: nilpack },
+    [SPACKTaskKey.CRITICAL]:         { id: 22, packer: nilpack, unpacker: nilpack },
     [SPACKTaskKey._NAMED_KEY]:       { id: 255, packer: nilpack, unpacker: nilpack },
 } as const satisfies Record<SPACKTaskKey, SPACKMapEntry>;
 type SPACKTaskKeyMap = typeof SPACKTaskKeyMap;
@@ -491,6 +496,7 @@ function packGlobalOptions(value: unknown): SPACKTaskPackedObject {
         } else { // Device reference
             const device = global.config.devices[value[SPACKTaskKey.TARGET]];
             if (!device) throw new SPACKError(`Packing error: Invalid device reference for property '${SPACKTaskKey.TARGET}'.`);
+            if (!device.ip) throw new SPACKError(`Packing error: Device referenced by property '${SPACKTaskKey.TARGET}' has no IP.`);
 
             ip = device.ip;
         }
@@ -596,40 +602,63 @@ function unpackLinkMetrics(value: SPACKTaskPackedObject): Record<string, unknown
     return unpacked;
 }
 
+/**
+ * The severities of the thresholds of an alert condition, in the order they are packed.
+ */
+const _ALERT_SEVERITY_KEYS = [SPACKTaskKey.WARNING, SPACKTaskKey.CRITICAL] as const;
+
+/**
+ * Packs the {@link AlertThreshold|Thresholds} of an Alert Condition.
+ */
+function packAlertThreshold(value: AlertThreshold): SPACKTaskPackedObject {
+    const packed: SPACKTaskPackedObject = {};
+    for (const severity of _ALERT_SEVERITY_KEYS) {
+        if (value[severity] !== undefined) packed[ID(severity)] = value[severity];
+    }
+
+    return packed;
+}
+
+/**
+ * Unpacks the {@link AlertThreshold|Thresholds} of an Alert Condition.
+ */
+function unpackAlertThreshold(value: SPACKTaskPackedObject): AlertThreshold {
+    const unpacked: AlertThreshold = {};
+    for (const severity of _ALERT_SEVERITY_KEYS) {
+        if (ID(severity) in value) unpacked[severity] = <number>value[ID(severity)];
+    }
+
+    return unpacked;
+}
+
 /**
  * A {@link SPACKPacker} that packs {@link Task.alert_conditions|Alert Condition}.
  */
 function packAlertConditions(value: unknown): SPACKTaskPackedObject {
     if (typeof value !== "object" || value === null) throw new SPACKError("Packing error: Unexpected value.");
 
+    const conditions = <Record<string, AlertThreshold>>value;
     const packed: SPACKTaskPackedObject = {};
 
-    let hasCR = false;
-    let crShort = 0 & 0;
-    if (SPACKTaskKey.CPU_USAGE in value) {
-        hasCR = true;
-        crShort |= <number>value[SPACKTaskKey.CPU_USAGE];
-    }
-    if (SPACKTaskKey.RAM_USAGE in value) {
-        hasCR = true;
-        crShort |= <number>value[SPACKTaskKey.RAM_USAGE] << 8;
-    }
-    if (hasCR) packed[ID(SPACKTaskKey.CPU_USAGE)] = crShort;
-
-    if (SPACKTaskKey.INTERFACE_STATS in value) {
-        packed[ID(SPACKTaskKey.INTERFACE_STATS)] = <number>value[SPACKTaskKey.INTERFACE_STATS];
-    }
+    // CPU and RAM usage are percentages, packed together into a short for each severity.
+    if (SPACKTaskKey.CPU_USAGE in value || SPACKTaskKey.RAM_USAGE in value) {
+        const cpu = conditions[SPACKTaskKey.CPU_USAGE] ?? {};
+        const ram = conditions[SPACKTaskKey.RAM_USAGE] ?? {};
 
-    if (SPACKTaskKey.PACKET_LOSS in value) {
-        packed[ID(SPACKTaskKey.PACKET_LOSS)] = <number>value[SPACKTaskKey.PACKET_LOSS];
-    }
+        const crShorts: SPACKTaskPackedObject = {};
+        for (const severity of _ALERT_SEVERITY_KEYS) {
+            if (cpu[severity] === undefined && ram[severity] === undefined) continue;
 
-    if (SPACKTaskKey.JITTER in value) {
-        packed[ID(SPACKTaskKey.JITTER)] = <number>value[SPACKTaskKey.JITTER];
+            let crShort = 0 & 0;
+            crShort |= cpu[severity] ?? 0;
+            crShort |= (ram[severity] ?? 0) << 8;
+            crShorts[ID(severity)] = crShort;
+        }
+        packed[ID(SPACKTaskKey.CPU_USAGE)] = crShorts;
     }
 
-    if (SPACKTaskKey.LATENCY in value) {
-        packed[ID(SPACKTaskKey.LATENCY)] = <number>value[SPACKTaskKey.LATENCY];
+    for (const key of [SPACKTaskKey.INTERFACE_STATS, SPACKTaskKey.PACKET_LOSS, SPACKTaskKey.JITTER, SPACKTaskKey.LATENCY]) {
+        if (key in value) packed[ID(key)] = packAlertThreshold(conditions[key]);
     }
 
     return packed;
@@ -638,31 +667,27 @@ function packAlertConditions(value: unknown): SPACKTaskPackedObject {
  * A {@link SPACKUnpacker} that unpacks {@link Task.alert_conditions|Alert Conditions}.
  */
 function unpackAlertConditions(value: SPACKTaskPackedObject): Record<string, unknown> {
-    const unpacked: Record<string, unknown> = {};
+    const unpacked: Record<string, AlertThreshold> = {};
 
     if (ID(SPACKTaskKey.CPU_USAGE) in value) {
-        const crShort = <number>value[ID(SPACKTaskKey.CPU_USAGE)];
-        unpacked[SPACKTaskKey.CPU_USAGE] = crShort & 255;
-        unpacked[SPACKTaskKey.RAM_USAGE] = crShort >> 8 & 255;
+        const crShorts = <SPACKTaskPackedObject>value[ID(SPACKTaskKey.CPU_USAGE)];
+        const cpu: AlertThreshold = {};
+        const ram: AlertThreshold = {};
 
-        if (unpacked[SPACKTaskKey.CPU_USAGE] === 0) delete unpacked[SPACKTaskKey.CPU_USAGE];
-        if (unpacked[SPACKTaskKey.RAM_USAGE] === 0) delete unpacked[SPACKTaskKey.RAM_USAGE];
-    }
+        for (const severity of _ALERT_SEVERITY_KEYS) {
+            if (!(ID(severity) in crShorts)) continue;
 
-    if (ID(SPACKTaskKey.INTERFACE_STATS) in value) {
-        unpacked[SPACKTaskKey.INTERFACE_STATS] = value[ID(SPACKTaskKey.INTERFACE_STATS)];
-    }
-
-    if (ID(SPACKTaskKey.PACKET_LOSS) in value) {
-        unpacked[SPACKTaskKey.PACKET_LOSS] = value[ID(SPACKTaskKey.PACKET_LOSS)];
-    }
+            const crShort = <number>crShorts[ID(severity)];
+            if ((crShort & 255) !== 0) cpu[severity] = crShort & 255;
+            if ((crShort >> 8 & 255) !== 0) ram[severity] = crShort >> 8 & 255;
+        }
 
-    if (ID(SPACKTaskKey.JITTER) in value) {
-        unpacked[SPACKTaskKey.JITTER] = value[ID(SPACKTaskKey.JITTER)];
+        if (Object.keys(cpu).length > 0) unpacked[SPACKTaskKey.CPU_USAGE] = cpu;
+        if (Object.keys(ram).length > 0) unpacked[SPACKTaskKey.RAM_USAGE] = ram;
     }
 
-    if (ID(SPACKTaskKey.LATENCY) in value) {
-        unpacked[SPACKTaskKey.LATENCY] = value[ID(SPACKTaskKey.LATENCY)];
+    for (const key of [SPACKTaskKey.INTERFACE_STATS, SPACKTaskKey.PACKET_LOSS, SPACKTaskKey.JITTER, SPACKTaskKey.LATENCY]) {
+        if (ID(key) in value) unpacked[key] = unpackAlertThreshold(<SPACKTaskPackedObject>value[ID(key)]);
     }
 
     return unpacked;
@@ -944,6 +969,15 @@ function deserializeSPACK(ser: Buffer | BufferReader): SPACKPacked {
 
 //#region ============== Metric Schema ==============
 interface SPACKTaskMetric {
+    /**
+     * Time, in milliseconds since the epoch, at which the metrics were sampled, as measured by the clock of the agent.
+     */
+    timestamp?: number,
+    /**
+     * Difference, in milliseconds, between the clock of the receiver and the clock of the agent. Not serialized, it is
+     * estimated on deserialization from the time the metrics were sent at, and includes the transmission delay.
+     */
+    clock_offset?: number,
     device_metrics?: {
         cpu_usage?: number,
         ram_usage?: number,
@@ -1047,6 +1081,10 @@ function serializedTaskMetric(metric: SPACKTaskMetric, task: Partial<Task>): Buf
     const writer = new BufferWriter();
     ;(() => TASK_METRIC_SCHEMA)();
 
+    const timestampBuf = Buffer.alloc(8);
+    timestampBuf.writeBigUInt64BE(BigInt(metric.timestamp ?? Date.now()));
+    writer.write(timestampBuf);
+
     // Sanity checks
     if ("device_metrics" in task) {
         if (!("device_metrics" in metric)) 
@@ -1115,16 +1153,27 @@ function serializedTaskMetric(metric: SPACKTaskMetric, task: Partial<Task>): Buf
     return writer.finish();
 }
 
-function deserializeTaskMetric(metric: Buffer, task: Partial<Task>) {
+/**
+ * Deserializes the metrics serialized with {@link serializedTaskMetric}.
+ * 
+ * @param metric The serialized metrics.
+ * @param task The task the metrics were collected for.
+ * @param sentAt The time, in milliseconds since the epoch, at which the metrics were sent, as measured by the clock 
+ * of the agent. Used to estimate the clock offset of the agent. If ommited, the offset is assumed to be 0.
+ */
+function deserializeTaskMetric(metric: Buffer, task: Partial<Task>, sentAt?: number) {
     // const logger = getOrCreateGlobalLogger();
 
+    const reader = new BufferReader(metric);
+    const timestamp = Number(reader.read(8).readBigUInt64BE());
+
     const unpacked = {
+        timestamp,
+        clock_offset: sentAt !== undefined ? Date.now() - sentAt : 0,
         device_metrics: <Record<string, unknown>>{},
         link_metrics: <Record<string, unknown>>{}
     };
 
-    const reader = new BufferReader(metric);
-
     if ("device_metrics" in task) {
         for (const key in task.device_metrics) {
             if (!task.device_metrics[<keyof typeof task.device_metrics>key]) continue;
@@ -6,11 +6,11 @@
  * Copyright (c) 2024 Pauloarf https://github.com/Pauloarf
  */
 
-import mongoose, { Model } from "mongoose";
+import mongoose, { Model, mongo } from "mongoose";
 import { IDevice } from "./interfaces/IDevice.js";
 import { ITask } from "./interfaces/ITask.js";
 import { getOrCreateGlobalLogger } from "$common/util/logger.js";
-import { addMetrics, createMetrics, IMetric, IMetrics } from "./interfaces/IMetrics.js";
+import { addMetrics, createMetrics, IAlertState, IAlertUpdate, IMetric, IMetrics, updateAlertStates } from "./interfaces/IMetrics.js";
 import deviceModel from "./models/deviceModel.js";
 import taskModel from "./models/taskModel.js";
 import metricsModel from "./models/IMetricsModel.js";
@@ -18,6 +18,16 @@ import metricsModel from "./models/IMetricsModel.js";
 //const MONGO_URL = "mongodb://localhost:27017/CCDatabase";
 const MONGO_URL = "mongodb://192.168.56.101:27017/CCDatabase";
 
+/**
+ * Number of alert ids kept per metrics entry to detect duplicated alerts.
+ */
+const MAX_STORED_ALERT_IDS = 1024;
+
+/**
+ * Error code of a MongoDB write that violates an unique index.
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
 /**
  * A Data access object that establishes connection with a MongoDB database,
  * serving as a gateway to transfer information between the database and the application.
@@ -76,10 +86,10 @@ class DatabaseDAO {
      */
     public async storeDevice(values: Partial<IDevice>): Promise<number> {
         try{
-            const foundDevice = await this.deviceModel.findOne({ ip: values.ip });
+            const foundDevice = await this.deviceModel.findOne({ name: values.name });
             
             if (foundDevice) {
-                this.updateDevice(foundDevice.ip, values);
+                this.updateDevice(foundDevice.name, values);
                 await foundDevice.save();
                 return foundDevice.id;
             }
@@ -95,7 +105,7 @@ class DatabaseDAO {
             await device.save();
             return newId;
         } catch {
-            throw Error(`Error storing device with id:${values.ip} in database`);
+            throw Error(`Error storing device with name:${values.name} in database`);
         }
     }
     
@@ -113,6 +123,15 @@ class DatabaseDAO {
         return device;
     }
 
+    /**
+     * Retrieves a device by its name on the config.
+     * @param {string} name - The name of the device.
+     * @returns {Promise<IDevice | null>} The device data, or null if not found.
+     */
+    public async getDeviceByName(name: string): Promise<IDevice | null> {
+        return await this.deviceModel.findOne({ name: name });
+    }
+
     /**
      * Retrieves a device by its unique identifier.
      * @param {number} id - The unique identifier of the device.
@@ -140,25 +159,38 @@ class DatabaseDAO {
 
     /**
      * Updates an existing device with new values using `findOneAndUpdate`.
-     * Excludes `ip` and `id` from updates.
-     * @param {string} ip - The IP address of the device to update.
+     * Excludes `name` and `id` from updates.
+     * @param {string} name - The name of the device to update.
      * @param {Partial<IDevice>} new_device - The new data to update the device with.
      * @returns {Promise<IDevice | null>} - The updated device, or null if not found.
      * @throws Error when not able to update the device.
      */
-    public async updateDevice(ip: string, new_device: Partial<IDevice>): Promise<IDevice | null> {
+    public async updateDevice(name: string, new_device: Partial<IDevice>): Promise<IDevice | null> {
         try {
-            const { ip: _, id, ...updatableFields } = new_device;
+            const { name: _, id, ...updatableFields } = new_device;
 
             const updatedDevice = await this.deviceModel.findOneAndUpdate(
-                { ip },
+                { name },
                 { $set: updatableFields },
                 { new: true }
             );
 
             return updatedDevice;
         } catch {
-            throw new Error(`Error updating device with ip;${new_device.ip}`);
+            throw new Error(`Error updating device with name;${name}`);
+        }
+    }
+
+    /**
+     * Forgets the session of a device, so that it can no longer be revived.
+     * @param {string} name - The name of the device.
+     * @throws Error when not able to update the device.
+     */
+    public async removeDeviceSession(name: string): Promise<void> {
+        try {
+            await this.deviceModel.updateOne({ name }, { $unset: { "auth.sessionId": "", "auth.registration": "" } });
+        } catch {
+            throw new Error(`Error removing session of device with name:${name}`);
         }
     }
 
@@ -335,6 +367,124 @@ class DatabaseDAO {
         }
     }
 
+    /**
+     * Adds the metrics carried by an alert to a metrics entry in the database, along with the id of the alert
+     * and the change to the state of the alerts of it's metrics, in a single atomic write. Alerts already added are
+     * ignored, even if added concurrently.
+     * @param {number} taskID - The task ID associated with the metrics.
+     * @param {number} deviceID - The session ID of the device.
+     * @param {string} alertId - The id of the alert, unique per agent.
+     * @param {Object} newMetrics - The new metrics data to add.
+     * @param {IAlertUpdate} update - The change to the state of the alerts carried by the alert.
+     * @returns {Promise<boolean>} True if the alert was added, or false if it had already been added.
+     * @throws Will throw an error if the update fails.
+     */
+    public async addAlertToExisting(
+        taskID: number,
+        deviceID: number,
+        alertId: string,
+        newMetrics: IMetric,
+        update: IAlertUpdate
+    ): Promise<boolean> {
+        const fields: Record<string, unknown> = {
+            alerts: { $slice: [{ $concatArrays: [{ $ifNull: ["$alerts", []] }, [alertId]] }, -MAX_STORED_ALERT_IDS] },
+            ...updateAlertStates(update)
+        };
+
+        for (const [metricName, { valor, timestamp, alert }] of Object.entries(newMetrics)) {
+            const path = `metrics.${metricName}.metric`;
+            fields[path] = { $concatArrays: [
+                { $ifNull: [`$${path}`, []] },
+                [{ value: { $literal: valor }, timestamp: timestamp, alert: { $literal: alert } }]
+            ] };
+        }
+
+        try {
+            // The entry is only matched if the alert was not added yet, so that the check and the write happen as
+            // a single operation. An alert already added fails to match and the upsert collides with the entry.
+            const result = await this.metricsModel.updateOne(
+                { taskID, deviceID, alerts: { $ne: alertId } },
+                [{ $set: { metrics: { $ifNull: ["$metrics", {}] } } }, { $set: fields }],
+                { upsert: true }
+            );
+
+            return result.matchedCount > 0 || result.upsertedCount > 0;
+        } catch (error) {
+            if (error instanceof mongo.MongoServerError && error.code === DUPLICATE_KEY_ERROR) return false;
+
+            this.logger.error(error);
+            throw new Error("Failed to add alert.");
+        }
+    }
+
+    /**
+     * Retrieves the alerts firing on a device, on every task. The alerts of interfaces are named
+     * `interface_stats.<interface>`.
+     * @param {number} deviceID - The ID of the device.
+     * @returns {Promise<Array>} The alerts firing, along with the task and metric they fire on.
+     * @throws Will throw an error if retrieval fails.
+     */
+    public async getOpenAlerts(deviceID: number): Promise<({ taskID: number, metric: string } & IAlertState)[]> {
+        try {
+            const entries = await this.metricsModel.find({ deviceID });
+
+            return entries.flatMap(entry => Object.entries(entry.alertStates ?? {})
+                .flatMap(([metric, alert]) => "state" in alert
+                    ? [<[string, IAlertState]>[metric, alert]]
+                    : Object.entries(alert).map(([iface, ifAlert]) => <[string, IAlertState]>[`${metric}.${iface}`, ifAlert])
+                )
+                .filter(([, alert]) => alert.state === "firing")
+                .map(([metric, alert]) => ({ taskID: entry.taskID, metric, ...alert }))
+            );
+        } catch (error) {
+            this.logger.error(error);
+            throw new Error("Failed to retrieve open alerts.");
+        }
+    }
+
+    /**
+     * Resolves the alerts firing on a task, on a single device or on every device running it. Used when the task
+     * stops on the agents, since alerts left firing by a task that no longer runs would never be resolved by them.
+     * States changed after the given timestamp are kept.
+     * @param {number} taskID - The ID of the task.
+     * @param {number} [deviceID] - The ID of the device, or undefined for every device.
+     * @param {Date} [timestamp] - The moment the alerts were resolved.
+     * @throws Will throw an error if the update fails.
+     */
+    public async resolveOpenAlerts(taskID: number, deviceID?: number, timestamp: Date = new Date()): Promise<void> {
+        try {
+            const entries = await this.metricsModel.find(deviceID === undefined ? { taskID } : { taskID, deviceID });
+
+            for (const entry of entries) {
+                const fields: Record<string, unknown> = {};
+                for (const [metric, alert] of Object.entries(entry.alertStates ?? {})) {
+                    const states = "state" in alert
+                        ? [<[string, IAlertState]>[metric, alert]]
+                        : Object.entries(alert).map(([iface, ifAlert]) => <[string, IAlertState]>[`${metric}.${iface}`, ifAlert]);
+
+                    for (const [path, state] of states) {
+                        if (state.state !== "firing") continue;
+
+                        const current = `$alertStates.${path}`;
+                        fields[`alertStates.${path}`] = {
+                            $cond: [
+                                { $gt: [`${current}.updatedAt`, timestamp] },
+                                current,
+                                { $mergeObjects: [current, { state: { $literal: "resolved" }, updatedAt: timestamp }] }
+                            ]
+                        };
+                    }
+                }
+                if (Object.keys(fields).length === 0) continue;
+
+                await this.metricsModel.updateOne({ _id: entry._id }, [{ $set: fields }]);
+            }
+        } catch (error) {
+            this.logger.error(error);
+            throw new Error("Failed to resolve open alerts.");
+        }
+    }
+
     /**
      * Removes a metrics entry by taskID and deviceID.
      * @param {number} taskID - The ID of the task.
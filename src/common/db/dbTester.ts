@@ -8,20 +8,24 @@ async function testDeviceOperations(db: DatabaseDAO) {
     const logger = getOrCreateGlobalLogger();
 
     const newDevice = createDevice(
+        "device1",
         "192.168.1.1",
         8080,
         Buffer.from("secret123"),
         Buffer.from("salt456"),
         Buffer.from("session789"),
+        "aes-256-gcm",
         new Date()
     );
 
     const newDevice2 = createDevice(
+        "device2",
         "ipdiferente",
         8080,
         Buffer.from("secret123"),
         Buffer.from("salt456"),
         Buffer.from("askndansd"),
+        "aes-256-gcm",
         new Date()
     );
 
@@ -33,7 +37,7 @@ async function testDeviceOperations(db: DatabaseDAO) {
     const deviceByIP = await db.getDeviceByIP("192.168.1.1");
     if (deviceByIP) logger.log("Retrieved Device by IP:", deviceToString(deviceByIP));
 
-    const updatedDevice = await db.updateDevice("192.168.1.1", { port: 9090 });
+    const updatedDevice = await db.updateDevice("device1", { port: 9090 });
     if (updatedDevice) logger.log("Updated Device:", deviceToString(updatedDevice));
 
     //const removedDevice = await db.removeDevice(deviceId);
@@ -48,7 +52,7 @@ async function testTaskOperations(db: DatabaseDAO) {
         ["cpu", "memory"],
         createOptions(IPERF_MODE.CLIENT),
         createLinkMetrics(["asdasd", "bandwith", "test"], [createOptions(IPERF_MODE.SERVER), createOptions(undefined), createOptions(undefined, undefined, undefined, undefined, undefined, 42)]),
-        createAlertConditions(undefined,undefined,undefined,undefined,undefined,15)
+        createAlertConditions(undefined,undefined,undefined,undefined,undefined,{ critical: 15 })
     );
     logger.log("Retrieved Task by ID:", newTask);
 
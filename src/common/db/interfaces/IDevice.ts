@@ -1,17 +1,46 @@
 import { Document } from "mongoose";
 
+/**
+ * The claims an agent made when registering, kept so that the agent can be authenticated again when it's session
+ * is revived.
+ */
+interface IDeviceRegistration {
+    /**
+     * The name of the device the agent claimed to be, if any.
+     */
+    name?: string;
+    address: string;
+    transcript: Buffer;
+    proof?: Buffer;
+}
+
 /**
  * Interface representing a Device document in the database.
  * Extends the Mongoose Document interface to allow direct usage with MongoDB.
  */
 interface IDevice extends Document {
     id: number,
+    /**
+     * The name of the device on the config of the server.
+     */
+    name: string;
+    /**
+     * The address the device last connected from.
+     */
     ip: string;
     port: number;
     auth: {
         secret: Buffer;
         salt: Buffer;
         sessionId: Buffer;
+        /**
+         * The AEAD negotiated for the session. Undefined for sessions established before cipher suites were negotiated.
+         */
+        aead?: string;
+        /**
+         * The claims the agent registered with. Undefined for sessions established before they were stored.
+         */
+        registration?: IDeviceRegistration;
     };
     connectAt: Date;
 }
@@ -19,30 +48,39 @@ interface IDevice extends Document {
 /**
  * Creates a new device object with the specified details.
  *
+ * @param {string} name - The name of the device on the config of the server.
  * @param {string} ip - The IP address of the device.
  * @param {number} port - The port on which the device operates.
  * @param {Buffer} secret - The secret key for device authentication.
  * @param {Buffer} salt - The salt value used in cryptographic functions.
  * @param {Buffer} sessionId - The session ID for the device.
+ * @param {string} aead - The AEAD negotiated for the session.
  * @param {Date} connectAt - The date and time when the device last connected.
+ * @param {IDeviceRegistration} registration - The claims the agent registered with.
  *
  * @returns {Partial<IDevice>} A new device object with the specified properties, ready for saving to the database.
  */
 function createDevice(
+    name: string,
     ip: string,
     port: number,
     secret: Buffer,
     salt: Buffer,
     sessionId: Buffer,
-    connectAt: Date
+    aead: string,
+    connectAt: Date,
+    registration?: IDeviceRegistration
 ): Partial<IDevice> { 
     return {
+        name: name,
         ip: ip,
         port: port,
         auth: {
             secret: secret,
             salt: salt,
             sessionId: sessionId,
+            aead: aead,
+            registration: registration,
         },
         connectAt: connectAt,
     };
@@ -56,12 +94,14 @@ function createDevice(
  */
 function deviceToString(device: IDevice): string{
     return `Device Information:
+    Name: ${device.name}
     IP: ${device.ip}
     Port: ${device.port}
     Connected At: ${device.connectAt.toISOString()}`;
 }
 
 export {
+    IDeviceRegistration,
     IDevice,
     createDevice,
     deviceToString
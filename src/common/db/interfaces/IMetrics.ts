@@ -25,10 +25,57 @@ type IMetric = _IMetric | {
     };
 }
 
+/**
+ * Interface representing the state of the alerts of a metric, as last reported by the agent.
+ */
+interface IAlertState {
+    state: "firing" | "resolved";
+    /**
+     * The severity the alert last fired with.
+     */
+    severity: "warning" | "critical";
+    /**
+     * The value of the metric when the state or the severity last changed.
+     */
+    value: number;
+    /**
+     * When the alert started firing.
+     */
+    since: Date;
+    /**
+     * When the state or the severity last changed.
+     */
+    updatedAt: Date;
+}
+
+/**
+ * A change to the state of the alerts of one or more metrics, carried by a single alert.
+ */
+interface IAlertUpdate {
+    state: IAlertState["state"];
+    severity: IAlertState["severity"];
+    /**
+     * The value of each metric of the alert, by metric name. The values of interfaces are named
+     * `interface_stats.<interface>`.
+     */
+    values: Record<string, number>;
+    timestamp: Date;
+}
+
 interface IMetrics extends Document {
     taskID: number;
     deviceID: number;
-    metrics: IMetric
+    metrics: IMetric;
+    /**
+     * The ids of the last alerts stored on this entry, used to ignore the alerts an agent sends again.
+     */
+    alerts: string[];
+    /**
+     * The state of the alerts of each metric, by metric name. The alerts of each interface are kept under
+     * `interface_stats`, by interface name, as their metrics are. Resolved alerts are kept, so that alerts reported
+     * out of order are recognized.
+     */
+    alertStates: Record<string, IAlertState | Record<string, IAlertState>>;
 }
 
 /**
@@ -102,6 +149,38 @@ function addMetrics(
     }
 }
 
+/**
+ * Builds the fields of an update pipeline stage that apply a change to the state of the alerts of a metric table.
+ * Changes older than the current state of a metric are ignored, since alerts sent again may arrive after the alerts
+ * that followed them. Since the current state is read by the update itself, the change is applied atomically.
+ * 
+ * @param {IAlertUpdate} update - The change carried by an alert.
+ * @returns {Record<string, unknown>} The fields to set on the metric table, by path.
+ */
+function updateAlertStates(update: IAlertUpdate): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+
+    for (const [metricName, value] of Object.entries(update.values)) {
+        const current = `$alertStates.${metricName}`;
+
+        fields[`alertStates.${metricName}`] = {
+            $cond: [
+                { $gt: [`${current}.updatedAt`, update.timestamp] },
+                current,
+                {
+                    state: { $literal: update.state },
+                    severity: { $literal: update.severity },
+                    value: { $literal: value },
+                    since: { $cond: [{ $eq: [`${current}.state`, "firing"] }, `${current}.since`, update.timestamp] },
+                    updatedAt: update.timestamp
+                }
+            ]
+        };
+    }
+
+    return fields;
+}
+
 /**
  * Returns a string with the metrics's values.
  * 
@@ -135,7 +214,10 @@ function metricsToString(metricsObj: IMetrics): string {
 export {   
     IMetric,
     IMetrics,
+    IAlertState,
+    IAlertUpdate,
     createMetrics,
     addMetrics,
+    updateAlertStates,
     metricsToString
 };
@@ -121,30 +121,45 @@ function linkMetricsToString(linkMetrics: ILinkMetrics): string {
     return result;
 }
 
+/**
+ * Interface for the thresholds of an alert condition, one for each severity.
+ */
+interface IAlertThreshold {
+    warning?: number,
+    critical?: number
+}
+
 /**
  * Interface for alert conditions based on performance metrics.
  */
 interface IAlertConditions {
-        cpu_usage?: number,
-        ram_usage?: number,
-        interface_stats?: number,
-        packet_loss?: number,
-        jitter?: number,
-        latency?: number
+        cpu_usage?: IAlertThreshold,
+        ram_usage?: IAlertThreshold,
+        interface_stats?: IAlertThreshold,
+        packet_loss?: IAlertThreshold,
+        jitter?: IAlertThreshold,
+        latency?: IAlertThreshold
 }
 
 /**
  * Creates an IAlertConditions instance with specified alert condition values.
  * 
- * @param {number} cpu_usage - CPU usage threshold for triggering an alert.
- * @param {number} ram_usage - RAM usage threshold for triggering an alert.
- * @param {number} interface_stats - Network interface statistics.
- * @param {number} packet_loss - Packet loss percentage for triggering an alert.
- * @param {number} jitter - Jitter threshold for triggering an alert.
- * @param {number} latency - Latency threshold for triggering an alert.
+ * @param {IAlertThreshold} cpu_usage - CPU usage thresholds for triggering an alert.
+ * @param {IAlertThreshold} ram_usage - RAM usage thresholds for triggering an alert.
+ * @param {IAlertThreshold} interface_stats - Network interface statistics.
+ * @param {IAlertThreshold} packet_loss - Packet loss percentage thresholds for triggering an alert.
+ * @param {IAlertThreshold} jitter - Jitter thresholds for triggering an alert.
+ * @param {IAlertThreshold} latency - Latency thresholds for triggering an alert.
  * @returns {IAlertConditions} - An object containing the configured alert conditions.
  */
-function createAlertConditions(cpu_usage?: number, ram_usage?: number, interface_stats?: number, packet_loss?: number, jitter?: number, latency?: number): IAlertConditions{
+function createAlertConditions(
+    cpu_usage?: IAlertThreshold, 
+    ram_usage?: IAlertThreshold, 
+    interface_stats?: IAlertThreshold, 
+    packet_loss?: IAlertThreshold, 
+    jitter?: IAlertThreshold, 
+    latency?: IAlertThreshold
+): IAlertConditions{
     return{
         cpu_usage: cpu_usage,
         ram_usage: ram_usage,
@@ -162,7 +177,19 @@ function createAlertConditions(cpu_usage?: number, ram_usage?: number, interface
  * @returns {string} The idented string with the information from the alertConditions.
  */
 function alertConditionsToString(alertConditions: IAlertConditions): string{
-    return `AlertConditions: cpu_usage:${alertConditions.cpu_usage ? alertConditions.cpu_usage : `EMPTY`};ram_usage:${alertConditions.ram_usage ? alertConditions.ram_usage : `EMPTY`};interface_stats:${alertConditions.interface_stats ? alertConditions.interface_stats : `EMPTY`};packet_loss:${alertConditions.packet_loss ? alertConditions.packet_loss : `EMPTY`};jitter:${alertConditions.jitter ? alertConditions.jitter : `EMPTY`};latency:${alertConditions.latency ? alertConditions.latency : `EMPTY`}`; 
+    return `AlertConditions: cpu_usage:${alertThresholdToString(alertConditions.cpu_usage)};ram_usage:${alertThresholdToString(alertConditions.ram_usage)};interface_stats:${alertThresholdToString(alertConditions.interface_stats)};packet_loss:${alertThresholdToString(alertConditions.packet_loss)};jitter:${alertThresholdToString(alertConditions.jitter)};latency:${alertThresholdToString(alertConditions.latency)}`; 
+}
+
+/**
+ * Returns a string with the thresholds of an alert condition.
+ * 
+ * @param {IAlertThreshold} threshold - The thresholds you want to print the information from. 
+ * @returns {string} The string with the thresholds, or `EMPTY` if there are none.
+ */
+function alertThresholdToString(threshold?: IAlertThreshold): string {
+    if (!threshold || (threshold.warning === undefined && threshold.critical === undefined)) return "EMPTY";
+
+    return `warning=${threshold.warning ?? "EMPTY"},critical=${threshold.critical ?? "EMPTY"}`;
 }
 
 /**
@@ -226,6 +253,7 @@ export {
     createOptions,
     ILinkMetrics,
     createLinkMetrics,
+    IAlertThreshold,
     IAlertConditions,
     createAlertConditions,
     ITask,
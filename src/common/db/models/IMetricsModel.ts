@@ -8,7 +8,9 @@ const MetricsSchema = new Schema<IMetrics>({
     metrics: {
         type: Object,  // Aqui usamos 'Object' ao invés de 'Map'
         required: true
-    }
+    },
+    alerts: { type: [String], default: [] },
+    alertStates: { type: Object, default: {} }
 });
 MetricsSchema.index({taskID: 1, deviceID: 1}, {unique: true});
 
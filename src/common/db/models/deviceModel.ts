@@ -4,12 +4,20 @@ import { IDevice } from "../interfaces/IDevice.js";
 // Device schema - Defines mongoDB Schema
 const DeviceSchema = new Schema<IDevice>({
     id: { type: Number, required: true, unique: true},
-    ip: { type: String, required: true, unique: true },
+    name: { type: String, required: true, unique: true },
+    ip: { type: String, required: true },
     port: {type: Number, required: true},
     auth: {
         secret: { type: Buffer, required: true },
         salt: { type: Buffer, required: true },
         sessionId: {type: Buffer},
+        aead: {type: String},
+        registration: {
+            name: {type: String},
+            address: {type: String},
+            transcript: {type: Buffer},
+            proof: {type: Buffer},
+        },
     },
     connectAt: { type: Date, default: Date.now },
 });
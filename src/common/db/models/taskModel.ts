@@ -1,6 +1,12 @@
 import mongoose, { Schema, Model } from "mongoose";
 import { ITask } from "../interfaces/ITask.js";
 
+// Alert threshold schema - The thresholds of an alert condition, one for each severity
+const AlertThresholdSchema = new Schema({
+    warning: { type: Number, required: false },
+    critical: { type: Number, required: false }
+}, { _id: false });
+
 // Task schema - Defines mongoDB Schema
 const TaskSchema = new Schema<ITask>({
     id: { type: Number, required: true, unique: true },
@@ -16,12 +22,12 @@ const TaskSchema = new Schema<ITask>({
     },
     link_metrics: { type: Map, of: Schema.Types.Mixed, required: false },
     alert_conditions: {
-        cpu_usage: { type: Number, required: false },
-        ram_usage: { type: Number, required: false },
-        interface_stats: { type: Number, required: false },
-        packet_loss: { type: Number, required: false },
-        jitter: { type: Number, required: false },
-        latency: {type: Number, required: false}
+        cpu_usage: AlertThresholdSchema,
+        ram_usage: AlertThresholdSchema,
+        interface_stats: AlertThresholdSchema,
+        packet_loss: AlertThresholdSchema,
+        jitter: AlertThresholdSchema,
+        latency: AlertThresholdSchema
     }
 });
 
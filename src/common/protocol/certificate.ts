@@ -0,0 +1,402 @@
+/**
+ * @module Certificate
+ *
+ * @description Authentication of the server during the {@link ECDHE} key exchange. The server holds a long-term
+ * {@link https://en.wikipedia.org/wiki/EdDSA#Ed25519|Ed25519} signing key, and signs it's ephemeral public key
+ * and salt on every register challenge. Agents verify the signature either against a pinned public key, or
+ * against a certificate for the signing key, issued by a certificate authority (CA) the agent trusts.
+ *
+ * Certificates use a format of their own, much simpler than X.509: a subject, the public key, the fingerprint of
+ * the issuer, a validity period and the signature of the issuer.
+ *
+ * @copyright Copyright (c) 2024 DarkenLM https://github.com/DarkenLM
+ */
+
+import crypto from "crypto";
+import fsp from "fs/promises";
+import { BufferReader, BufferWriter } from "$common/util/buffer.js";
+
+//#region ============== Types ==============
+/**
+ * A certificate binding a signing key to the server it belongs to, signed by a certificate authority.
+ */
+interface Certificate {
+    /**
+     * The host name or address of the server.
+     */
+    subject: string,
+    /**
+     * The public signing key of the server, DER encoded as a SubjectPublicKeyInfo.
+     */
+    publicKey: Buffer,
+    /**
+     * The {@link keyFingerprint|fingerprint} of the public key of the certificate authority.
+     */
+    issuer: Buffer,
+    notBefore: Date,
+    notAfter: Date,
+    /**
+     * The signature of every other field, by the certificate authority.
+     */
+    signature: Buffer
+}
+
+/**
+ * How an agent decides which servers to trust:
+ * - `pinned`: The server must sign with one of the given keys.
+ * - `ca`: The server must present a certificate issued by one of the given keys.
+ */
+interface ServerTrust {
+    mode: "pinned" | "ca",
+    keys: crypto.KeyObject[]
+}
+//#endregion ============== Types ==============
+
+//#region ============== Constants ==============
+const CERTIFICATE_VERSION = 1;
+const CERTIFICATE_SIGNATURE = Buffer.from("NTCT", "utf8");
+const CERTIFICATE_PEM_LABEL = "NETTASK CERTIFICATE";
+
+/**
+ * Prepended to the data signed on a register challenge, so that the signature can not be taken for one made for
+ * any other purpose.
+ */
+const HANDSHAKE_CONTEXT = Buffer.from("NetTask register challenge", "utf8");
+//#endregion ============== Constants ==============
+
+/**
+ * Error thrown when the identity of the server could not be verified.
+ */
+class CertificateError extends Error {
+    public constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = "CertificateError";
+    }
+}
+
+//#region ============== Keys ==============
+/**
+ * Generates a new Ed25519 key pair, used both by servers and certificate authorities.
+ */
+function generateSigningKeys(): crypto.KeyPairKeyObjectResult {
+    return crypto.generateKeyPairSync("ed25519");
+}
+
+/**
+ * Returns the SHA-256 hash of the DER encoding of a public key, used to refer to a key by a short value.
+ */
+function keyFingerprint(publicKey: crypto.KeyObject): Buffer {
+    return crypto.createHash("sha256").update(publicKey.export({ type: "spki", format: "der" })).digest();
+}
+
+/**
+ * Parses a PEM encoded private key.
+ */
+function parsePrivateKey(pem: string): crypto.KeyObject {
+    try {
+        return crypto.createPrivateKey(pem);
+    } catch (e) {
+        throw new CertificateError("[CERT] Invalid private key.", { cause: e });
+    }
+}
+
+/**
+ * Parses every PEM encoded public key on a file, like a bundle of certificate authorities.
+ */
+function parsePublicKeys(pem: string): crypto.KeyObject[] {
+    const blocks = pem.match(/-----BEGIN PUBLIC KEY-----[\s\S]+?-----END PUBLIC KEY-----/g) ?? [];
+    if (blocks.length === 0) throw new CertificateError("[CERT] No public keys found.");
+
+    return blocks.map((block, i) => {
+        try {
+            return crypto.createPublicKey(block);
+        } catch (e) {
+            throw new CertificateError(`[CERT] Invalid public key #${i + 1}.`, { cause: e });
+        }
+    });
+}
+//#endregion ============== Keys ==============
+
+//#region ============== Certificates ==============
+/**
+ * Serializes every field of a certificate, except it's signature. This is the data signed by the issuer.
+ */
+function serializeCertificateBody(cert: Omit<Certificate, "signature">): Buffer {
+    const subject = Buffer.from(cert.subject, "utf8");
+    const dates = Buffer.alloc(16);
+    dates.writeBigUInt64BE(BigInt(cert.notBefore.getTime()));
+    dates.writeBigUInt64BE(BigInt(cert.notAfter.getTime()), 8);
+
+    const writer = new BufferWriter();
+    writer.write(CERTIFICATE_SIGNATURE);
+    writer.writeUInt32(CERTIFICATE_VERSION);
+    writer.writeUInt32(subject.byteLength);
+    writer.write(subject);
+    writer.writeUInt32(cert.publicKey.byteLength);
+    writer.write(cert.publicKey);
+    writer.writeUInt32(cert.issuer.byteLength);
+    writer.write(cert.issuer);
+    writer.write(dates);
+
+    return writer.finish();
+}
+
+/**
+ * Serializes a {@link Certificate} into a network-transmittable buffer.
+ */
+function serializeCertificate(cert: Certificate): Buffer {
+    const writer = new BufferWriter();
+    writer.write(serializeCertificateBody(cert));
+    writer.writeUInt32(cert.signature.byteLength);
+    writer.write(cert.signature);
+
+    return writer.finish();
+}
+
+/**
+ * Deserializes a buffer created by {@link serializeCertificate} into a {@link Certificate}.
+ * The certificate is not verified.
+ */
+function deserializeCertificate(buf: Buffer): Certificate {
+    try {
+        const reader = new BufferReader(buf);
+        if (!CERTIFICATE_SIGNATURE.equals(reader.read(4))) throw new Error("Invalid signature.");
+
+        const version = reader.readUInt32();
+        if (version !== CERTIFICATE_VERSION) throw new Error(`Invalid version. Expected: ${CERTIFICATE_VERSION}. Received: ${version}.`);
+
+        const subject = reader.read(reader.readUInt32()).toString("utf8");
+        const publicKey = reader.read(reader.readUInt32());
+        const issuer = reader.read(reader.readUInt32());
+        const dates = reader.read(16);
+        const signature = reader.read(reader.readUInt32());
+
+        return {
+            subject,
+            publicKey,
+            issuer,
+            notBefore: new Date(Number(dates.readBigUInt64BE())),
+            notAfter: new Date(Number(dates.readBigUInt64BE(8))),
+            signature
+        };
+    } catch (e) {
+        throw new CertificateError("[CERT] Deserialization Error: Malformed certificate.", { cause: e });
+    }
+}
+
+/**
+ * Encodes a certificate as PEM, to be stored on a file.
+ */
+function certificateToPEM(cert: Certificate): string {
+    const lines = serializeCertificate(cert).toString("base64").match(/.{1,64}/g)!;
+    return `-----BEGIN ${CERTIFICATE_PEM_LABEL}-----\n${lines.join("\n")}\n-----END ${CERTIFICATE_PEM_LABEL}-----\n`;
+}
+
+/**
+ * Decodes a certificate encoded by {@link certificateToPEM}.
+ */
+function certificateFromPEM(pem: string): Certificate {
+    const match = pem.match(new RegExp(`-----BEGIN ${CERTIFICATE_PEM_LABEL}-----([\\s\\S]+?)-----END ${CERTIFICATE_PEM_LABEL}-----`));
+    if (!match) throw new CertificateError("[CERT] No certificate found.");
+
+    return deserializeCertificate(Buffer.from(match[1].replace(/\s/g, ""), "base64"));
+}
+
+/**
+ * Issues a certificate for the signing key of a server.
+ *
+ * @param subject The host name or address of the server.
+ * @param publicKey The public signing key of the server.
+ * @param caKey The private key of the certificate authority.
+ * @param validity For how long, in milliseconds, the certificate is valid, starting now.
+ */
+function issueCertificate(subject: string, publicKey: crypto.KeyObject, caKey: crypto.KeyObject, validity: number): Certificate {
+    const notBefore = new Date();
+    const body = {
+        subject,
+        publicKey: publicKey.export({ type: "spki", format: "der" }),
+        issuer: keyFingerprint(crypto.createPublicKey(caKey)),
+        notBefore,
+        notAfter: new Date(notBefore.getTime() + validity)
+    };
+
+    return { ...body, signature: crypto.sign(null, serializeCertificateBody(body), caKey) };
+}
+
+/**
+ * Verifies that a certificate was issued by one of the trusted certificate authorities, and is currently valid.
+ *
+ * @param cert The certificate to verify.
+ * @param authorities The public keys of the trusted certificate authorities.
+ * @param subject If defined, the subject the certificate must have been issued to.
+ * @returns The public signing key the certificate was issued for.
+ * @throws {CertificateError} If the certificate can not be trusted.
+ */
+function verifyCertificate(cert: Certificate, authorities: crypto.KeyObject[], subject?: string): crypto.KeyObject {
+    const authority = authorities.find(ca => keyFingerprint(ca).equals(cert.issuer));
+    if (!authority) throw new CertificateError("[CERT] Certificate was not issued by a trusted authority.");
+
+    if (!crypto.verify(null, serializeCertificateBody(cert), authority, cert.signature))
+        throw new CertificateError("[CERT] Invalid certificate signature.");
+
+    const now = Date.now();
+    if (now < cert.notBefore.getTime() || now > cert.notAfter.getTime())
+        throw new CertificateError(`[CERT] Certificate is only valid from ${cert.notBefore.toISOString()} to ${cert.notAfter.toISOString()}.`);
+
+    if (subject !== undefined && cert.subject !== subject)
+        throw new CertificateError(`[CERT] Certificate was issued to '${cert.subject}', not '${subject}'.`);
+
+    try {
+        return crypto.createPublicKey({ key: cert.publicKey, type: "spki", format: "der" });
+    } catch (e) {
+        throw new CertificateError("[CERT] Invalid certificate public key.", { cause: e });
+    }
+}
+//#endregion ============== Certificates ==============
+
+//#region ============== Handshake ==============
+/**
+ * Returns the data signed by the server on a register challenge. Binds the ephemeral keys of both parties,
+ * the salt and the negotiation of the cipher suite to each other, so that the signature can not be replayed on
+ * another handshake, nor the negotiation tampered with.
+ */
+function makeHandshakeData(agentPublicKey: Buffer, serverPublicKey: Buffer, salt: Buffer, negotiation: Buffer): Buffer {
+    const writer = new BufferWriter();
+    for (const part of [HANDSHAKE_CONTEXT, agentPublicKey, serverPublicKey, salt, negotiation]) {
+        writer.writeUInt32(part.byteLength);
+        writer.write(part);
+    }
+
+    return writer.finish();
+}
+
+/**
+ * Signs the register challenges of a server, with it's long-term signing key.
+ */
+class ServerSigner {
+    private privateKey: crypto.KeyObject;
+    private _certificate?: Certificate;
+
+    /**
+     * @param privateKey The long-term signing key of the server.
+     * @param certificate The certificate issued for the key, if agents verify the server against a CA.
+     * @throws {CertificateError} If the certificate was not issued for the key.
+     */
+    public constructor(privateKey: crypto.KeyObject, certificate?: Certificate) {
+        this.privateKey = privateKey;
+        this._certificate = certificate;
+
+        const publicKey = crypto.createPublicKey(privateKey).export({ type: "spki", format: "der" });
+        if (certificate && !certificate.publicKey.equals(publicKey))
+            throw new CertificateError("[CERT] Certificate was not issued for the signing key.");
+    }
+
+    /**
+     * The serialized certificate of the server, or an empty buffer if it has none.
+     */
+    public get certificate(): Buffer {
+        return this._certificate ? serializeCertificate(this._certificate) : Buffer.alloc(0);
+    }
+
+    /**
+     * Signs the ephemeral public key, salt and cipher suite sent on a register challenge.
+     *
+     * @param agentPublicKey The ephemeral public key received from the agent, on the chosen curve.
+     * @param serverPublicKey The ephemeral public key of the server.
+     * @param salt The salt sent along with the key.
+     * @param negotiation The transcript of the negotiation of the cipher suite.
+     */
+    public sign(agentPublicKey: Buffer, serverPublicKey: Buffer, salt: Buffer, negotiation: Buffer): Buffer {
+        return crypto.sign(null, makeHandshakeData(agentPublicKey, serverPublicKey, salt, negotiation), this.privateKey);
+    }
+}
+
+/**
+ * Verifies the register challenges received by an agent, according to the servers it trusts.
+ */
+class ServerVerifier {
+    private trust: ServerTrust;
+    private subject?: string;
+
+    /**
+     * @param trust The keys the agent trusts, and how they are used.
+     * @param subject The host the agent connects to. Certificates must have been issued to it.
+     */
+    public constructor(trust: ServerTrust, subject?: string) {
+        this.trust = trust;
+        this.subject = subject;
+    }
+
+    /**
+     * Verifies the signature of a register challenge.
+     *
+     * @param agentPublicKey The ephemeral public key of the agent, on the chosen curve.
+     * @param serverPublicKey The ephemeral public key received from the server.
+     * @param salt The salt received along with the key.
+     * @param negotiation The transcript of the negotiation of the cipher suite, as seen by the agent.
+     * @param signature The signature of the server.
+     * @param certificate The serialized certificate of the server. Required when trusting a CA.
+     * @throws {CertificateError} If the server can not be trusted.
+     */
+    public verify(agentPublicKey: Buffer, serverPublicKey: Buffer, salt: Buffer, negotiation: Buffer, signature: Buffer, certificate: Buffer) {
+        if (signature.byteLength === 0) throw new CertificateError("[CERT] Server did not sign the register challenge.");
+
+        let keys = this.trust.keys;
+        if (this.trust.mode === "ca") {
+            if (certificate.byteLength === 0) throw new CertificateError("[CERT] Server did not present a certificate.");
+            keys = [verifyCertificate(deserializeCertificate(certificate), this.trust.keys, this.subject)];
+        }
+
+        const data = makeHandshakeData(agentPublicKey, serverPublicKey, salt, negotiation);
+        if (!keys.some(key => crypto.verify(null, data, key, signature)))
+            throw new CertificateError("[CERT] Invalid register challenge signature.");
+    }
+}
+
+/**
+ * Loads the signing key of a server, and it's certificate, from PEM files.
+ *
+ * @param keyFile The path of the private signing key.
+ * @param certificateFile The path of the certificate issued for the key, if any.
+ */
+async function loadServerSigner(keyFile: string, certificateFile?: string): Promise<ServerSigner> {
+    const privateKey = parsePrivateKey(await fsp.readFile(keyFile, "utf8"));
+    const certificate = certificateFile !== undefined ? certificateFromPEM(await fsp.readFile(certificateFile, "utf8")) : undefined;
+
+    return new ServerSigner(privateKey, certificate);
+}
+
+/**
+ * Loads the public keys an agent trusts from a PEM file, holding either the pinned keys of the server
+ * or a bundle of certificate authorities.
+ *
+ * @param mode How the keys are used.
+ * @param file The path of the PEM file.
+ * @param subject The host the agent connects to.
+ */
+async function loadServerVerifier(mode: ServerTrust["mode"], file: string, subject?: string): Promise<ServerVerifier> {
+    return new ServerVerifier({ mode, keys: parsePublicKeys(await fsp.readFile(file, "utf8")) }, subject);
+}
+//#endregion ============== Handshake ==============
+
+export {
+    type Certificate,
+    type ServerTrust,
+
+    CertificateError,
+    ServerSigner,
+    ServerVerifier,
+
+    loadServerSigner,
+    loadServerVerifier,
+    generateSigningKeys,
+    keyFingerprint,
+    parsePrivateKey,
+    parsePublicKeys,
+    serializeCertificate,
+    deserializeCertificate,
+    certificateToPEM,
+    certificateFromPEM,
+    issueCertificate,
+    verifyCertificate
+};
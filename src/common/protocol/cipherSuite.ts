@@ -0,0 +1,119 @@
+/**
+ * @module Cipher Suites
+ *
+ * @description Negotiation of the algorithms used to secure a NetTask session. On the first phase of the
+ * registration, an agent offers a key share for every curve it supports, along with every AEAD it supports, in order
+ * of preference. The server picks, by it's own order of preference, the first curve and AEAD the agent offered, and
+ * confirms the choice on the register challenge.
+ *
+ * The offer and the choice are bound into the handshake through the {@link makeNegotiationTranscript|transcript} of
+ * the negotiation, which is mixed into the shared secret and signed by the server. A third party that strips the
+ * strongest algorithms from the offer, to downgrade the session, leaves both parties with different transcripts, and
+ * the handshake fails.
+ *
+ * @copyright Copyright (c) 2024 DarkenLM https://github.com/DarkenLM
+ */
+
+import crypto from "crypto";
+import { BufferWriter } from "$common/util/buffer.js";
+import { AEADAlgorithm, HASH_ALGO, isAEADAlgorithm, KeyCurve } from "$common/protocol/ecdhe.js";
+
+//#region ============== Types ==============
+/**
+ * The algorithms used to secure a session.
+ */
+interface CipherSuite {
+    /**
+     * The curve of the key pairs exchanged.
+     */
+    curve: KeyCurve,
+    /**
+     * The AEAD messages are encrypted with.
+     */
+    aead: AEADAlgorithm
+}
+
+/**
+ * The ephemeral public key of an agent on one of the curves it supports.
+ */
+interface KeyShare {
+    curve: string,
+    publicKey: Buffer
+}
+//#endregion ============== Types ==============
+
+//#region ============== Constants ==============
+/**
+ * The curves supported for the key exchange, in order of preference.
+ */
+const SUPPORTED_CURVES: KeyCurve[] = ["x25519", "prime256v1"];
+
+/**
+ * The AEADs supported for encryption, in order of preference.
+ */
+const SUPPORTED_AEADS: AEADAlgorithm[] = ["aes-256-gcm", "chacha20-poly1305"];
+
+/**
+ * Prepended to the transcript of the negotiation, so that it can not be taken for data hashed for any other purpose.
+ */
+const NEGOTIATION_CONTEXT = Buffer.from("NetTask cipher suite negotiation", "utf8");
+//#endregion ============== Constants ==============
+
+/**
+ * Returns a boolean representing whether or not a cipher suite is made of supported algorithms.
+ */
+function isSupportedCipherSuite(suite: { curve: string, aead: string }): suite is CipherSuite {
+    return SUPPORTED_CURVES.includes(<KeyCurve>suite.curve) && isAEADAlgorithm(suite.aead) && SUPPORTED_AEADS.includes(suite.aead);
+}
+
+/**
+ * Picks the cipher suite of a session from the offer of an agent, by the order of preference of this party.
+ *
+ * @param shares The key shares offered by the agent.
+ * @param aeads The AEADs offered by the agent.
+ * @returns The chosen cipher suite along with the key share on it's curve, or undefined if the agent offered
+ * no supported curve or no supported AEAD.
+ */
+function negotiateCipherSuite(shares: KeyShare[], aeads: string[]): { suite: CipherSuite, share: KeyShare } | undefined {
+    const curve = SUPPORTED_CURVES.find(curve => shares.some(share => share.curve === curve));
+    const aead = SUPPORTED_AEADS.find(aead => aeads.includes(aead));
+    if (!curve || !aead) return undefined;
+
+    return { suite: { curve, aead }, share: shares.find(share => share.curve === curve)! };
+}
+
+/**
+ * Returns the hash of the negotiation of a session: every key share and AEAD offered by the agent, in the order
+ * offered, and the cipher suite chosen by the server.
+ */
+function makeNegotiationTranscript(shares: KeyShare[], aeads: string[], suite: CipherSuite): Buffer {
+    const writer = new BufferWriter();
+    const parts = [
+        NEGOTIATION_CONTEXT,
+        ...shares.flatMap(share => [Buffer.from(share.curve, "utf8"), share.publicKey]),
+        ...aeads.map(aead => Buffer.from(aead, "utf8")),
+        Buffer.from(suite.curve, "utf8"),
+        Buffer.from(suite.aead, "utf8")
+    ];
+
+    writer.writeUInt32(shares.length);
+    writer.writeUInt32(aeads.length);
+    for (const part of parts) {
+        writer.writeUInt32(part.byteLength);
+        writer.write(part);
+    }
+
+    return crypto.createHash(HASH_ALGO).update(writer.finish()).digest();
+}
+
+export {
+    type CipherSuite,
+    type KeyShare,
+
+    SUPPORTED_CURVES,
+    SUPPORTED_AEADS,
+
+    isSupportedCipherSuite,
+    negotiateCipherSuite,
+    makeNegotiationTranscript
+};
@@ -0,0 +1,167 @@
+/**
+ * @module CongestionControl
+ *
+ * @description This modules contains the congestion control strategies used by the {@link FlowControl} to limit
+ * how many datagrams an entity keeps in flight, on top of the window advertised by the other end. Strategies are
+ * pluggable, and can be swapped by passing a different instance to the FlowControl.
+ *
+ * @copyright Copyright (c) 2024 Pauloarf https://github.com/Pauloarf
+ */
+
+//#region ============== Constants ==============
+/**
+ * The congestion window a connection starts with, in datagrams.
+ */
+const INITIAL_CONGESTION_WINDOW = 1;
+
+/**
+ * The slow start threshold a connection starts with, in datagrams.
+ */
+const INITIAL_SLOW_START_THRESHOLD = 64;
+
+/**
+ * The smallest value the slow start threshold is allowed to take after a loss, in datagrams.
+ */
+const MIN_SLOW_START_THRESHOLD = 2;
+//#endregion ============== Constants ==============
+
+/**
+ * This class represents a congestion control strategy. It is notified of every acknowledged datagram and every
+ * loss detected by the FlowControl, and answers with the number of datagrams that may be in flight.
+ *
+ * A CongestionControl cannot be directly instantiated, and needs to be extended and implemented before being usable.
+ */
+abstract class CongestionControl {
+    /**
+     * Returns the congestion window, that is, the maximum number of unacknowledged datagrams that may be in flight.
+     */
+    public abstract getWindow(): number;
+
+    /**
+     * Event method fired when a datagram in flight is acknowledged.
+     */
+    public abstract onAck(): void;
+
+    /**
+     * Event method fired when the retransmission timer of a datagram expires.
+     */
+    public abstract onTimeout(): void;
+
+    /**
+     * Event method fired when the other end reports missing datagrams on a selective acknowledgement.
+     *
+     * @param seqNumber The lowest sequence number reported missing.
+     * @param lastSeq The sequence number of the next datagram to be created.
+     */
+    public abstract onLoss(seqNumber: number, lastSeq: number): void;
+
+    /**
+     * Restores the strategy to it's initial state, as when the connection is created.
+     */
+    public abstract reset(): void;
+}
+
+/**
+ * A congestion control strategy that uses the Additive Increase, Multiplicative Decrease algorithm, as used by TCP.
+ *
+ * The window starts at one datagram and grows by one for each acknowledgement (slow start), doubling every round trip,
+ * until the slow start threshold is reached. From then on, it grows by one datagram per round trip (congestion avoidance).
+ *
+ * When a timer expires, the threshold is set to half the window, and the window falls back to one datagram.
+ * When a loss is reported on a selective acknowledgement, the window is halved instead. Losses reported for datagrams
+ * sent before the last decrease belong to the same congestion event, and are ignored.
+ *
+ * @example
+ * const fwc = new FlowControl(32, 1000, 15, new AIMDCongestionControl());
+ */
+class AIMDCongestionControl extends CongestionControl {
+    private congestionWindow: number;
+    private slowStartThreshold: number;
+    private recoveryPoint: number;
+    private initialThreshold: number;
+
+    /**
+     * Creates an instance of AIMDCongestionControl.
+     * @param {number} [initialThreshold=64] The window, in datagrams, at which slow start ends.
+     * @memberof AIMDCongestionControl
+     */
+    public constructor(initialThreshold: number = INITIAL_SLOW_START_THRESHOLD) {
+        super();
+        this.initialThreshold = initialThreshold;
+        this.congestionWindow = INITIAL_CONGESTION_WINDOW;
+        this.slowStartThreshold = initialThreshold;
+        this.recoveryPoint = 0;
+    }
+
+    public getWindow() { return Math.floor(this.congestionWindow); }
+
+    public getSlowStartThreshold() { return this.slowStartThreshold; }
+
+    public onAck() {
+        if (this.congestionWindow < this.slowStartThreshold) {
+            this.congestionWindow += 1;
+        } else {
+            this.congestionWindow += 1 / this.congestionWindow;
+        }
+    }
+
+    public onTimeout() {
+        // Every datagram in flight times out on the same congestion event. Only the first one lowers the threshold.
+        if (this.congestionWindow > INITIAL_CONGESTION_WINDOW) {
+            this.slowStartThreshold = Math.max(this.congestionWindow / 2, MIN_SLOW_START_THRESHOLD);
+        }
+        this.congestionWindow = INITIAL_CONGESTION_WINDOW;
+    }
+
+    public onLoss(seqNumber: number, lastSeq: number) {
+        if (seqNumber < this.recoveryPoint) return;
+
+        this.slowStartThreshold = Math.max(this.congestionWindow / 2, MIN_SLOW_START_THRESHOLD);
+        this.congestionWindow = this.slowStartThreshold;
+        this.recoveryPoint = lastSeq;
+    }
+
+    public reset() {
+        this.congestionWindow = INITIAL_CONGESTION_WINDOW;
+        this.slowStartThreshold = this.initialThreshold;
+        this.recoveryPoint = 0;
+    }
+}
+
+/**
+ * A congestion control strategy that never reacts to congestion, keeping the same window during the whole connection.
+ * Only the window advertised by the other end limits the datagrams in flight. Useful as a baseline to compare
+ * other strategies against.
+ *
+ * @example
+ * const fwc = new FlowControl(32, 1000, 15, new FixedWindowCongestionControl(3));
+ */
+class FixedWindowCongestionControl extends CongestionControl {
+    private window: number;
+
+    /**
+     * Creates an instance of FixedWindowCongestionControl.
+     * @param {number} [window=Infinity] The window, in datagrams. Unlimited by default.
+     * @memberof FixedWindowCongestionControl
+     */
+    public constructor(window: number = Infinity) {
+        super();
+        this.window = window;
+    }
+
+    public getWindow() { return this.window; }
+
+    public onAck() {}
+
+    public onTimeout() {}
+
+    public onLoss() {}
+
+    public reset() {}
+}
+
+export {
+    CongestionControl,
+    AIMDCongestionControl,
+    FixedWindowCongestionControl
+};
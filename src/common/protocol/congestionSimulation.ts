@@ -0,0 +1,213 @@
+/**
+ * @module CongestionSimulation
+ *
+ * @description This modules contains a simulation of a lossy link, used to compare the congestion control strategies
+ * of the {@link FlowControl}. It runs several senders, each with it's own strategy, through a simulated bottleneck
+ * link that randomly loses datagrams. Not used by the Agent nor the Server.
+ *
+ * @copyright Copyright (c) 2024 Pauloarf https://github.com/Pauloarf
+ */
+
+import { CongestionControl } from "./congestionControl.js";
+
+//#region ============== Constants ==============
+/**
+ * The number of round trips after which a {@link simulateLossyLink|simulation} gives up on the senders that did not
+ * deliver every datagram.
+ */
+const DEFAULT_SIMULATION_ROUNDS = 10000;
+//#endregion ============== Constants ==============
+
+//#region ============== Types ==============
+/**
+ * The link simulated by {@link simulateLossyLink}.
+ */
+interface LossyLinkOptions {
+    /**
+     * The number of datagrams each sender has to deliver.
+     */
+    datagrams: number,
+    /**
+     * The number of datagrams the bottleneck forwards per round trip. Datagrams past it are dropped.
+     */
+    capacity: number,
+    /**
+     * The probability, between 0 and 1, of a datagram forwarded by the bottleneck being lost.
+     */
+    lossRate: number,
+    /**
+     * The seed of the random losses, so that strategies can be compared on the same link.
+     */
+    seed?: number,
+    /**
+     * The number of round trips after which the simulation gives up.
+     */
+    maxRounds?: number
+}
+
+/**
+ * The outcome of a {@link simulateLossyLink|simulation} for a single sender.
+ */
+interface LossyLinkSenderResult {
+    /**
+     * The number of round trips the sender took to deliver every datagram, or undefined if it did not.
+     */
+    rounds?: number,
+    delivered: number,
+    /**
+     * The number of datagrams sent, retransmissions included.
+     */
+    sent: number,
+    /**
+     * The number of datagrams dropped by the bottleneck.
+     */
+    dropped: number,
+    /**
+     * The number of datagrams randomly lost.
+     */
+    lost: number,
+    /**
+     * The average number of datagrams the sender had in flight, over the round trips it was sending.
+     */
+    averageWindow: number
+}
+
+/**
+ * The outcome of a {@link simulateLossyLink|simulation}.
+ */
+interface LossyLinkResult {
+    /**
+     * The number of round trips simulated.
+     */
+    rounds: number,
+    /**
+     * The fraction of the capacity of the bottleneck used to deliver datagrams.
+     */
+    utilization: number,
+    senders: LossyLinkSenderResult[]
+}
+//#endregion ============== Types ==============
+
+/**
+ * Returns a pseudo-random number generator, in the range [0, 1), deterministic for a given seed (Mulberry32).
+ */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Simulates several senders sharing a bottleneck link that randomly loses datagrams, each one limited by it's own
+ * congestion control strategy, and returns how each one fared.
+ *
+ * The simulation advances one round trip at a time. On each round, every sender sends as many datagrams as it's window
+ * allows, and the datagrams of every sender are interleaved at random. The bottleneck forwards up to it's capacity,
+ * dropping the rest, and each forwarded datagram is then lost with the given probability. Every delivered datagram
+ * is acknowledged. A sender that lost part of it's datagrams is told about the loss, as if by a selective
+ * acknowledgement, while a sender that lost every datagram waits for it's timers to expire. Lost datagrams are sent
+ * again on later rounds.
+ *
+ * @param strategies The congestion control strategy of each sender. They are reset before the simulation starts.
+ * @param options The link to simulate.
+ * @returns The outcome of the simulation, with the senders in the same order as their strategies.
+ *
+ * @example
+ * const result = simulateLossyLink(
+ *     [new AIMDCongestionControl(), new FixedWindowCongestionControl(32)],
+ *     { datagrams: 1000, capacity: 16, lossRate: 0.01, seed: 1 }
+ * );
+ */
+function simulateLossyLink(strategies: CongestionControl[], options: LossyLinkOptions): LossyLinkResult {
+    const random = seededRandom(options.seed ?? Date.now());
+    const maxRounds = options.maxRounds ?? DEFAULT_SIMULATION_ROUNDS;
+
+    const senders = strategies.map(strategy => {
+        strategy.reset();
+        return { strategy, nextSeq: 1, windowSum: 0, result: <LossyLinkSenderResult>{
+            delivered: 0, sent: 0, dropped: 0, lost: 0, averageWindow: 0
+        } };
+    });
+
+    let rounds = 0;
+    let delivered = 0;
+    while (rounds < maxRounds && senders.some(sender => sender.result.delivered < options.datagrams)) {
+        rounds++;
+
+        const inFlight: { sender: typeof senders[number], seq: number }[] = [];
+        for (const sender of senders) {
+            const remaining = options.datagrams - sender.result.delivered;
+            if (remaining === 0) continue;
+
+            const window = Math.min(sender.strategy.getWindow(), remaining);
+            sender.windowSum += window;
+            sender.result.sent += window;
+
+            for (let i = 0; i < window; i++) {
+                inFlight.push({ sender, seq: sender.nextSeq++ });
+            }
+        }
+
+        // Fisher-Yates shuffle, so that no sender is favoured by the bottleneck.
+        for (let i = inFlight.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [inFlight[i], inFlight[j]] = [inFlight[j], inFlight[i]];
+        }
+
+        const outcomes = new Map<typeof senders[number], { acked: number, firstLoss?: number }>();
+        inFlight.forEach(({ sender, seq }, i) => {
+            const outcome = outcomes.get(sender) ?? { acked: 0 };
+            outcomes.set(sender, outcome);
+
+            if (i >= options.capacity) {
+                sender.result.dropped++;
+            } else if (random() < options.lossRate) {
+                sender.result.lost++;
+            } else {
+                outcome.acked++;
+                return;
+            }
+
+            outcome.firstLoss = Math.min(outcome.firstLoss ?? Infinity, seq);
+        });
+
+        for (const [sender, outcome] of outcomes) {
+            for (let i = 0; i < outcome.acked; i++) sender.strategy.onAck();
+            sender.result.delivered += outcome.acked;
+            delivered += outcome.acked;
+
+            if (outcome.firstLoss === undefined) continue;
+            if (outcome.acked === 0) sender.strategy.onTimeout();
+            else sender.strategy.onLoss(outcome.firstLoss, sender.nextSeq);
+        }
+
+        for (const sender of senders) {
+            if (sender.result.rounds === undefined && sender.result.delivered === options.datagrams) {
+                sender.result.rounds = rounds;
+            }
+        }
+    }
+
+    return {
+        rounds,
+        utilization: rounds > 0 ? delivered / (rounds * options.capacity) : 0,
+        senders: senders.map(sender => ({
+            ...sender.result,
+            averageWindow: sender.windowSum / (sender.result.rounds ?? rounds)
+        }))
+    };
+}
+
+export {
+    type LossyLinkOptions,
+    type LossyLinkSenderResult,
+    type LossyLinkResult,
+
+    simulateLossyLink
+};
@@ -11,13 +11,34 @@
 
 import { BufferReader, BufferWriter } from "$common/util/buffer.js";
 import crypto from "crypto";
+import { ReplayGuard } from "$common/protocol/replay.js";
 
 //#region ============== Constants ==============
-const ENC_ALGO = "aes-128-gcm";
 // const ENC_KEY_LEN = 16;
 const ENCODING = "hex";
 const HASH_ALGO = "sha256";
 const HASH_LEN = 16;
+const AUTH_TAG_LEN = 16;
+
+/**
+ * The AEADs supported for encryption, along with the length, in bytes, of their keys.
+ */
+const AEAD_KEY_LENGTH = {
+    "aes-128-gcm": 16,
+    "aes-256-gcm": 32,
+    "chacha20-poly1305": 32
+} as const;
+
+/**
+ * The AEAD used by sessions established before cipher suites were negotiated. Only used to revive them.
+ */
+const LEGACY_AEAD = "aes-128-gcm";
+
+/**
+ * Time, in milliseconds, during which the previous session key is still accepted after the keys are rotated,
+ * so that messages already in flight can still be decrypted.
+ */
+const KEY_ROTATION_GRACE = 30 * 1000;
 //#endregion ============== Constants ==============
 
 //#region ============== Types ==============
@@ -112,6 +133,35 @@ const CryptoCurve = [
 ] as const;
 type CryptoCurve = typeof CryptoCurve[number];
 
+/**
+ * The curves a key pair can be generated on: the {@link CryptoCurve|curves} supported by {@link crypto.createECDH},
+ * and X25519, which is only supported through {@link crypto.diffieHellman}.
+ */
+type KeyCurve = CryptoCurve | "x25519";
+
+type AEADAlgorithm = keyof typeof AEAD_KEY_LENGTH;
+
+/**
+ * The key pair of one of the parties, and the means to compute the shared secret from the public key of the other.
+ */
+interface KeyExchange {
+    publicKey: Buffer,
+    privateKey: Buffer,
+    computeSecret(publicKey: Buffer): Buffer
+}
+
+interface LinkOptions {
+    /**
+     * The AEAD negotiated for the session. If ommited, the AEAD already in use by the instance is kept.
+     */
+    aead?: AEADAlgorithm,
+    /**
+     * Data mixed into the shared secret, such as the transcript of the negotiation of the session, so that both 
+     * parties only agree on the secret if they agree on the data.
+     */
+    context?: Buffer
+}
+
 /**
  * Represents a message that was encrypted using a {@link ECDHE} instance.
  */
@@ -136,6 +186,71 @@ interface ChallengeControl {
 }
 //#endregion ============== Types ==============
 
+/**
+ * Returns a boolean representing whether or not the given name is of a supported AEAD.
+ */
+function isAEADAlgorithm(name: string): name is AEADAlgorithm {
+    return Object.hasOwn(AEAD_KEY_LENGTH, name);
+}
+
+/**
+ * Generates a new key pair on the given curve.
+ */
+function createKeyExchange(curve: KeyCurve): KeyExchange {
+    if (curve === "x25519") {
+        const keyPair = crypto.generateKeyPairSync("x25519");
+        const jwk = keyPair.privateKey.export({ format: "jwk" });
+
+        return {
+            publicKey: Buffer.from(jwk.x!, "base64url"),
+            privateKey: Buffer.from(jwk.d!, "base64url"),
+            computeSecret: publicKey => crypto.diffieHellman({
+                privateKey: keyPair.privateKey,
+                publicKey: crypto.createPublicKey({ 
+                    key: { kty: "OKP", crv: "X25519", x: publicKey.toString("base64url") }, 
+                    format: "jwk" 
+                })
+            })
+        };
+    }
+
+    const ecdh = crypto.createECDH(curve);
+    ecdh.generateKeys();
+
+    return {
+        publicKey: ecdh.getPublicKey(),
+        privateKey: ecdh.getPrivateKey(),
+        computeSecret: publicKey => ecdh.computeSecret(publicKey)
+    };
+}
+
+/**
+ * Creates a cipher for the given AEAD. Every supported AEAD takes a 12 byte Initialization Vector.
+ */
+function createCipher(aead: AEADAlgorithm, key: Buffer, iv: Buffer): crypto.CipherGCM {
+    return <crypto.CipherGCM>crypto.createCipheriv(<crypto.CipherGCMTypes>aead, key, iv, { authTagLength: AUTH_TAG_LEN });
+}
+
+/**
+ * Creates a decipher for the given AEAD, expecting the given Authentication Tag.
+ */
+function createDecipher(aead: AEADAlgorithm, key: Buffer, iv: Buffer, authTag: Buffer): crypto.DecipherGCM {
+    const decipher = <crypto.DecipherGCM>crypto.createDecipheriv(<crypto.CipherGCMTypes>aead, key, iv, { authTagLength: AUTH_TAG_LEN });
+    decipher.setAuthTag(authTag);
+
+    return decipher;
+}
+
+/**
+ * Decrypts a given encrypted message with the given AEAD and key.
+ */
+function decipherWith(aead: AEADAlgorithm, key: Buffer, enc: EncryptedMessage): Buffer {
+    const decipher = createDecipher(aead, key, enc.iv, enc.authTag);
+
+    const decrypted = decipher.update(enc.content);
+    return Buffer.concat([decrypted, decipher.final()]);
+}
+
 /**
  * This class is the base for secure Client/Server communication within this project.
  * It consists of an implementation of the 
@@ -154,10 +269,19 @@ interface ChallengeControl {
  */
 class ECDHE {
     /**
-     * An instance of node's built-in Elliptic Curve Diffie-Hellman algorithm, used to compute the secret
-     * in both sides of the connection.
+     * The key pair generated on instancialization, used to compute the secret in both sides of the connection.
+     */
+    private exchange!: KeyExchange;
+
+    /**
+     * The curve the key pair was generated on, or undefined if this instance was revived.
+     */
+    private _curve?: KeyCurve;
+
+    /**
+     * The AEAD used to encrypt and decrypt messages, negotiated when the instance is {@link ECDHE.link|linked}.
      */
-    private ecdh!: crypto.ECDH;
+    private _aead: AEADAlgorithm;
 
     /**
      * The secret value computed from the public key using the Elliptic Curve Diffie-Hellman algorithm.
@@ -183,6 +307,39 @@ class ECDHE {
      * The last used salt on any operation within this instance.
      */
     private lastSalt?: Buffer;
+
+    /**
+     * The salt the current session key was derived from.
+     */
+    private keySalt?: Buffer;
+
+    /**
+     * The session key in use before the last {@link ECDHE.rotateKeys|rotation}, still accepted for decryption
+     * until {@link ECDHE.previousKeyExpiresAt} is reached.
+     */
+    private previousSessionKey?: Buffer;
+    private previousKeyExpiresAt: number = 0;
+
+    /**
+     * The session key of a {@link ECDHE.stageRotation|staged rotation}, already accepted for decryption, but only
+     * used for encryption once the rotation is completed.
+     */
+    private nextSessionKey?: Buffer;
+
+    /**
+     * The number of messages enveloped or de-enveloped with the current session key.
+     */
+    private _messageCount: number = 0;
+
+    /**
+     * The time the current session key was derived at.
+     */
+    private keyCreatedAt: number = 0;
+
+    /**
+     * Rejects the envelopes replayed by a third party. See {@link ECDHE.deenvelope|deenvelope}.
+     */
+    private replayGuard: ReplayGuard = new ReplayGuard();
     
     /**
      * Instantializes a new Elliptic-Curve Diffie-Hellman (Ephemeral).
@@ -191,21 +348,24 @@ class ECDHE {
      * 
      * @throws {Error} If an error occured during the key pair generation process.
      */
-    constructor(curveName: CryptoCurve);
+    constructor(curveName: KeyCurve);
     /**
      * Revives a previously established new Elliptic-Curve Diffie-Hellman (Ephemeral) session.  
      * To be used in 0-RTT connections where the previous credentials have been stored.
      * 
      * @param secret The ECDH secret previously exchanged.
      * @param salt The salt to be used in this connection.
+     * @param aead The AEAD negotiated for the connection.
      * 
      * @throws {Error} If an error occured during the key pair generation process.
      */
-    constructor(secret: Buffer, salt: Buffer);
-    constructor(arg1: Buffer | CryptoCurve, arg2?: Buffer) {
+    constructor(secret: Buffer, salt: Buffer, aead: AEADAlgorithm);
+    constructor(arg1: Buffer | KeyCurve, arg2?: Buffer, arg3?: AEADAlgorithm) {
+        this._aead = arg3 ?? LEGACY_AEAD;
+
         if (typeof arg1 === "string") {
-            this.ecdh = crypto.createECDH(arg1);
-            this.ecdh.generateKeys();
+            this.exchange = createKeyExchange(arg1);
+            this._curve = arg1;
     
             this._secret = undefined;
             this.lastSalt = undefined;
@@ -228,20 +388,48 @@ class ECDHE {
      * Returns the public key from the ECDH key pair generated on instancialization.
      */
     public get publicKey(): Buffer {
-        return this.ecdh.getPublicKey();
+        return this.exchange.publicKey;
     }
 
     /**
      * Returns the private key from the ECDH key pair generated on instancialization.
      */
     public get privateKey(): Buffer {
-        return this.ecdh.getPrivateKey();
+        return this.exchange.privateKey;
+    }
+
+    /**
+     * Returns the curve the key pair was generated on, or undefined if this instance was revived.
+     */
+    public get curve(): KeyCurve | undefined {
+        return this._curve;
+    }
+
+    /**
+     * Returns the AEAD used to encrypt and decrypt messages.
+     */
+    public get aead(): AEADAlgorithm {
+        return this._aead;
     }
 
     public get secret(): Buffer | undefined {
         return this._secret ? Buffer.from(this._secret) : undefined;
     }
 
+    /**
+     * Returns the number of messages enveloped or de-enveloped with the current session key.
+     */
+    public get messageCount(): number {
+        return this._messageCount;
+    }
+
+    /**
+     * Returns for how long, in milliseconds, the current session key has been in use.
+     */
+    public get keyAge(): number {
+        return Date.now() - this.keyCreatedAt;
+    }
+
     /**
      * Generates a shared secret by linking this ECDHE instance with another.
      * 
@@ -249,10 +437,11 @@ class ECDHE {
      * but reversing the roles.
      *
      * @param {ECDHE} publicKey The public key of another ECDHE instance
+     * @param options The AEAD negotiated for the session, and the data mixed into the shared secret.
      * @throws {Error} if an error occured while computing the shared secret key or while compuring the HMAC of
      * said secret key.
      */
-    public link(publicKey: Buffer, salt?: Buffer): Buffer;
+    public link(publicKey: Buffer, salt?: Buffer, options?: LinkOptions): Buffer;
     /**
      * Generates a shared secret by linking this ECDHE instance with another.
      * 
@@ -260,13 +449,18 @@ class ECDHE {
      * but reversing the roles.
      *
      * @param {ECDHE} ecdhe Another ECDHE instance to link against.
+     * @param options The AEAD negotiated for the session, and the data mixed into the shared secret.
      * @throws {Error} if an error occured while computing the shared secret key or while compuring the HMAC of
      * said secret key.
      */
-    public link(ecdhe: ECDHE, salt?: Buffer): Buffer;
-    public link(key: Buffer | ECDHE, salt?: Buffer): Buffer {
+    public link(ecdhe: ECDHE, salt?: Buffer, options?: LinkOptions): Buffer;
+    public link(key: Buffer | ECDHE, salt?: Buffer, options?: LinkOptions): Buffer {
         const trueKey = key instanceof ECDHE ? key.publicKey : key;
-        this._secret = this.ecdh.computeSecret(trueKey);
+        const sharedSecret = this.exchange.computeSecret(trueKey);
+        this._secret = options?.context 
+            ? crypto.createHmac(HASH_ALGO, sharedSecret).update(options.context).digest()
+            : sharedSecret;
+        this._aead = options?.aead ?? this._aead;
 
         salt ??= crypto.randomBytes(16);
         this.lastSalt = salt;
@@ -285,7 +479,18 @@ class ECDHE {
     public regenerateSessionKey(salt: Buffer): void {
         if (!this.initialized) throw new Error("ECDHE instance is not initialized.");
 
-        this.sessionKey = Buffer.from(crypto.hkdfSync(HASH_ALGO, this._secret!, salt, "session-key", HASH_LEN));
+        this.sessionKey = this.deriveSessionKey(salt);
+        this.nextSessionKey = undefined;
+        this.keySalt = salt;
+        this._messageCount = 0;
+        this.keyCreatedAt = Date.now();
+    }
+
+    /**
+     * Derives a session key from a given salt, without replacing the current one.
+     */
+    private deriveSessionKey(salt: Buffer): Buffer {
+        return Buffer.from(crypto.hkdfSync(HASH_ALGO, this._secret!, salt, "session-key", AEAD_KEY_LENGTH[this._aead]));
     }
 
     /**
@@ -297,7 +502,7 @@ class ECDHE {
     public regenerateChallengeKey(salt: Buffer): void {
         if (!this.initialized) throw new Error("ECDHE instance is not initialized.");
 
-        this.challengeKey = Buffer.from(crypto.hkdfSync(HASH_ALGO, this._secret!, salt, "challenge-key", HASH_LEN));
+        this.challengeKey = Buffer.from(crypto.hkdfSync(HASH_ALGO, this._secret!, salt, "challenge-key", AEAD_KEY_LENGTH[this._aead]));
     }
 
     /**
@@ -313,6 +518,46 @@ class ECDHE {
         this.regenerateChallengeKey(salt);
     }
 
+    /**
+     * Replaces the keys used for communication by ones derived from a new salt. Unlike 
+     * {@link ECDHE.regenerateKeys|regenerateKeys}, the previous session key is still accepted for decryption during
+     * a grace period, so that messages encrypted before the other party rotated it's keys are not lost.
+     * 
+     * @param salt The salt to derive the new keys from. Must be the same on both parties.
+     * @param grace Time, in milliseconds, during which the previous session key is still accepted.
+     */
+    public rotateKeys(salt: Buffer, grace: number = KEY_ROTATION_GRACE): void {
+        if (!this.initialized) throw new Error("ECDHE instance is not initialized.");
+
+        this.previousSessionKey = this.sessionKey;
+        this.previousKeyExpiresAt = Date.now() + grace;
+        this.regenerateKeys(salt);
+    }
+
+    /**
+     * Prepares a {@link ECDHE.rotateKeys|rotation} of the keys, to be completed once the other party confirms it
+     * rotated it's keys. Until then, messages are still encrypted with the current keys, so that the other party can
+     * read them, but messages encrypted with the new keys are already accepted.
+     * 
+     * @param salt The salt to derive the new keys from. Must be the same on both parties.
+     */
+    public stageRotation(salt: Buffer): void {
+        if (!this.initialized) throw new Error("ECDHE instance is not initialized.");
+
+        this.nextSessionKey = this.deriveSessionKey(salt);
+    }
+
+    /**
+     * Returns a new instance holding the current keys of this instance, which are kept even if the keys of this
+     * instance are later rotated. Used to encrypt messages that must be readable by a party that did not yet rotate
+     * it's keys.
+     */
+    public snapshot(): ECDHE {
+        if (!this.initialized) throw new Error("ECDHE instance is not initialized.");
+
+        return new ECDHE(this._secret!, this.keySalt!, this._aead);
+    }
+
     /**
      * Generates the session id for this connection. This unique identifier identifies the connection, and will
      * be exposed unencrypted to be able to be identified during 0-RTT connections.
@@ -345,7 +590,7 @@ class ECDHE {
         this.lastSalt = salt;
 
         control ??= crypto.randomBytes(16);
-        const cipher = crypto.createCipheriv(ENC_ALGO, this.sessionKey, salt.subarray(0, 12));
+        const cipher = createCipher(this._aead, this.sessionKey, salt.subarray(0, 12));
         const encryptedChallenge = Buffer.concat([cipher.update(control), cipher.final()]);
         const authTag = cipher.getAuthTag();
 
@@ -377,11 +622,10 @@ class ECDHE {
 
         this.lastSalt = salt;
 
-        const decipher = crypto.createDecipheriv(ENC_ALGO, this.sessionKey, salt.subarray(0, 12));
-        decipher.setAuthTag(challenge.authTag);
+        const decipher = createDecipher(this._aead, this.sessionKey, salt.subarray(0, 12), challenge.authTag);
         const decryptedChallenge = Buffer.concat([decipher.update(challenge.challenge), decipher.final()]);
 
-        const cipher = crypto.createCipheriv(ENC_ALGO, this.challengeKey, salt.subarray(0, 12));
+        const cipher = createCipher(this._aead, this.challengeKey, salt.subarray(0, 12));
         const encryptedChallenge = Buffer.concat([cipher.update(decryptedChallenge), cipher.final()]);
         const authTag = cipher.getAuthTag();
 
@@ -412,8 +656,7 @@ class ECDHE {
 
         this.lastSalt = salt;
 
-        const decipher = crypto.createDecipheriv(ENC_ALGO, this.challengeKey, salt.subarray(0, 12));
-        decipher.setAuthTag(challenge.authTag);
+        const decipher = createDecipher(this._aead, this.challengeKey, salt.subarray(0, 12), challenge.authTag);
 
         const decryptedChallenge = Buffer.concat([decipher.update(challenge.challenge), decipher.final()]);
 
@@ -436,7 +679,7 @@ class ECDHE {
         if (!this.initialized) throw new Error("ECDHE instance is not initialized.");
 
         const iv = crypto.randomBytes(12);
-        const cipher = crypto.createCipheriv(ENC_ALGO, this.sessionKey, iv);
+        const cipher = createCipher(this._aead, this.sessionKey, iv);
 
         let encrypted: Buffer;
         if (content instanceof Buffer) encrypted = cipher.update(content);
@@ -460,20 +703,13 @@ class ECDHE {
     public decrypt(message: EncryptedMessage | Buffer): Buffer {
         if (!this.initialized) throw new Error("ECDHE instance is not initialized.");
 
-        const enc = message instanceof Buffer ? ECDHE.deserializeEncryptedMessage(message) : message;
-
-        const decipher = crypto.createDecipheriv(ENC_ALGO, this.sessionKey, enc.iv);
-        decipher.setAuthTag(enc.authTag);
-
-        const decrypted = decipher.update(enc.content);
-        const final = Buffer.concat([decrypted, decipher.final()]);
-
-        return final;
+        return this.decipher(message);
     }
 
     /**
      * Envelops a given message with the challenge key of this ECDHE instance.
-     * The Intialization Vector doubles as a nonce for the message.
+     * The Intialization Vector doubles as a nonce for the message, and the time of the envelopment is authenticated 
+     * along with it, so that the envelope can not be replayed.
      * 
      * It is meant to be used to protect the payload and part of the header of a given packet to increase the security of
      * the connection.
@@ -488,37 +724,64 @@ class ECDHE {
         if (!this.initialized) throw new Error("ECDHE instance is not initialized.");
 
         const iv = crypto.randomBytes(12);
-        const cipher = crypto.createCipheriv(ENC_ALGO, this.sessionKey, iv);
+        const cipher = createCipher(this._aead, this.sessionKey, iv);
 
-        let encrypted: Buffer = cipher.update(content);
+        const timestamp = Buffer.alloc(8);
+        timestamp.writeBigUInt64BE(BigInt(Date.now()));
+
+        let encrypted: Buffer = cipher.update(Buffer.concat([timestamp, content]));
 
         encrypted = Buffer.concat([encrypted, cipher.final()]);
         const authTag = cipher.getAuthTag();
+        this._messageCount++;
 
         return { content: encrypted, iv: iv, authTag };
     }
 
     /**
      * De.envelopes a given message envelope with the challenge key of this ECDHE instance.
+     * Envelopes that are too old, or that were already de-enveloped by this instance, are rejected as replays.
      * 
      * **NOTE:** This instance must be initialized with {@link link|ECDHE#link} before it can be used.
      *
      * @param {EncryptedMessage} message The encrypted message to decrypt
      * @return {string} A UTF-8 encoded string containing
      * @throws {Error} if this instance is not initialized or an error occured while computing the cypher.
+     * @throws {ReplayError} if the envelope was replayed.
      */
     public deenvelope(message: EncryptedMessage | Buffer): Buffer {
         if (!this.initialized) throw new Error("ECDHE instance is not initialized.");
 
         const enc = message instanceof Buffer ? ECDHE.deserializeEncryptedMessage(message) : message;
+        const final = this.decipher(enc);
+        this.replayGuard.check(Number(final.readBigUInt64BE()), enc.iv);
+        this._messageCount++;
+
+        return final.subarray(8);
+    }
 
-        const decipher = crypto.createDecipheriv(ENC_ALGO, this.sessionKey, enc.iv);
-        decipher.setAuthTag(enc.authTag);
+    /**
+     * Decrypts a given encrypted message with the session key of this ECDHE instance or, failing that, with the
+     * session key of a staged rotation, if any, or with the previous session key, if it is still within it's grace
+     * period.
+     */
+    private decipher(message: EncryptedMessage | Buffer): Buffer {
+        const enc = message instanceof Buffer ? ECDHE.deserializeEncryptedMessage(message) : message;
 
-        const decrypted = decipher.update(enc.content);
-        const final = Buffer.concat([decrypted, decipher.final()]);
+        try {
+            return decipherWith(this._aead, this.sessionKey, enc);
+        } catch (e) {
+            if (this.nextSessionKey) {
+                try {
+                    return decipherWith(this._aead, this.nextSessionKey, enc);
+                } catch {
+                    // Fall through to the previous session key.
+                }
+            }
 
-        return final;
+            if (!this.previousSessionKey || Date.now() > this.previousKeyExpiresAt) throw e;
+            return decipherWith(this._aead, this.previousSessionKey, enc);
+        }
     }
 
     //#region ======= STATIC =======
@@ -614,13 +877,18 @@ class ECDHE {
 
 export {
     type CryptoCurve,
+    type KeyCurve,
+    type AEADAlgorithm,
+    type LinkOptions,
     type EncryptedMessage,
     type Challenge,
     type ChallengeControl,
 
     HASH_ALGO,
     HASH_LEN,
+    LEGACY_AEAD,
 
+    isAEADAlgorithm,
     ECDHE
 };
 
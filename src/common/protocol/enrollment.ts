@@ -0,0 +1,90 @@
+/**
+ * @module Enrollment
+ *
+ * @description Authentication of agents during the registration process. An agent claims the name of a device
+ * on the first phase of the registration, and proves it holds the credentials provisioned for that device on the
+ * third phase, bound to the keys exchanged in between so that the proof can not be replayed. Two kinds of
+ * credentials are supported:
+ * - A pre-shared enrollment token, known to both parties. The proof is an HMAC keyed with the token.
+ * - An Ed25519 key pair generated for the agent, whose public key is known to the server. The proof is a signature.
+ *
+ * @copyright Copyright (c) 2024 DarkenLM https://github.com/DarkenLM
+ */
+
+import crypto from "crypto";
+import { BufferWriter } from "$common/util/buffer.js";
+import { HASH_ALGO } from "$common/protocol/ecdhe.js";
+
+//#region ============== Types ==============
+/**
+ * The credentials held by an agent.
+ */
+type AgentCredential = { token: string } | { privateKey: crypto.KeyObject };
+
+/**
+ * The credentials of a device, as known by the server.
+ */
+type EnrollmentCredential = { token: string } | { publicKey: crypto.KeyObject };
+//#endregion ============== Types ==============
+
+//#region ============== Constants ==============
+/**
+ * Prepended to the data proven by an agent, so that the proof can not be taken for one made for any other purpose.
+ */
+const ENROLLMENT_CONTEXT = Buffer.from("NetTask agent enrollment", "utf8");
+//#endregion ============== Constants ==============
+
+/**
+ * Returns the data an agent proves it's credentials over: the ephemeral keys of both parties and the salt of the
+ * registration. The key of the server is fresh on every registration, and so is the proof.
+ */
+function makeEnrollmentTranscript(agentPublicKey: Buffer, serverPublicKey: Buffer, salt: Buffer): Buffer {
+    const writer = new BufferWriter();
+    for (const part of [ENROLLMENT_CONTEXT, agentPublicKey, serverPublicKey, salt]) {
+        writer.writeUInt32(part.byteLength);
+        writer.write(part);
+    }
+
+    return writer.finish();
+}
+
+/**
+ * Creates the proof that an agent holds it's credentials.
+ *
+ * @param credential The credentials of the agent.
+ * @param transcript The data to prove the credentials over. See {@link makeEnrollmentTranscript}.
+ */
+function proveEnrollment(credential: AgentCredential, transcript: Buffer): Buffer {
+    if ("token" in credential) return crypto.createHmac(HASH_ALGO, credential.token).update(transcript).digest();
+    return crypto.sign(null, transcript, credential.privateKey);
+}
+
+/**
+ * Verifies the proof that an agent holds the credentials of a device.
+ *
+ * @param credential The credentials of the device.
+ * @param transcript The data the credentials were proven over. See {@link makeEnrollmentTranscript}.
+ * @param proof The proof sent by the agent.
+ * @returns A boolean representing whether or not the proof is valid.
+ */
+function verifyEnrollment(credential: EnrollmentCredential, transcript: Buffer, proof: Buffer): boolean {
+    if ("publicKey" in credential) {
+        try {
+            return crypto.verify(null, transcript, credential.publicKey, proof);
+        } catch {
+            return false;
+        }
+    }
+
+    const expected = crypto.createHmac(HASH_ALGO, credential.token).update(transcript).digest();
+    return expected.byteLength === proof.byteLength && crypto.timingSafeEqual(expected, proof);
+}
+
+export {
+    type AgentCredential,
+    type EnrollmentCredential,
+
+    makeEnrollmentTranscript,
+    proveEnrollment,
+    verifyEnrollment
+};
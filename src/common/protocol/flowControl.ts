@@ -7,14 +7,74 @@
  * @copyright Copyright (c) 2024 Pauloarf https://github.com/Pauloarf
  */
 
-import { NetTask, NetTaskDatagramType, NetTaskRejectedReason } from "$common/datagram/NetTask.js";
+import { NetTask, NetTaskDatagramType, NetTaskRejectedReason, NetTaskSackRange } from "$common/datagram/NetTask.js";
 import { getOrCreateGlobalLogger } from "$common/util/logger.js";
+import { AIMDCongestionControl, CongestionControl } from "$common/protocol/congestionControl.js";
 
 /**
  * This variable is used to set the maximum payload size... A bigger payload casuas fragmentation
  */
 const MAX_PAYLOAD_SIZE = 1425;
 
+/**
+ * The default number of datagrams an entity is able to buffer on it's receiving end, advertised to the other end
+ * as it's window.
+ */
+const DEFAULT_PACKET_WINDOW = 32;
+
+/**
+ * Datagram types that only carry acknowledgements. These are never retransmitted, so they do not take space 
+ * on the window and are sent right away, ahead of any queued datagram.
+ */
+const ACK_ONLY_TYPES = [
+    NetTaskDatagramType.BODYLESS,
+    NetTaskDatagramType.SELECTIVE_ACK,
+    NetTaskDatagramType.CONNECTION_REJECTED
+];
+
+/**
+ * The maximum size, in bytes, a fragmented message is allowed to have after being reassembled.
+ */
+const MAX_REASSEMBLY_SIZE = 256 * 1024;
+
+/**
+ * The time, in milliseconds, a received fragment is kept while waiting for the rest of its message.
+ */
+const REASSEMBLY_TIMEOUT = 30000;
+
+/**
+ * The lower and upper bounds, in milliseconds, of the computed retransmission timeout.
+ */
+const MIN_RETRANSMISSION_TIMEOUT = 200;
+const MAX_RETRANSMISSION_TIMEOUT = 60000;
+
+/**
+ * Smoothing factors used on the RTT estimation, as defined in RFC 6298.
+ */
+const RTT_ALPHA = 1 / 8;
+const RTT_BETA = 1 / 4;
+const RTT_K = 4;
+
+/**
+ * The current round-trip time estimates of a connection, in milliseconds.
+ */
+interface RTTEstimates {
+    srtt?: number,
+    rttvar?: number,
+    rto: number,
+    samples: number
+}
+
+/**
+ * A fragment kept by the FlowControl while its message is being reassembled.
+ */
+interface FragmentEntry {
+    offset: number,
+    moreFragments: boolean,
+    data: Buffer,
+    timer: NodeJS.Timeout
+}
+
 /**
  * This class helps in the creation of custom errors.
  *
@@ -77,6 +137,30 @@ class ReachedMaxWindowError extends CustomError {
     }
 }
 
+/**
+ * This error is used to identenfy when a received fragment does not line up with the rest of its message.
+ *
+ * @class OverlappingFragmentError
+ * @extends {CustomError}
+ */
+class OverlappingFragmentError extends CustomError {
+    constructor(sequenceNumber: number, expected: number, received: number) {
+        super(`The received fragment overlaps the reassembled message! Seq: ${sequenceNumber}; Expected offset: ${expected}; Received: ${received}`);
+    }
+}
+
+/**
+ * This error is used to identenfy when a fragmented message exceeds the maximum reassembly size.
+ *
+ * @class OversizedReassemblyError
+ * @extends {CustomError}
+ */
+class OversizedReassemblyError extends CustomError {
+    constructor(sequenceNumber: number, size: number) {
+        super(`The reassembled message is too big! Seq: ${sequenceNumber}; Size: ${size}; Max: ${MAX_REASSEMBLY_SIZE}`);
+    }
+}
+
 /**
  * This error is used to identenfy when a connection is rejected.
  *
@@ -95,7 +179,17 @@ class ConnectionRejected extends CustomError {
  * than just flow, it controls most aspects of the connection, including fragmentation, timers for
  * ratransmission and more.
  * 
- * (04/12/2024) Fragmentations remains not implemented
+ * Datagrams bigger than the maximum payload size are split into fragments with consecutive sequence numbers,
+ * each one being acknowledged and retransmitted on it's own. On the receiving end, fragments are kept until
+ * the whole message is present, and then reassembled by offset.
+ * 
+ * The retransmission timeout is computed from the measured round-trip times of acknowledged datagrams,
+ * following RFC 6298: retransmitted datagrams are never sampled (Karn's rule), and the timeout is doubled
+ * on every expired timer until a new sample is taken.
+ * 
+ * Every datagram sent advertises how many more datagrams this end is able to buffer. The other end uses it
+ * as a sliding window: datagrams that do not fit in the window wait on the queue, and are sent as acks arrive.
+ * The window is further limited by a pluggable {@link CongestionControl} strategy, AIMD by default.
  * 
  * @example
  * const fwc = new FlowControl(); ||  const fwc = new FlowControl(5); 
@@ -103,11 +197,12 @@ class ConnectionRejected extends CustomError {
  */
 class FlowControl{
     private completeMsg: {
-        [nrSeq: number] : Buffer;
+        [nrSeq: number] : FragmentEntry;
     };
     private lastSeq: number;
     private lastAck: number;
     private packetWindow: number;
+    private peerWindow: number;
     private recoveryList: NetTask[];
     private packetsToSend: NetTask[];
     private preventDups: number[];
@@ -116,19 +211,31 @@ class FlowControl{
     private retransmissionCounts: Map<number, number>;
     private retransmissionTimeout: number;
     private maxRetransmissions: number;
+    private sendTimes: Map<number, number>;
+    private srtt?: number;
+    private rttvar?: number;
+    private rttSamples: number;
+    private congestionControl: CongestionControl;
 
     /**
      * Creates an instance of FlowControl.
-     * @param {number} [packetWindow=3]
-     * @param {number} [retransmissionTimeout=1000]
-     * @param {number} [maxRetransmissions=3]
+     * @param {number} [packetWindow=32] The number of datagrams this end is able to buffer, advertised to the other end.
+     * @param {number} [retransmissionTimeout=1000] The initial retransmission timeout, used until the first RTT sample.
+     * @param {number} [maxRetransmissions=15]
+     * @param {CongestionControl} [congestionControl] The congestion control strategy. Defaults to AIMD.
      * @memberof FlowControl
      */
-    public constructor(packetWindow: number = 3, retransmissionTimeout: number = 1000, maxRetransmissions: number = 15) {
+    public constructor(
+        packetWindow: number = DEFAULT_PACKET_WINDOW, 
+        retransmissionTimeout: number = 1000, 
+        maxRetransmissions: number = 15,
+        congestionControl: CongestionControl = new AIMDCongestionControl()
+    ) {
         this.completeMsg = {};
         this.lastSeq = 1;
         this.lastAck = 0;
         this.packetWindow = packetWindow;
+        this.peerWindow = packetWindow;
         this.recoveryList = [];
         this.packetsToSend = [];
         this.preventDups = [];
@@ -136,6 +243,9 @@ class FlowControl{
         this.retransmissionCounts = new Map<number, number>();
         this.retransmissionTimeout = retransmissionTimeout;
         this.maxRetransmissions = maxRetransmissions;
+        this.sendTimes = new Map<number, number>();
+        this.rttSamples = 0;
+        this.congestionControl = congestionControl;
     }
 
     public getCompleteMsg() { return this.completeMsg; }
@@ -148,42 +258,115 @@ class FlowControl{
 
     public setLastAck(ack: number) { this.lastAck = ack; return this; }
 
+    /**
+     * Returns the current round-trip time estimates and the retransmission timeout computed from them.
+     *
+     * @return {*}  {RTTEstimates}
+     * @memberof FlowControl
+     */
+    public getRTTEstimates(): RTTEstimates {
+        return { srtt: this.srtt, rttvar: this.rttvar, rto: this.retransmissionTimeout, samples: this.rttSamples };
+    }
+
     //public addMsgToBuffer(msg: Buffer){
     //    return msg;
     //}
 
+    /**
+     * Returns the window advertised by the other end, that is, how many unacknowledged datagrams may be in flight.
+     */
+    public getPeerWindow() { return this.peerWindow; }
+
+    public getCongestionControl() { return this.congestionControl; }
+
+    /**
+     * Returns how many unacknowledged datagrams may be in flight, as limited by both the window advertised
+     * by the other end and the congestion window.
+     */
+    public getSendWindow() { return Math.min(this.peerWindow, this.congestionControl.getWindow()); }
+
+    /**
+     * Returns the window to advertise to the other end: the number of datagrams this end is still able to buffer,
+     * discounting the out-of-order datagrams and fragments waiting to be delivered. Never advertises less than
+     * one datagram, so that the connection is never stalled.
+     *
+     * @return {*}  {number}
+     * @memberof FlowControl
+     */
+    public getAdvertisedWindow(): number {
+        const buffered = this.preventDups.filter(nr => nr > this.lastAck).length + Object.keys(this.completeMsg).length;
+
+        return Math.max(1, this.packetWindow - buffered);
+    }
+
     /**
      * Adds the datagram used as input to the controlled queue. Then returns the first element, which
-     * is the one that should be sent. This assures that the MaxWindow size is never reached.
+     * is the one that should be sent. This assures that the window advertised by the other end is never exceeded.
+     * If the window is full, the datagram is kept on the queue and a {@link ReachedMaxWindowError} is thrown.
+     * 
+     * New datagrams have their sequence numbers reserved as soon as they are queued, so that no other datagram 
+     * gets created with them while they wait. Acknowledgements and retransmissions skip the queue.
      *
      * @param {NetTask} [dg]
      * @return {*}  {NetTask}
      * @memberof FlowControl
      */
     public controlledSend(dg?: NetTask): NetTask {
-        const logger = getOrCreateGlobalLogger();
         if ( dg ) {
-            if(dg.getPayloadSize() <= MAX_PAYLOAD_SIZE){
-                this.packetsToSend.push(dg);
-            } else {
-                // TODO: 
-                logger.warn("Added a package that should be fragmented! - Fragmentation not implemented");
-                this.packetsToSend.push(dg);
-                //const nrDgNecessary = Math.ceil(dg.getPayloadSize() / MAX_PAYLOAD_SIZE);
-                //Criar nrDGNecessary de datagramas
-                //roubar o payload a mais e colocar nos restantes
+            const isNew = dg.getSequenceNumber() === this.lastSeq;
+
+            if(ACK_ONLY_TYPES.includes(dg.getType()) || !isNew){
+                if(isNew){
+                    this.readyToSend(dg);
+                } else {
+                    dg.setNack(0);
+                }
+
+                dg.setWindow(this.getAdvertisedWindow());
+                return dg;
             }
+
+            const fragments = dg.fragment(MAX_PAYLOAD_SIZE);
+            for (const fragment of fragments){
+                this.readyToSend(fragment);
+            }
+            this.packetsToSend.push(...fragments);
         }
-        if(this.timers.size >= this.packetWindow){
+        if(this.timers.size >= this.getSendWindow()){
             throw new ReachedMaxWindowError();
         }
-        const dgToSend = this.packetsToSend.pop();
+        const dgToSend = this.packetsToSend.shift();
         if(!dgToSend){
             throw new Error(`There is no datagram to send...`);
         }
+
+        dgToSend.setWindow(this.getAdvertisedWindow());
         return dgToSend;
     }
 
+    /**
+     * Returns a boolean indicating whether there are datagrams waiting on the queue to be sent.
+     *
+     * @return {*}  {boolean}
+     * @memberof FlowControl
+     */
+    public hasPendingPackets(): boolean {
+        return this.packetsToSend.length > 0;
+    }
+
+    /**
+     * Returns every datagram not yet acknowledged by the other end, in sequence order. These are the datagrams
+     * in flight, followed by the datagrams waiting on the queue.
+     *
+     * @return {*}  {NetTask[]}
+     * @memberof FlowControl
+     */
+    public getUnacknowledged(): NetTask[] {
+        const inFlight = this.recoveryList.filter(dg => this.timers.has(dg.getSequenceNumber()));
+
+        return [...inFlight, ...this.packetsToSend];
+    }
+
     private addToRecoveryList(dg: NetTask){
         if(this.recoveryList.length <= 500){
             this.recoveryList.push(dg);
@@ -201,7 +384,21 @@ class FlowControl{
      * @return {*}  {NetTask}
      * @memberof FlowControl
      */
-    public getDgFromRecoveryList(seq: number): NetTask{
+    public getDgFromRecoveryList(seq: number): NetTask;
+    /**
+     * Retrives from the revocery list every old datagram with a sequence number present in the input list.
+     * Datagrams that no longer exist in the recovery list are skipped.
+     *
+     * @param {number[]} seqs
+     * @return {*}  {NetTask[]}
+     * @memberof FlowControl
+     */
+    public getDgFromRecoveryList(seqs: number[]): NetTask[];
+    public getDgFromRecoveryList(seq: number | number[]): NetTask | NetTask[] {
+        if (Array.isArray(seq)) {
+            return this.recoveryList.filter(dg => seq.includes(dg.getSequenceNumber()));
+        }
+
         for (const dg of this.recoveryList){
             if(dg.getSequenceNumber() === seq){
                 return dg;
@@ -251,6 +448,13 @@ class FlowControl{
             throw new MaxRetransmissionsReachedError(seqNumber);
         }
         this.retransmissionCounts.set(seqNumber, currentCount + 1);
+
+        // Karn's rule: the ack of a retransmitted datagram is ambiguous, so it is not used as an RTT sample.
+        if (currentCount === 0) {
+            this.sendTimes.set(seqNumber, Date.now());
+        } else {
+            this.sendTimes.delete(seqNumber);
+        }
     
         if (this.timers.has(seqNumber)) {
             clearTimeout(this.timers.get(seqNumber)!);
@@ -262,6 +466,8 @@ class FlowControl{
     
         const timer = setTimeout(() => {
             logger.warn(`Timeout: Pacote ${seqNumber} não foi reconhecido.`);
+            this.backoff();
+            this.congestionControl.onTimeout();
             onTimeout(seqNumber);
         }, this.retransmissionTimeout);
     
@@ -275,10 +481,47 @@ class FlowControl{
         if (this.timers.has(seqNumber)) {
             clearTimeout(this.timers.get(seqNumber)!);
             this.timers.delete(seqNumber);
+
+            const sentAt = this.sendTimes.get(seqNumber);
+            if (sentAt !== undefined) this.sampleRTT(Date.now() - sentAt);
+
+            this.congestionControl.onAck();
         }
+        this.sendTimes.delete(seqNumber);
         this.retransmissionCounts.delete(seqNumber);
     }
 
+    /**
+     * Updates the smoothed RTT and RTT variation with a new sample, and recomputes the retransmission timeout.
+     *
+     * @param {number} rtt The measured round-trip time, in milliseconds.
+     * @memberof FlowControl
+     */
+    private sampleRTT(rtt: number) {
+        if (this.srtt === undefined || this.rttvar === undefined) {
+            this.srtt = rtt;
+            this.rttvar = rtt / 2;
+        } else {
+            this.rttvar = (1 - RTT_BETA) * this.rttvar + RTT_BETA * Math.abs(this.srtt - rtt);
+            this.srtt = (1 - RTT_ALPHA) * this.srtt + RTT_ALPHA * rtt;
+        }
+
+        this.rttSamples++;
+        this.retransmissionTimeout = Math.min(
+            Math.max(this.srtt + Math.max(1, RTT_K * this.rttvar), MIN_RETRANSMISSION_TIMEOUT), 
+            MAX_RETRANSMISSION_TIMEOUT
+        );
+    }
+
+    /**
+     * Doubles the retransmission timeout after an expired timer, up to the maximum allowed.
+     *
+     * @memberof FlowControl
+     */
+    private backoff() {
+        this.retransmissionTimeout = Math.min(this.retransmissionTimeout * 2, MAX_RETRANSMISSION_TIMEOUT);
+    }
+
     /**
      * This funciton evaluates if the connection is a new register and restart the flowControl values.
      * If it is not a register, verifies duplication an throws an error if duplicated.
@@ -298,6 +541,10 @@ class FlowControl{
             return isCorrect;
         }
 
+        if (dg.getWindow() > 0) {
+            this.peerWindow = dg.getWindow();
+        }
+
         // Wake defines a new connection. If valid, will reset the current flow control and give a new sequence number.
         //if (dg.getType() === NetTaskDatagramType.WAKE) {
         //    return isCorrect;
@@ -327,34 +574,160 @@ class FlowControl{
         return isCorrect;
     }    
 
-    public packetsMissing(sq: number){
+    /**
+     * Stores a received fragment and attempts to reassemble the message it belongs to. Fragments of the same message
+     * have consecutive sequence numbers, with the first one having offset 0 and the last one having the more fragments
+     * flag unset. Fragments that are not reassembled in time are discarded.
+     *
+     * @param {NetTask} dg The header of the received fragment.
+     * @param {Buffer} data The slice of the message body carried by the fragment.
+     * @return {*}  {(Buffer | undefined)} The reassembled message body, or undefined if fragments are still missing.
+     * @memberof FlowControl
+     */
+    public reassemble(dg: NetTask, data: Buffer): Buffer | undefined {
+        const seq = dg.getSequenceNumber();
+        if (dg.getOffset() + data.byteLength > MAX_REASSEMBLY_SIZE) {
+            throw new OversizedReassemblyError(seq, dg.getOffset() + data.byteLength);
+        }
+
+        if (!this.completeMsg[seq]) {
+            const timer = setTimeout(() => {
+                const logger = getOrCreateGlobalLogger();
+                logger.warn(`Reassembly timeout: Fragmento ${seq} descartado.`);
+                delete this.completeMsg[seq];
+            }, REASSEMBLY_TIMEOUT);
+
+            this.completeMsg[seq] = { offset: dg.getOffset(), moreFragments: dg.getMoreFragmentsFlag(), data, timer };
+        }
+
+        let first = seq;
+        while (this.completeMsg[first] && this.completeMsg[first].offset > 0) first--;
+        if (!this.completeMsg[first]) return undefined;
+
+        const parts: Buffer[] = [];
+        let size = 0;
+        let last = first;
+        for (;; last++) {
+            const entry = this.completeMsg[last];
+            if (!entry) return undefined;
+
+            if (entry.offset !== size) {
+                this.discardFragments(first, last);
+                throw new OverlappingFragmentError(last, size, entry.offset);
+            }
+
+            parts.push(entry.data);
+            size += entry.data.byteLength;
+            if (!entry.moreFragments) break;
+        }
+
+        this.discardFragments(first, last);
+        return Buffer.concat(parts);
+    }
+
+    private discardFragments(first: number, last: number) {
+        for (let seq = first; seq <= last; seq++) {
+            if (this.completeMsg[seq]) {
+                clearTimeout(this.completeMsg[seq].timer);
+                delete this.completeMsg[seq];
+            }
+        }
+    }
+
+    /**
+     * Returns the ranges of sequence numbers received after the last acknowledged one, to be sent on a 
+     * selective acknowledgement.
+     *
+     * @return {*}  {NetTaskSackRange[]}
+     * @memberof FlowControl
+     */
+    public getReceivedRanges(): NetTaskSackRange[] {
+        const received = [...new Set(this.preventDups.filter(nr => nr > this.lastAck))].sort((a, b) => a - b);
+        const ranges: NetTaskSackRange[] = [];
+
+        for (const nr of received) {
+            const last = ranges[ranges.length - 1];
+            if (last && last.end + 1 === nr) {
+                last.end = nr;
+            } else {
+                ranges.push({ start: nr, end: nr });
+            }
+        }
+        return ranges;
+    }
+
+    /**
+     * Returns every sequence number missing on the other end, given the cumulative acknowledgement and 
+     * the ranges received on a selective acknowledgement. Only the datagrams still on the recovery list,
+     * and up to the last received range, are considered. Any missing datagram is reported to the congestion control
+     * as a loss.
+     *
+     * @param {number} ack
+     * @param {NetTaskSackRange[]} ranges
+     * @return {*}  {number[]}
+     * @memberof FlowControl
+     */
+    public packetsMissing(ack: number, ranges: NetTaskSackRange[]): number[] {
+        if (ranges.length === 0) return [];
+
+        const highest = Math.max(...ranges.map(range => range.end));
         const r = [];
 
-        for(let i = 1; i <= sq-this.lastAck ; i++){
-            if(this.lastAck+i <= sq || !this.isDup(sq)){
-                r.push(this.lastAck+i);
+        for (const dg of this.recoveryList) {
+            const nr = dg.getSequenceNumber();
+            if (nr <= ack || nr > highest) continue;
+
+            if (!ranges.some(range => range.start <= nr && nr <= range.end)) {
+                r.push(nr);
             }
         }
+        r.sort((a, b) => a - b);
+        if (r.length > 0) {
+            this.congestionControl.onLoss(r[0], this.lastSeq);
+        }
         return r;
     }
 
+    /**
+     * Stops the retransmission timers of every datagram within the ranges received on a selective acknowledgement.
+     *
+     * @param {NetTaskSackRange[]} ranges
+     * @memberof FlowControl
+     */
+    public acknowledgeRanges(ranges: NetTaskSackRange[]) {
+        for (const seqNumber of [...this.timers.keys()]) {
+            if (ranges.some(range => range.start <= seqNumber && seqNumber <= range.end)) {
+                this.clearTimer(seqNumber);
+            }
+        }
+    }
+
     public reset(newSeq: number = 1) {
+        Object.values(this.completeMsg).forEach((entry) => clearTimeout(entry.timer));
         this.completeMsg = {};
         this.lastSeq = newSeq;
         this.lastAck = newSeq - 1;
         this.recoveryList = [];
+        this.packetsToSend = [];
         this.preventDups = [];
 
         this.timers.forEach((timer) => clearTimeout(timer));
         this.timers.clear();
+        this.retransmissionCounts.clear();
+        this.sendTimes.clear();
+        this.congestionControl.reset();
     }
 }
 
 export {
+    type RTTEstimates,
+
     FlowControl,
     DuplicatedPackageError,
     OutOfOrderPackageError,
     MaxRetransmissionsReachedError,
     ReachedMaxWindowError,
+    OverlappingFragmentError,
+    OversizedReassemblyError,
     ConnectionRejected
 };
\ No newline at end of file
@@ -0,0 +1,120 @@
+/**
+ * @module Framing
+ *
+ * @description Framing of the messages sent over a TCP stream. TCP carries a stream of bytes, not messages: a message
+ * might arrive split across several chunks, and a chunk might carry several messages. Every message is therefore
+ * sent as a frame, prefixed by it's length, and reassembled by the receiver from the chunks it gets.
+ *
+ * A frame longer than the maximum frame size, or empty, is a protocol error. Since the stream can no longer be
+ * trusted to be in sync after one, the connection should be closed.
+ *
+ * @copyright Copyright (c) 2024 DarkenLM https://github.com/DarkenLM
+ */
+
+//#region ============== Constants ==============
+/**
+ * The size, in bytes, of the length prefix of a frame.
+ */
+const FRAME_HEADER_SIZE = 4;
+
+/**
+ * The default maximum size, in bytes, of the payload of a frame.
+ */
+const MAX_FRAME_SIZE = 64 * 1024;
+//#endregion ============== Constants ==============
+
+/**
+ * Thrown when a stream does not respect the framing protocol.
+ */
+class FramingError extends Error {
+    public constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = "FramingError";
+    }
+}
+
+/**
+ * Wraps a message into a frame, ready to be written to a stream.
+ *
+ * @param payload The message.
+ * @param maxFrameSize The maximum size, in bytes, of the payload of a frame.
+ * @throws {FramingError} If the message is empty or too long to fit in a frame.
+ */
+function frame(payload: Buffer, maxFrameSize: number = MAX_FRAME_SIZE): Buffer {
+    if (payload.byteLength === 0) throw new FramingError("[FRAME] Can not frame an empty message.");
+    if (payload.byteLength > maxFrameSize) {
+        throw new FramingError(`[FRAME] Message of ${payload.byteLength} bytes exceeds the maximum frame size of ${maxFrameSize} bytes.`);
+    }
+
+    const header = Buffer.alloc(FRAME_HEADER_SIZE);
+    header.writeUInt32BE(payload.byteLength);
+
+    return Buffer.concat([header, payload]);
+}
+
+/**
+ * Reassembles the frames received on a stream. One instance must be used per connection.
+ *
+ * @example
+ * const frames = new FrameReader();
+ * socket.on("data", chunk => {
+ *     for (const message of frames.push(chunk)) handle(message);
+ * });
+ */
+class FrameReader {
+    /**
+     * The bytes received that do not yet make up a whole frame.
+     */
+    private buffer: Buffer;
+    private maxFrameSize: number;
+
+    /**
+     * @param maxFrameSize The maximum size, in bytes, of the payload of a frame.
+     */
+    public constructor(maxFrameSize: number = MAX_FRAME_SIZE) {
+        this.buffer = Buffer.alloc(0);
+        this.maxFrameSize = maxFrameSize;
+    }
+
+    /**
+     * Returns the number of bytes received that do not yet make up a whole frame.
+     */
+    public get pending(): number {
+        return this.buffer.byteLength;
+    }
+
+    /**
+     * Adds a chunk received on the stream, returning the payload of every frame completed by it, in order.
+     *
+     * @param chunk The chunk received.
+     * @throws {FramingError} If a frame is empty or longer than the maximum frame size.
+     */
+    public push(chunk: Buffer): Buffer[] {
+        this.buffer = this.buffer.byteLength === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+        const frames: Buffer[] = [];
+        while (this.buffer.byteLength >= FRAME_HEADER_SIZE) {
+            const length = this.buffer.readUInt32BE(0);
+            if (length === 0) throw new FramingError("[FRAME] Received an empty frame.");
+            if (length > this.maxFrameSize) {
+                throw new FramingError(`[FRAME] Frame of ${length} bytes exceeds the maximum frame size of ${this.maxFrameSize} bytes.`);
+            }
+
+            if (this.buffer.byteLength < FRAME_HEADER_SIZE + length) break;
+
+            frames.push(this.buffer.subarray(FRAME_HEADER_SIZE, FRAME_HEADER_SIZE + length));
+            this.buffer = this.buffer.subarray(FRAME_HEADER_SIZE + length);
+        }
+
+        return frames;
+    }
+}
+
+export {
+    FRAME_HEADER_SIZE,
+    MAX_FRAME_SIZE,
+
+    FramingError,
+    frame,
+    FrameReader
+};
@@ -0,0 +1,94 @@
+/**
+ * @module Replay
+ *
+ * @description Protection against replayed datagrams. Every enveloped datagram carries the time it was enveloped at,
+ * authenticated along with the rest of the envelope. Datagrams enveloped too long ago are rejected as stale, and the
+ * initialization vector of every datagram is remembered for as long as it is not stale, so that datagrams received
+ * twice are rejected as repeated. Since every datagram, retransmissions included, is enveloped with a new random
+ * initialization vector, only replays are ever rejected as repeated.
+ *
+ * **NOTE:** The initialization vectors seen are only kept in memory. A datagram replayed within the window right
+ * after a party restarts is not detected.
+ *
+ * @copyright Copyright (c) 2024 DarkenLM https://github.com/DarkenLM
+ */
+
+//#region ============== Constants ==============
+/**
+ * Time, in milliseconds, during which an enveloped datagram is accepted, in either direction, to tolerate both the
+ * time a datagram takes to arrive and the clock skew between the parties.
+ */
+const REPLAY_WINDOW = 2 * 60 * 1000;
+//#endregion ============== Constants ==============
+
+/**
+ * Thrown when a replayed datagram is received.
+ */
+class ReplayError extends Error {
+    /**
+     * Whether the datagram was rejected for being enveloped outside of the window, or for being received before.
+     */
+    public reason: "stale" | "repeated";
+
+    public constructor(reason: "stale" | "repeated", message: string) {
+        super(message);
+        this.name = "ReplayError";
+        this.reason = reason;
+    }
+}
+
+/**
+ * Keeps track of the datagrams received by a party, rejecting the ones that were replayed.
+ */
+class ReplayGuard {
+    /**
+     * The initialization vectors seen, hex encoded, along with the time they become stale at.
+     */
+    private seen: Map<string, number>;
+    private window: number;
+
+    /**
+     * @param window Time, in milliseconds, during which an enveloped datagram is accepted.
+     */
+    public constructor(window: number = REPLAY_WINDOW) {
+        this.seen = new Map();
+        this.window = window;
+    }
+
+    /**
+     * Checks that a datagram is not a replay, and remembers it so that it is rejected if received again.
+     *
+     * @param timestamp The time the datagram was enveloped at, in milliseconds.
+     * @param nonce The initialization vector of the datagram.
+     * @throws {ReplayError} If the datagram is stale or was already received.
+     */
+    public check(timestamp: number, nonce: Buffer): void {
+        const now = Date.now();
+        this.prune(now);
+
+        if (Math.abs(now - timestamp) > this.window) {
+            throw new ReplayError("stale", `[REPLAY] Datagram enveloped ${Math.round((now - timestamp) / 1000)}s ago is outside the replay window.`);
+        }
+
+        const key = nonce.toString("hex");
+        if (this.seen.has(key)) throw new ReplayError("repeated", "[REPLAY] Datagram was already received.");
+
+        this.seen.set(key, timestamp + this.window);
+    }
+
+    /**
+     * Forgets every initialization vector that became stale, since the datagrams carrying them are rejected anyway.
+     */
+    private prune(now: number) {
+        for (const [key, staleAt] of this.seen) {
+            if (staleAt < now) this.seen.delete(key);
+        }
+    }
+}
+
+export {
+    REPLAY_WINDOW,
+
+    ReplayError,
+    ReplayGuard
+};
@@ -132,6 +132,13 @@ class BufferReader implements _BufferReaderIndex {
         return value;
     }
 
+    /**
+     * Reads every byte left on the buffer.
+     */
+    public readRemaining(): Buffer {
+        return this.read(this.buffer.byteLength - this.offset);
+    }
+
     public readUInt8!: () => number;
     public readUInt16!: () => number;
     public readUInt32!: () => number;
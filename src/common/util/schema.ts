@@ -2,13 +2,54 @@
  * @description This module contains an implementation of a data syntax validation system. It allows the definition of a schema
  * that can be used both for compile-time type inference and runtime data validation.
  * 
+ * Validation does not stop on the first failure. Every {@link SchemaIssue|issue} found is reported, along with the path 
+ * of the offending value from the root of the parsed data. Parsed values are copies of the data, containing only what
+ * is described by the Schemas.
+ * 
  * @copyright Copyright (c) 2024 DarkenLM https://github.com/DarkenLM
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // import { getOrCreateGlobalLogger } from "$common/util/logger.js";
 import { ObjectKey } from "$common/util/object.js";
-import { isInvalid, isValid, makeInvalid, makeValid, Validation } from "$common/util/validation.js";
+import { Invalid, isInvalid, isValid, makeInvalid, makeValid, Valid, Validation } from "$common/util/validation.js";
+
+//#region ============== Types ==============
+/**
+ * The location of a value within the parsed data. Object keys are represented by strings, and array indexes by numbers.
+ */
+type SchemaPath = (string | number)[];
+
+/**
+ * A problem found while parsing data, located by the path of the offending value.
+ */
+interface SchemaIssue {
+    path: SchemaPath,
+    message: string
+}
+
+/**
+ * The state shared by every validator during a single parse.
+ */
+interface SchemaContext {
+    /**
+     * The path of the value currently being parsed.
+     */
+    path: SchemaPath,
+    /**
+     * Problems that do not invalidate the data, like unknown object properties.
+     */
+    warnings: SchemaIssue[]
+}
+
+/**
+ * Used by {@link s.refine|refinements} to report problems found on already parsed data. 
+ * The paths passed are relative to the refined value.
+ */
+interface SchemaReporter {
+    error(message: string, ...path: SchemaPath): void,
+    warn(message: string, ...path: SchemaPath): void
+}
 
 /**
  * Defines a validator for a Schema. A Schema can be any of the defined validators, as they can be used in nested hierarchies.
@@ -17,8 +58,9 @@ interface SchemaValidator<T>  {
     /**
      * The runtime data assertion and processing function to be used for this validator.
      * @param data 
+     * @param ctx The state of the parse. Should only be passed to collect warnings, or by other validators.
      */
-    parse(data: unknown): Validation<T>,
+    parse(data: unknown, ctx?: SchemaContext): Validation<T>,
     /**
      * The value that was used to initialize this validator, if any. Used in helper validators like partial to be able to access
      * the original validator properties.
@@ -35,12 +77,98 @@ interface SchemaValidator<T>  {
  */
 type ExtractSchemaType<V> = V extends SchemaValidator<infer T> ? T : never;
 
-function makeSchemaValidator<T>(parser: SchemaValidator<T>["parse"], imprint?: unknown): SchemaValidator<T> {
+/**
+ * The type of an {@link s.object|Object Schema}. Properties whose Schema accepts `undefined` are made optional.
+ */
+type ObjectSchemaType<T extends Record<string, SchemaValidator<any>>> = Flatten<
+    { [K in keyof T as undefined extends ExtractSchemaType<T[K]> ? never : K]: ExtractSchemaType<T[K]> }
+    & { [K in keyof T as undefined extends ExtractSchemaType<T[K]> ? K : never]?: ExtractSchemaType<T[K]> }
+>;
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/**
+ * How an {@link s.object|Object Schema} handles properties that are not part of the Schema. 
+ * Accepted properties are still left out of the parsed value.
+ * - `ignore`: The properties are accepted silently.
+ * - `warn`: The properties are accepted, but reported as warnings.
+ * - `reject`: The properties are reported as errors.
+ */
+type UnknownKeysPolicy = "ignore" | "warn" | "reject";
+//#endregion ============== Types ==============
+
+//#region ============== Errors ==============
+/**
+ * The error associated with the invalid state of a Schema, containing every issue found.
+ */
+class SchemaError extends Error {
+    public issues: SchemaIssue[];
+
+    constructor(issues: SchemaIssue[], options?: ErrorOptions) {
+        super(issues.map(formatSchemaIssue).join("\n"), options);
+        this.name = "SchemaError";
+        this.issues = issues;
+    }
+}
+//#endregion ============== Errors ==============
+
+//#region ============== Utilities ==============
+/**
+ * Converts a {@link SchemaPath} into it's JSON path representation.
+ * 
+ * @example
+ * formatSchemaPath(["devices", "device1", "tasks", 0]); // "devices.device1.tasks[0]"
+ */
+function formatSchemaPath(path: SchemaPath): string {
+    if (path.length === 0) return "<root>";
+
+    return path.reduce<string>((acc, key) => {
+        if (typeof key === "number") return `${acc}[${key}]`;
+        return acc === "" ? key : `${acc}.${key}`;
+    }, "");
+}
+
+function formatSchemaIssue(issue: SchemaIssue): string {
+    return `${formatSchemaPath(issue.path)}: ${issue.message}`;
+}
+
+/**
+ * Creates the state for a new parse, starting at the root of the data.
+ */
+function makeSchemaContext(): SchemaContext {
+    return { path: [], warnings: [] };
+}
+
+/**
+ * Returns the state for parsing a child of the value currently being parsed.
+ */
+function enterSchemaContext(ctx: SchemaContext, key: string | number): SchemaContext {
+    return { path: [...ctx.path, key], warnings: ctx.warnings };
+}
+
+function makeSchemaInvalid(issues: SchemaIssue[]): Invalid {
+    return makeInvalid(new SchemaError(issues));
+}
+
+/**
+ * Returns the issues associated with an invalid state. Errors not raised by a Schema are located at the current path.
+ */
+function getSchemaIssues(validation: Invalid, ctx: SchemaContext): SchemaIssue[] {
+    if (validation.error instanceof SchemaError) return validation.error.issues;
+
+    return [{ path: ctx.path, message: validation.error?.message ?? "Invalid value." }];
+}
+
+function makeSchemaValidator<T>(
+    parser: (data: unknown, ctx: SchemaContext) => Validation<T>, 
+    imprint?: unknown
+): SchemaValidator<T> {
     return {
-        parse: parser,
+        parse: (data, ctx = makeSchemaContext()) => parser(data, ctx),
         _imprint: imprint
     };
 }
+//#endregion ============== Utilities ==============
 
 const s = {
     /**
@@ -49,14 +177,14 @@ const s = {
      * @param val Any Schema to be made optional.
      */
     nullable<T extends SchemaValidator<any>>(val: T): SchemaValidator<ExtractSchemaType<T> | undefined> {
-        return makeSchemaValidator(function(data) {
+        return makeSchemaValidator(function(data, ctx) {
             if (data === undefined) return makeValid(data);
 
-            const validation = val.parse(data);
+            const validation = val.parse(data, ctx);
             if (isInvalid(validation)) return validation;
 
             // return <ExtractSchemaType<T>>data;
-            return makeValid(<ExtractSchemaType<T>>data);
+            return makeValid(<ExtractSchemaType<T>>validation.value);
         }, val);
     },
     /**
@@ -68,20 +196,22 @@ const s = {
     partial<T extends SchemaValidator<Record<string, unknown>>>(
         val: T
     ): SchemaValidator<{ [K in keyof ExtractSchemaType<T>]?: ExtractSchemaType<T>[K] }> {
-        return makeSchemaValidator(function(data) {
-            if (typeof data !== "object" || data === null) return makeInvalid(new Error("Data is not an object."));
+        return makeSchemaValidator(function(data, ctx) {
+            if (typeof data !== "object" || data === null) return makeSchemaInvalid([{ path: ctx.path, message: "Data is not an object." }]);
             
+            const issues: SchemaIssue[] = [];
+            const value: Record<string, unknown> = {};
             const imprint = <Record<string, SchemaValidator<any>>>val._imprint;
             for (const key in imprint) {
                 if (!(key in data)) continue;
 
-                const validation = imprint[<keyof typeof imprint>key].parse(data[<keyof typeof data>key]);
-                if (isInvalid(validation)) return makeInvalid(
-                    new Error(`Invalid value for object key '${key}'.`, { cause: validation.error })
-                );
+                const validation = imprint[<keyof typeof imprint>key].parse(data[<keyof typeof data>key], enterSchemaContext(ctx, key));
+                if (isInvalid(validation)) issues.push(...getSchemaIssues(validation, enterSchemaContext(ctx, key)));
+                else value[key] = validation.value;
             }
 
-            return makeValid(data);
+            if (issues.length > 0) return makeSchemaInvalid(issues);
+            return makeValid(<{ [K in keyof ExtractSchemaType<T>]?: ExtractSchemaType<T>[K] }>value);
         }, val._imprint);
     },
     /**
@@ -91,24 +221,64 @@ const s = {
      * @param elements Any Schemas to be used as constraints for the union.
      */
     union<T extends SchemaValidator<any>[]>(...elements: T): SchemaValidator<ExtractSchemaType<T[number]>> {
-        return makeSchemaValidator(function(data) {
+        return makeSchemaValidator(function(data, ctx) {
             for (const val of elements) {
-                const validation = val.parse(data);
-                if (isValid(validation)) return validation;
+                // Only the warnings of the constraint that accepts the data are kept.
+                const attempt: SchemaContext = { path: ctx.path, warnings: [] };
+                const validation = val.parse(data, attempt);
+                if (isValid(validation)) {
+                    ctx.warnings.push(...attempt.warnings);
+                    return validation;
+                }
+            }
+
+            return makeSchemaInvalid([{ path: ctx.path, message: "Data does not fit union constraints." }]);
+        });
+    },
+    /**
+     * Represents a value that satisfies all of the given Schemas. Unlike {@link s.union|unions}, every Schema is always
+     * parsed, and the issues found by all of them are reported. The parsed value is the one of the first Schema.
+     * 
+     * @param a The first Schema to be used as constraint for the intersection.
+     * @param b The second Schema to be used as constraint for the intersection.
+     */
+    intersection<A extends SchemaValidator<any>, B extends SchemaValidator<any>>(
+        a: A, 
+        b: B
+    ): SchemaValidator<ExtractSchemaType<A> & ExtractSchemaType<B>> {
+        return makeSchemaValidator(function(data, ctx) {
+            const issues: SchemaIssue[] = [];
+            const validations = [a.parse(data, ctx), b.parse(data, ctx)];
+            for (const validation of validations) {
+                if (isInvalid(validation)) issues.push(...getSchemaIssues(validation, ctx));
             }
 
-            return makeInvalid(new Error("Data does not fit union constraints."));
+            // The same value may be rejected by both Schemas, for the same reason.
+            const unique = issues.filter((issue, i) => 
+                issues.findIndex(other => formatSchemaIssue(other) === formatSchemaIssue(issue)) === i
+            );
+
+            if (unique.length > 0) return makeSchemaInvalid(unique);
+            return makeValid(<ExtractSchemaType<A> & ExtractSchemaType<B>>(<Valid<unknown>>validations[0]).value);
+        });
+    },
+    /**
+     * Represents any value. Used for values that are validated elsewhere.
+     */
+    unknown(): SchemaValidator<unknown> {
+        return makeSchemaValidator(function(data) {
+            return makeValid(data);
         });
     },
     /**
      * Represents a boolean value.
      */
     boolean(): SchemaValidator<boolean> {
-        return makeSchemaValidator(function(data) {
+        return makeSchemaValidator(function(data, ctx) {
             if (typeof data === "boolean") {
                 return makeValid(data);
             } else {
-                return makeInvalid(new Error("Data is not a boolean."));
+                return makeSchemaInvalid([{ path: ctx.path, message: "Data is not a boolean." }]);
             }
         });
     },
@@ -116,11 +286,11 @@ const s = {
      * Represents any string value.
      */
     string(): SchemaValidator<string> {
-        return makeSchemaValidator(function(data) {
+        return makeSchemaValidator(function(data, ctx) {
             if (typeof data === "string") {
                 return makeValid(data);
             } else {
-                return makeInvalid(new Error("Data is not a string."));
+                return makeSchemaInvalid([{ path: ctx.path, message: "Data is not a string." }]);
             }
         });
     },
@@ -128,22 +298,38 @@ const s = {
      * Represents a specific string literal. A parsed value is only valid if and only if it is exactly equal to the imprint. 
      */
     stringLiteral<T extends string>(val: T): SchemaValidator<T> {
-        return makeSchemaValidator(function(data) {
-            if (typeof data !== "string") return makeInvalid(new Error("Data is not a string."));
+        return makeSchemaValidator(function(data, ctx) {
+            if (typeof data !== "string") return makeSchemaInvalid([{ path: ctx.path, message: "Data is not a string." }]);
 
             if (data === val) return makeValid(<T>data);
-            else return makeInvalid(new Error("Data is not equal to control."));
+            else return makeSchemaInvalid([{ path: ctx.path, message: "Data is not equal to control." }]);
         }, val);
     },
+    /**
+     * Represents one of a set of string or numeric literals. Equivalent to an {@link s.union|union} of literals, 
+     * but reports the accepted values when the data does not match any of them.
+     * 
+     * @param values The accepted values.
+     */
+    oneOf<T extends string | number>(...values: T[]): SchemaValidator<T> {
+        return makeSchemaValidator(function(data, ctx) {
+            if (values.includes(<T>data)) return makeValid(<T>data);
+
+            return makeSchemaInvalid([{ 
+                path: ctx.path, 
+                message: `Data is not one of ${values.map(v => JSON.stringify(v)).join(", ")}.` 
+            }]);
+        }, values);
+    },
     /**
      * Represents any numeric value.
      */
     number(): SchemaValidator<number> {
-        return makeSchemaValidator(function(data) {
+        return makeSchemaValidator(function(data, ctx) {
             if (typeof data === "number") {
                 return makeValid(data);
             } else {
-                return makeInvalid(new Error("Data is not a number."));
+                return makeSchemaInvalid([{ path: ctx.path, message: "Data is not a number." }]);
             }
         });
     },
@@ -151,24 +337,41 @@ const s = {
      * Represents an object with well-defined properties.
      * 
      * @param val An object with defined key-value-pairs of Schemas.
+     * @param unknownKeys How to handle properties not defined on the Schema. Defaults to `ignore`.
      */
-    object<T extends Record<string, SchemaValidator<any>>>(val: T): SchemaValidator<{ [K in keyof T]: ExtractSchemaType<T[K]> }> {
-        return makeSchemaValidator(function(data) {
-            if (typeof data !== "object" || data === null) return makeInvalid(new Error("Data is not an object."));
+    object<T extends Record<string, SchemaValidator<any>>>(
+        val: T, 
+        unknownKeys: UnknownKeysPolicy = "ignore"
+    ): SchemaValidator<ObjectSchemaType<T>> {
+        return makeSchemaValidator(function(data, ctx) {
+            if (typeof data !== "object" || data === null || Array.isArray(data)) 
+                return makeSchemaInvalid([{ path: ctx.path, message: "Data is not an object." }]);
 
+            const issues: SchemaIssue[] = [];
+            const value: Record<string, unknown> = {};
             for (const key in val) {
+                const keyCtx = enterSchemaContext(ctx, key);
+
                 // Cast is used here because the parser should fail for undefined keys unless it's a nullable.
-                const validation = val[key].parse(data[<keyof typeof data>key]);
+                const validation = val[key].parse(data[<keyof typeof data>key], keyCtx);
                 if (isInvalid(validation)) {
-                    if (!(key in data)) return makeInvalid(new Error(`Missing property in data: '${key}'.`));
+                    if (!(key in data)) issues.push({ path: keyCtx.path, message: "Missing property." });
+                    else issues.push(...getSchemaIssues(validation, keyCtx));
+                } else if (validation.value !== undefined) {
+                    value[key] = validation.value;
+                }
+            }
 
-                    return makeInvalid(
-                        new Error(`Invalid value for object key '${key}'.`, { cause: validation.error })
-                    );
+            if (unknownKeys !== "ignore") {
+                for (const key of Object.keys(data).filter(k => !(k in val))) {
+                    const issue = { path: [...ctx.path, key], message: "Unknown property." };
+                    if (unknownKeys === "warn") ctx.warnings.push(issue);
+                    else issues.push(issue);
                 }
             }
 
-            return makeValid(<{ [K in keyof T]: ExtractSchemaType<T[K]> }>data);
+            if (issues.length > 0) return makeSchemaInvalid(issues);
+            return makeValid(<ObjectSchemaType<T>>value);
         }, val);
     },
     /**
@@ -181,22 +384,28 @@ const s = {
         key: K, 
         val: V
     ): SchemaValidator<Record<ExtractSchemaType<K>, ExtractSchemaType<V>>> {
-        return makeSchemaValidator(function(data) {
-            if (typeof data !== "object" || data === null || Array.isArray(data)) return makeInvalid(
-                new Error("Data is not an object.")
-            );
+        return makeSchemaValidator(function(data, ctx) {
+            if (typeof data !== "object" || data === null || Array.isArray(data)) 
+                return makeSchemaInvalid([{ path: ctx.path, message: "Data is not an object." }]);
 
+            const issues: SchemaIssue[] = [];
+            const value: Record<string, unknown> = {};
             for (const k of Object.keys(data)) {
-                const validKey = key.parse(k);
-                if (isInvalid(validKey)) return makeInvalid(new Error(`Invalid key for record: '${k}'.`, { cause: validKey.error }));
+                const entryCtx = enterSchemaContext(ctx, k);
+
+                const validKey = key.parse(k, entryCtx);
+                if (isInvalid(validKey)) {
+                    issues.push(...getSchemaIssues(validKey, entryCtx).map(i => ({ ...i, message: `Invalid key: ${i.message}` })));
+                    continue;
+                }
                 
-                const validValue = val.parse(data[<keyof typeof data>k]);
-                if (isInvalid(validValue)) return makeInvalid(
-                    new Error(`Invalid value for record entry '${k}'.`, { cause: validValue.error })
-                );
+                const validValue = val.parse(data[<keyof typeof data>k], entryCtx);
+                if (isInvalid(validValue)) issues.push(...getSchemaIssues(validValue, entryCtx));
+                else value[k] = validValue.value;
             }
 
-            return makeValid(<Record<ExtractSchemaType<K>, ExtractSchemaType<V>>>data);
+            if (issues.length > 0) return makeSchemaInvalid(issues);
+            return makeValid(<Record<ExtractSchemaType<K>, ExtractSchemaType<V>>>value);
         });
     },
     /**
@@ -206,28 +415,69 @@ const s = {
      * @returns 
      */
     array<T extends SchemaValidator<any>>(val: T): SchemaValidator<ExtractSchemaType<T>[]> {
-        return makeSchemaValidator(function(data) {
+        return makeSchemaValidator(function(data, ctx) {
             if (typeof data !== "object" || data === null || !Array.isArray(data)) 
-                return makeInvalid(new Error("Data is not an array."));
+                return makeSchemaInvalid([{ path: ctx.path, message: "Data is not an array." }]);
 
+            const issues: SchemaIssue[] = [];
+            const value: unknown[] = [];
             for (let i = 0; i < data.length; i++) {
-                const elem = data[i];
-                const validation = val.parse(elem);
+                const elemCtx = enterSchemaContext(ctx, i);
+                const validation = val.parse(data[i], elemCtx);
 
-                if (isInvalid(validation)) return makeInvalid(new Error(
-                    `Invalid element at index ${i}.`,
-                    { cause: validation.error }
-                ));
+                if (isInvalid(validation)) issues.push(...getSchemaIssues(validation, elemCtx));
+                else value.push(validation.value);
             }
 
-            return makeValid(<ExtractSchemaType<T>[]>data);
+            if (issues.length > 0) return makeSchemaInvalid(issues);
+            return makeValid(<ExtractSchemaType<T>[]>value);
         });
+    },
+    /**
+     * Adds custom checks to a Schema, for constraints that can not be expressed by the Schema alone, like relations 
+     * between properties. The checks are only run after the data is accepted by the refined Schema.
+     * 
+     * @param val The Schema to refine.
+     * @param check The function performing the checks. Problems found are reported through the passed reporter.
+     * 
+     * @example
+     * const range = s.refine(s.object({ min: s.number(), max: s.number() }), (data, report) => {
+     *     if (data.min > data.max) report.error("Minimum is greater than the maximum.", "min");
+     * });
+     */
+    refine<T extends SchemaValidator<any>>(
+        val: T, 
+        check: (data: ExtractSchemaType<T>, report: SchemaReporter) => void
+    ): SchemaValidator<ExtractSchemaType<T>> {
+        return makeSchemaValidator(function(data, ctx) {
+            const validation = val.parse(data, ctx);
+            if (isInvalid(validation)) return validation;
+
+            const issues: SchemaIssue[] = [];
+            check(<ExtractSchemaType<T>>data, {
+                error: (message, ...path) => issues.push({ path: [...ctx.path, ...path], message }),
+                warn: (message, ...path) => ctx.warnings.push({ path: [...ctx.path, ...path], message })
+            });
+
+            if (issues.length > 0) return makeSchemaInvalid(issues);
+            return validation;
+        }, val._imprint);
     }
 } as const;
 
 export {
+    type SchemaPath,
+    type SchemaIssue,
+    type SchemaContext,
+    type SchemaReporter,
     type SchemaValidator,
     type ExtractSchemaType as InferSchema,
+
+    SchemaError,
+    
+    formatSchemaPath,
+    formatSchemaIssue,
+    makeSchemaContext,
     s
 };
 
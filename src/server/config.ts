@@ -1,10 +1,14 @@
-/* eslint-disable @typescript-eslint/no-empty-object-type */
+import crypto from "crypto";
+import fs from "fs";
+import fsp from "fs/promises";
 import path from "path";
-import { readJsonFile } from "$common/util/paths.js";
-import { isInvalid, isValid, makeInvalid, VALID, Validation } from "$common/util/validation.js";
+import JSON5 from "json5";
+import YAML from "yaml";
+import { isValid, Validation } from "$common/util/validation.js";
 import { getOrCreateGlobalLogger } from "$common/util/logger.js";
 import { parseStringInterval } from "$common/util/date.js";
-import { GenericObject } from "$common/util/object.js";
+import { deepMerge, GenericObject } from "$common/util/object.js";
+import { formatSchemaIssue, formatSchemaPath, InferSchema, makeSchemaContext, s, SchemaContext, SchemaError, SchemaReporter } from "$common/util/schema.js";
 
 //#region ============== Types ==============
 declare global {
@@ -12,71 +16,64 @@ declare global {
     var config: Config;
 }
 
-interface DeviceMetrics {
-    cpu_usage?: boolean,
-    ram_usage?: boolean,
-    interface_stats?: boolean,
-    volume?: boolean
+// The shape of the config is defined by it's schemas. See the Schemas region.
+type GlobalOptions = InferSchema<typeof GLOBAL_OPTIONS_SCHEMA>;
+type IperfMetrics = InferSchema<typeof IPERF_METRIC_SCHEMA>;
+type Latency = InferSchema<typeof LATENCY_METRIC_SCHEMA>;
+type AlertConditions = InferSchema<typeof ALERT_CONDITIONS_SCHEMA>;
+type Device = InferSchema<typeof DEVICE_SCHEMA>;
+type RawTask = InferSchema<typeof TASK_PROPERTIES_SCHEMA>;
+type RawTaskTemplate = InferSchema<typeof TASK_TEMPLATE_SCHEMA>;
+type RawConfig = InferSchema<typeof RAW_CONFIG_SCHEMA>;
+type ExpandedConfig = InferSchema<typeof EXPANDED_CONFIG_SCHEMA>;
+
+/**
+ * The contents of a single config file. Each file may define only part of the entries, 
+ * and include other files, relative to itself, with the remaining ones.
+ */
+type RawConfigFile = Partial<RawConfig> & {
+    include?: string | string[]
 }
 
-interface GlobalOptions {
-    mode?: string,
-    target?: string,
-    duration?: string,
-    transport?: string,
-    interval?: string,
-    counter?: number
+/**
+ * The state shared while resolving a config file and every file it includes.
+ */
+interface ConfigResolution {
+    config: RawConfig,
+    /**
+     * Every file read, in the order they were read.
+     */
+    files: string[],
+    /**
+     * The file where each entry was defined, used to report duplicate definitions.
+     */
+    sources: Record<string, string>
 }
 
-interface LinkMetrics {
-    bandwidth?: Bandwidth,
-    jitter?: Jitter,
-    packet_loss?: Packet_loss,
-    latency?: Latency
+/**
+ * A config, along with every file it was loaded from.
+ */
+interface LoadedConfig {
+    config: Config,
+    files: string[]
 }
 
-interface IperfMetrics {
-    mode?: string,
-    target?: string,
-    duration?: string,
-    transport?: string,
-    interval?: string
+/**
+ * The result of checking a config, without loading it. Each problem is described along with it's location.
+ */
+interface ConfigCheck {
+    files: string[],
+    errors: string[],
+    warnings: string[]
 }
 
-interface Bandwidth extends IperfMetrics {}
-interface Jitter extends IperfMetrics {}
-interface Packet_loss extends IperfMetrics {}
-interface Latency {
-    target?: string,
-    counter?: number,
-    interval?: string
-}
-
-interface AlertConditions {
-    cpu_usage?: number,
-    ram_usage?: number,
-    interface_stats?: number,
-    packet_loss?: number,
-    jitter?: string,
-    latency?: string
-}
-
-interface Device {
-    ip: string,
-    tasks: string[]
-}
-
-interface RawTask {
-    frequency: string,
-    device_metrics: DeviceMetrics,
-    global_options: GlobalOptions,
-    link_metrics: LinkMetrics,
-    alert_conditions: AlertConditions
-}
-
-interface RawConfig {
-    tasks: Record<string, RawTask>,
-    devices: Record<string, Device>
+/**
+ * The thresholds of an alert condition. A metric at or above a threshold raises an alert with it's severity. 
+ * Thresholds of link metrics measured in time are in milliseconds.
+ */
+interface AlertThreshold {
+    warning?: number,
+    critical?: number
 }
 
 type Task = Omit<RawTask, "frequency" | "global_options" | "link_metrics" | "alert_conditions"> & {
@@ -86,326 +83,514 @@ type Task = Omit<RawTask, "frequency" | "global_options" | "link_metrics" | "ale
         interval?: number;
     };
     link_metrics: {
-        bandwidth?: Omit<Bandwidth, "duration" | "interval"> & { duration?: number, interval?: number };
-        jitter?: Omit<Jitter, "duration" | "interval"> & { duration?: number, interval?: number };
-        packet_loss?: Omit<Packet_loss, "duration" | "interval"> & { duration?: number, interval?: number };
+        bandwidth?: Omit<IperfMetrics, "duration" | "interval"> & { duration?: number, interval?: number };
+        jitter?: Omit<IperfMetrics, "duration" | "interval"> & { duration?: number, interval?: number };
+        packet_loss?: Omit<IperfMetrics, "duration" | "interval"> & { duration?: number, interval?: number };
         latency?: Omit<Latency, "interval"> & { interval?: number };
     };
-    alert_conditions: Omit<AlertConditions, "jitter" | "latency"> & {
-        jitter?: number;
-        latency?: number;
-    };
+    alert_conditions: { [K in keyof AlertConditions]?: AlertThreshold };
 };
 
-type Config = Omit<RawConfig, "tasks"> & {
+type Config = Omit<ExpandedConfig, "tasks"> & {
     tasks: Record<string, Task>
 }
 
+/**
+ * The identifiers of the entries that changed between two configs.
+ */
+interface ConfigChanges {
+    added: string[],
+    modified: string[],
+    removed: string[]
+}
+
+/**
+ * The differences between two configs, on both tasks and devices.
+ */
+interface ConfigDiff {
+    tasks: ConfigChanges,
+    devices: ConfigChanges
+}
+
 //#endregion ============== Types ==============
 
 //#region ============== Constants ==============
-const TASK_KEYS = ["frequency", "device_metrics", "global_options", "link_metrics", "alert_conditions"];
-const LINK_METRICS_KEYS = ["bandwidth", "jitter", "packet_loss", "latency"];
-const IPERF_LINK_METRIC_KEYS = ["mode", "target", "duration", "transport", "interval"];
-const LATENCY_LINK_METRIC_KEYS = ["target", "counter", "interval"];
-const ALERT_CONDITIONS_KEYS = ["cpu_usage", "ram_usage", "interface_stats", "packet_loss", "jitter", "latency"];
-const DEVICE_METRICS_KEYS = ["cpu_usage", "interface_stats", "ram_usage", "volume"];
-const DEVICE_KEYS = ["ip", "tasks"];
+/**
+ * The sections of a config that can be split across files, and the name of their entries.
+ */
+const CONFIG_SECTIONS = {
+    templates: "Template",
+    tasks: "Task",
+    groups: "Group",
+    devices: "Device"
+} as const;
+
+/**
+ * Separates the task from the device on the ids of tasks created by per-device overrides.
+ */
+const DEVICE_OVERRIDE_SEPARATOR = "@";
+
+/**
+ * Time, in milliseconds, to wait for the config file to stop changing before reloading it. 
+ * Editors usually write a file in more than one step.
+ */
+const CONFIG_RELOAD_DEBOUNCE = 250;
+
+/**
+ * The parsers for each supported config format, indexed by file extension.
+ */
+const CONFIG_PARSERS: Record<string, (text: string) => unknown> = {
+    ".json": JSON.parse,
+    ".json5": JSON5.parse,
+    ".yaml": YAML.parse,
+    ".yml": YAML.parse
+};
 //#endregion ============== Constants ==============
 
-function validateTask(taskName: string, task: RawTask, _config: RawConfig): Validation<never> {
-    const logger = getOrCreateGlobalLogger();
-
-    // Validate nil components
-    if (!task.frequency) return makeInvalid(new Error(`Task ${taskName} has missing property 'frequency'.`));
-    const taskFrequency = parseStringInterval(task.frequency);
-
-    if (!task.device_metrics && !task.link_metrics && !task.global_options) 
-        return makeInvalid(new Error(`Task ${taskName} has no metrics defined.`));
-
-    // Validate Device Metrics
-    // if (
-    //     !task.device_metrics.cpu_usage 
-    //     && !task.device_metrics.interface_stats 
-    //     && !task.device_metrics.ram_usage 
-    //     && !task.device_metrics.volume
-    // ) return makeInvalid(new Error(`Task ${taskName} has no device metrics defined.`));
-    if (
-        Object.entries(task.device_metrics).filter(([_, v]) => !!v).length === 0
-        && Object.entries(task.link_metrics).filter(([_, v]) => !!v).length === 0
-    ) return makeInvalid(new Error(`Task ${taskName} has no metrics defined.`));
+//#region ============== Schemas ==============
+/**
+ * A string representing an interval of time, as accepted by {@link parseStringInterval}.
+ */
+const INTERVAL_SCHEMA = s.refine(s.string(), (value, report) => {
+    if (!(parseStringInterval(value) > 0)) report.error(`Invalid interval '${value}'. Expected a value like '5s' or '200ms'.`);
+});
+
+const COUNTER_SCHEMA = s.refine(s.number(), (value, report) => {
+    if (!Number.isInteger(value) || value <= 0) report.error("Counter is not a positive integer.");
+});
+
+const IPV4_SCHEMA = s.refine(s.string(), (value, report) => {
+    const octets = value.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+    if (!octets || octets.slice(1).some(o => Number(o) > 255)) report.error(`Invalid IPv4 address '${value}'.`);
+});
+
+/**
+ * A secret shared between a device and the server, proving the identity of the agent running on the device.
+ */
+const ENROLLMENT_TOKEN_SCHEMA = s.refine(s.string(), (value, report) => {
+    if (value.length === 0) report.error("Empty enrollment token.");
+});
+
+/**
+ * The PEM encoded Ed25519 public key of an agent, whose private key proves the identity of the agent.
+ */
+const AGENT_PUBLIC_KEY_SCHEMA = s.refine(s.string(), (value, report) => {
+    try {
+        if (crypto.createPublicKey(value).asymmetricKeyType !== "ed25519") report.error("Agent public key is not an Ed25519 key.");
+    } catch {
+        report.error("Invalid agent public key. Expected a PEM encoded public key.");
+    }
+});
+
+const DEVICE_METRICS_SCHEMA = s.object({
+    cpu_usage: s.nullable(s.boolean()),
+    ram_usage: s.nullable(s.boolean()),
+    interface_stats: s.nullable(s.boolean()),
+    volume: s.nullable(s.boolean())
+}, "warn");
+
+const GLOBAL_OPTIONS_SCHEMA = s.object({
+    mode: s.nullable(s.oneOf("client", "server")),
+    target: s.nullable(s.string()),
+    duration: s.nullable(INTERVAL_SCHEMA),
+    transport: s.nullable(s.oneOf("tcp", "udp")),
+    interval: s.nullable(INTERVAL_SCHEMA),
+    counter: s.nullable(COUNTER_SCHEMA)
+}, "warn");
+
+/**
+ * The options of the link metrics measured with iperf: bandwidth, jitter and packet loss.
+ * Options not defined here are taken from the global options of the task.
+ */
+const IPERF_METRIC_SCHEMA = s.object({
+    mode: s.nullable(s.oneOf("client", "server")),
+    target: s.nullable(s.string()),
+    duration: s.nullable(INTERVAL_SCHEMA),
+    transport: s.nullable(s.oneOf("tcp", "udp")),
+    interval: s.nullable(INTERVAL_SCHEMA)
+}, "warn");
+
+const LATENCY_METRIC_SCHEMA = s.object({
+    target: s.nullable(s.string()),
+    counter: s.nullable(COUNTER_SCHEMA),
+    interval: s.nullable(INTERVAL_SCHEMA)
+}, "warn");
+
+const LINK_METRICS_SCHEMA = s.object({
+    bandwidth: s.nullable(IPERF_METRIC_SCHEMA),
+    jitter: s.nullable(IPERF_METRIC_SCHEMA),
+    packet_loss: s.nullable(IPERF_METRIC_SCHEMA),
+    latency: s.nullable(LATENCY_METRIC_SCHEMA)
+}, "warn");
+
+/**
+ * The threshold of an alert condition: either a single value, which raises critical alerts, or the values that raise
+ * warning and critical alerts.
+ */
+const NUMBER_THRESHOLD_SCHEMA = s.union(
+    s.number(),
+    s.object({
+        warning: s.nullable(s.number()),
+        critical: s.nullable(s.number())
+    }, "warn")
+);
+
+/**
+ * The threshold of an alert condition on a metric measured in time. See {@link NUMBER_THRESHOLD_SCHEMA}.
+ */
+const INTERVAL_THRESHOLD_SCHEMA = s.union(
+    INTERVAL_SCHEMA,
+    s.object({
+        warning: s.nullable(INTERVAL_SCHEMA),
+        critical: s.nullable(INTERVAL_SCHEMA)
+    }, "warn")
+);
+
+const ALERT_CONDITIONS_SCHEMA = s.object({
+    cpu_usage: s.nullable(NUMBER_THRESHOLD_SCHEMA),
+    ram_usage: s.nullable(NUMBER_THRESHOLD_SCHEMA),
+    interface_stats: s.nullable(NUMBER_THRESHOLD_SCHEMA),
+    packet_loss: s.nullable(NUMBER_THRESHOLD_SCHEMA),
+    jitter: s.nullable(INTERVAL_THRESHOLD_SCHEMA),
+    latency: s.nullable(INTERVAL_THRESHOLD_SCHEMA)
+}, "warn");
+
+/**
+ * The properties of a task, without the constraints between them, checked by {@link checkTask}.
+ */
+const TASK_PROPERTIES_SCHEMA = s.object({
+    frequency: INTERVAL_SCHEMA,
+    device_metrics: DEVICE_METRICS_SCHEMA,
+    global_options: GLOBAL_OPTIONS_SCHEMA,
+    link_metrics: LINK_METRICS_SCHEMA,
+    alert_conditions: ALERT_CONDITIONS_SCHEMA
+}, "warn");
+
+const TASK_SCHEMA = s.refine(TASK_PROPERTIES_SCHEMA, checkTask);
+
+/**
+ * A device, identified by the name of it's agent and the credentials provisioned for it, either an enrollment token 
+ * or a public key, or by the address of it's agent when it has no credentials. If both are defined, the agent must
+ * prove it holds the credentials and connect from the address.
+ */
+const DEVICE_SCHEMA = s.refine(s.object({
+    ip: s.nullable(IPV4_SCHEMA),
+    token: s.nullable(ENROLLMENT_TOKEN_SCHEMA),
+    public_key: s.nullable(AGENT_PUBLIC_KEY_SCHEMA),
+    tasks: s.array(s.string())
+}), (device, report) => {
+    if (device.token !== undefined && device.public_key !== undefined) 
+        report.error("Device can not have both a token and a public key.", "public_key");
+    if (device.ip === undefined && device.token === undefined && device.public_key === undefined) 
+        report.error("Device has neither an IP nor credentials to be identified by.");
+    if (device.tasks.length === 0) report.error("Empty task list.", "tasks");
+});
+
+/**
+ * Part of a task, used by templates and per-device overrides. Properties defined here override the ones being extended.
+ */
+const TASK_OVERRIDE_SCHEMA = s.object({
+    frequency: s.nullable(INTERVAL_SCHEMA),
+    device_metrics: s.nullable(DEVICE_METRICS_SCHEMA),
+    global_options: s.nullable(GLOBAL_OPTIONS_SCHEMA),
+    link_metrics: s.nullable(LINK_METRICS_SCHEMA),
+    alert_conditions: s.nullable(ALERT_CONDITIONS_SCHEMA)
+}, "warn");
+
+/**
+ * A task, or task template, as written on the config. It may extend a template, overriding some of it's properties.
+ * Tasks must define every required property once their templates are applied.
+ */
+const TASK_TEMPLATE_SCHEMA = s.object({
+    extends: s.nullable(s.string()),
+    frequency: s.nullable(INTERVAL_SCHEMA),
+    device_metrics: s.nullable(DEVICE_METRICS_SCHEMA),
+    global_options: s.nullable(GLOBAL_OPTIONS_SCHEMA),
+    link_metrics: s.nullable(LINK_METRICS_SCHEMA),
+    alert_conditions: s.nullable(ALERT_CONDITIONS_SCHEMA)
+}, "warn");
+
+const TASK_ID_SCHEMA = s.refine(s.string(), (value, report) => {
+    if (value.includes(DEVICE_OVERRIDE_SEPARATOR)) 
+        report.error(`Task ids can not contain '${DEVICE_OVERRIDE_SEPARATOR}', which is reserved for per-device overrides.`);
+});
+
+/**
+ * A named set of tasks, assigned to every device on the group.
+ */
+const DEVICE_GROUP_SCHEMA = s.object({
+    tasks: s.array(s.string())
+}, "warn");
+
+/**
+ * A device, as written on the config. It's tasks are the ones of it's groups and the ones listed on the device.
+ */
+const DEVICE_SOURCE_SCHEMA = s.object({
+    ip: s.nullable(IPV4_SCHEMA),
+    token: s.nullable(ENROLLMENT_TOKEN_SCHEMA),
+    public_key: s.nullable(AGENT_PUBLIC_KEY_SCHEMA),
+    groups: s.nullable(s.array(s.string())),
+    tasks: s.nullable(s.array(s.string())),
+    overrides: s.nullable(s.record(s.string(), TASK_OVERRIDE_SCHEMA))
+}, "warn");
+
+/**
+ * The parts of a config that reference other entries. Validated separately from the entries themselves,
+ * so that broken references are reported even when some entry is invalid.
+ */
+const CONFIG_REFERENCES_SCHEMA = s.object({
+    templates: s.nullable(s.record(s.string(), s.object({ extends: s.nullable(s.string()) }))),
+    tasks: s.record(s.string(), s.object({ extends: s.nullable(s.string()) })),
+    groups: s.nullable(s.record(s.string(), s.object({ tasks: s.array(s.string()) }))),
+    devices: s.record(s.string(), s.object({
+        ip: s.nullable(s.string()),
+        token: s.nullable(s.unknown()),
+        public_key: s.nullable(s.unknown()),
+        groups: s.nullable(s.array(s.string())),
+        tasks: s.nullable(s.array(s.string())),
+        overrides: s.nullable(s.record(s.string(), s.unknown()))
+    }))
+});
+
+/**
+ * The schema of a config, after every included file is merged.
+ */
+const RAW_CONFIG_SCHEMA = s.intersection(
+    s.object({
+        templates: s.nullable(s.record(s.string(), TASK_TEMPLATE_SCHEMA)),
+        tasks: s.record(TASK_ID_SCHEMA, TASK_TEMPLATE_SCHEMA),
+        groups: s.nullable(s.record(s.string(), DEVICE_GROUP_SCHEMA)),
+        devices: s.record(s.string(), DEVICE_SOURCE_SCHEMA)
+    }, "warn"),
+    s.refine(CONFIG_REFERENCES_SCHEMA, checkReferences)
+);
+
+/**
+ * The schema of a config, after it's templates, groups and overrides are expanded by {@link expandConfig}.
+ */
+const EXPANDED_CONFIG_SCHEMA = s.object({
+    tasks: s.record(s.string(), TASK_SCHEMA),
+    devices: s.record(s.string(), DEVICE_SCHEMA)
+});
+//#endregion ============== Schemas ==============
+
+/**
+ * Checks the constraints of a task that relate more than one of it's properties.
+ */
+function checkTask(task: RawTask, report: SchemaReporter) {
+    const frequency = parseStringInterval(task.frequency);
+
+    const hasDeviceMetrics = (["cpu_usage", "ram_usage", "interface_stats", "volume"] as const).some(m => task.device_metrics[m]);
+    const hasLinkMetrics = (["bandwidth", "jitter", "packet_loss", "latency"] as const).some(m => task.link_metrics[m]);
+    if (!hasDeviceMetrics && !hasLinkMetrics) report.error("Task has no metrics defined.");
 
     // Validate Alert Conditions for Device Metrics
-    // if (!task.device_metrics.cpu_usage && task.alert_conditions.cpu_usage) return false;
-    // if (!task.device_metrics.interface_stats && task.alert_conditions.interface_stats) return false;
-    // if (!task.device_metrics.ram_usage && task.alert_conditions.ram_usage) return false;
     for (const metric of ["cpu_usage", "interface_stats", "ram_usage"] as const) {
-        if (!task.device_metrics[metric] && task.alert_conditions[metric])
-            return makeInvalid(new Error(`Task ${taskName} has alert condition for undefined device metric '${metric}'.`));
+        if (task.alert_conditions[metric] !== undefined && !task.device_metrics[metric])
+            report.warn(`Alert condition for undefined device metric '${metric}'.`, "alert_conditions", metric);
     }
-        
-    // Emit warnings for additional unknown properties, but ignore them.
-    for (const key of Object.keys(task.device_metrics).filter((k) => !DEVICE_METRICS_KEYS.includes(k))) {
-        logger.warn(`Task ${taskName} has unknown property '${key}' on device_metrics.`);
-    }
-
-    // Validate Metrics components
-    let udpIPerfServers = 0;
-    if (task.link_metrics.bandwidth) {
-        // if (!task.global_options.mode && !task.link_metrics.bandwidth?.mode)  return false;
-        // if (!task.global_options.target && !task.link_metrics.bandwidth?.target)  return false;
-        // if (!task.global_options.duration && !task.link_metrics.bandwidth?.duration)  return false;
-        // if (!task.global_options.transport && !task.link_metrics.bandwidth?.transport)  return false;
-        // if (!task.global_options.interval && !task.link_metrics.bandwidth?.interval)  return false;
-
-        for (const metric of ["mode", "target", "duration", "transport", "interval"] as const) {
-            if (!task.global_options[metric] && !task.link_metrics.bandwidth[metric])
-                return makeInvalid(new Error(`Task ${taskName} has link metric with non-overridden undefined option: '${metric}'.`));
-        }
-
-        // Verify IPerf UDP Server quantity
-        if (
-            (task.link_metrics.bandwidth.mode === "server" || (!task.link_metrics.bandwidth.mode && task.global_options.mode === "server"))
-            && (task.link_metrics.bandwidth.transport === "udp" || (!task.link_metrics.bandwidth.transport && task.global_options.transport === "udp"))
-        ) udpIPerfServers++;
 
-        // Verify bandwidth duration
-        const bandwidthDuration = typeof task.link_metrics.bandwidth.duration === "undefined" 
-            ? parseStringInterval(<string>task.global_options.duration) 
-            : parseStringInterval(<string>task.link_metrics.bandwidth.duration);
+    // Validate Alert Thresholds
+    for (const [metric, condition] of Object.entries(task.alert_conditions)) {
+        if (condition === undefined) continue;
 
-        if (bandwidthDuration >= taskFrequency) 
-            return makeInvalid(new Error(`Task ${taskName} has bandwidth duration greater or equal to the task frequency.`));
-
-        // Emit warning for a shorter interval, but ignore it.
-        const bandwidthInterval = typeof task.link_metrics.bandwidth.interval === "undefined" 
-            ? parseStringInterval(<string>task.global_options.interval) 
-            : parseStringInterval(<string>task.link_metrics.bandwidth.interval);
-
-        if (bandwidthInterval > bandwidthDuration)
-            logger.warn(`Task ${taskName} bandwidth interval is greater than the duration.`);
-
-        // Emit warnings for additional unknown properties, but ignore them.
-        for (const key of Object.keys(task.link_metrics.bandwidth).filter((k) => !IPERF_LINK_METRIC_KEYS.includes(k))) {
-            logger.warn(`Task ${taskName} has unknown property '${key}' on link_metrics.bandwidth.`);
-        }
+        const threshold = makeAlertThreshold(condition);
+        if (threshold.warning === undefined && threshold.critical === undefined)
+            report.error("Alert condition has neither a warning nor a critical threshold.", "alert_conditions", metric);
+        else if (threshold.warning !== undefined && threshold.critical !== undefined && threshold.warning >= threshold.critical)
+            report.error("Warning threshold is not below the critical threshold.", "alert_conditions", metric, "warning");
     }
 
-    if (task.link_metrics.jitter) {
-        // if (!task.global_options.mode && !task.link_metrics.jitter?.mode)  return false;
-        // if (!task.global_options.target && !task.link_metrics.jitter?.target)  return false;
-        // if (!task.global_options.duration && !task.link_metrics.jitter?.duration)  return false;
-        // if (!task.global_options.transport && !task.link_metrics.jitter?.transport)  return false;
-        // if (!task.global_options.interval && !task.link_metrics.jitter?.interval)  return false;
-
-        for (const metric of ["mode", "target", "duration", "transport", "interval"] as const) {
-            if (!task.global_options[metric] && !task.link_metrics.jitter[metric])
-                return makeInvalid(new Error(`Task ${taskName} has link metric with non-overridden undefined option '${metric}'.`));
-        }
-
-        // Verify transport for iperf server
-        if (
-            (task.link_metrics.jitter && task.link_metrics.jitter.transport === "tcp") 
-            || (task.link_metrics.jitter && !task.link_metrics.jitter.transport 
-                && task.global_options.transport && task.global_options.transport === "tcp")
-        ) {
-            return makeInvalid(new Error(`Task ${taskName} has iperf transport has TCP, but wants to read jitter.`));
-        } 
-
-        // Verify IPerf UDP Server quantity
-        if (task.link_metrics.jitter.mode === "server" || (!task.link_metrics.jitter.mode && task.global_options.mode === "server"))
-            udpIPerfServers++;
-
-        // Verify jitter duration
-        const jitterDuration = typeof task.link_metrics.jitter.duration === "undefined" 
-            ? parseStringInterval(<string>task.global_options.duration) 
-            : parseStringInterval(<string>task.link_metrics.jitter.duration);
-
-        if (jitterDuration >= taskFrequency) 
-            return makeInvalid(new Error(`Task ${taskName} has jitter duration greater or equal to the task frequency.`));
-
-        // Emit warning for a shorter interval, but ignore it.
-        const jitterInterval = typeof task.link_metrics.jitter.interval === "undefined" 
-            ? parseStringInterval(<string>task.global_options.interval) 
-            : parseStringInterval(<string>task.link_metrics.jitter.interval);
-
-        if (jitterInterval > jitterDuration)
-            logger.warn(`Task ${taskName} jitter interval is greater than the duration.`);
-
-        // Emit warnings for additional unknown properties, but ignore them.
-        for (const key of Object.keys(task.link_metrics.jitter).filter((k) => !IPERF_LINK_METRIC_KEYS.includes(k))) {
-            logger.warn(`Task ${taskName} has unknown property '${key}' on link_metrics.jitter.`);
-        }
-    }
-
-    if (task.link_metrics.packet_loss) {
-        // if (!task.global_options.mode && !task.link_metrics.packet_loss?.mode)  return false;
-        // if (!task.global_options.target && !task.link_metrics.packet_loss?.target)  return false;
-        // if (!task.global_options.duration && !task.link_metrics.packet_loss?.duration)  return false;
-        // if (!task.global_options.transport && !task.link_metrics.packet_loss?.transport)  return false;
-        // if (!task.global_options.interval && !task.link_metrics.packet_loss?.interval)  return false;
-
-        for (const metric of ["mode", "target", "duration", "transport", "interval"] as const) {
-            if (!task.global_options[metric] && !task.link_metrics.packet_loss[metric])
-                return makeInvalid(new Error(`Task ${taskName} has link metric with non-overridden undefined option '${metric}'.`));
-        }
+    // Validate iperf Metrics
+    let udpIPerfServers = 0;
+    for (const metric of ["bandwidth", "jitter", "packet_loss"] as const) {
+        const options = task.link_metrics[metric];
+        if (!options) continue;
 
-        // Verify transport for iperf server
-        if (
-            (task.link_metrics.packet_loss && task.link_metrics.packet_loss.transport === "tcp") 
-            || (task.link_metrics.packet_loss && !task.link_metrics.packet_loss.transport 
-                && task.global_options.transport && task.global_options.transport === "tcp")
-        ) {
-            return makeInvalid(new Error(`Task ${taskName} has iperf transport has TCP, but wants to read packet loss.`));
+        for (const key of ["mode", "target", "duration", "transport", "interval"] as const) {
+            if (options[key] === undefined && task.global_options[key] === undefined)
+                report.error("Missing option, defined neither here nor on global_options.", "link_metrics", metric, key);
         }
 
-        // Verify IPerf UDP Server quantity
-        if (task.link_metrics.packet_loss.mode === "server" || (!task.link_metrics.packet_loss.mode && task.global_options.mode === "server"))
-            udpIPerfServers++;
-
-        // Verify packet loss duration
-        const packetLossDuration = typeof task.link_metrics.packet_loss.duration === "undefined" 
-            ? parseStringInterval(<string>task.global_options.duration) 
-            : parseStringInterval(<string>task.link_metrics.packet_loss.duration);
+        const mode = options.mode ?? task.global_options.mode;
+        const transport = options.transport ?? task.global_options.transport;
+        if (metric !== "bandwidth" && transport === "tcp")
+            report.error(`Measuring ${metric} requires the 'udp' transport.`, "link_metrics", metric, "transport");
 
-        if (packetLossDuration >= taskFrequency) 
-            return makeInvalid(new Error(`Task ${taskName} has packet loss duration greater or equal to the task frequency.`));
+        // A single UDP iperf server can run at a time.
+        if (mode === "server" && (metric !== "bandwidth" || transport === "udp")) udpIPerfServers++;
 
-        // Emit warning for a shorter interval, but ignore it.
-        const packetLossInterval = typeof task.link_metrics.packet_loss === "undefined" 
-            ? parseStringInterval(<string>task.global_options.interval) 
-            : parseStringInterval(<string>task.link_metrics.packet_loss);
+        const duration = options.duration ?? task.global_options.duration;
+        const interval = options.interval ?? task.global_options.interval;
+        if (duration === undefined) continue;
 
-        if (packetLossInterval > packetLossDuration)
-            logger.warn(`Task ${taskName} packet loss interval is greater than the duration.`);
+        if (parseStringInterval(duration) >= frequency)
+            report.error("Duration is greater or equal to the task frequency.", "link_metrics", metric, "duration");
 
-        
-        // Emit warnings for additional unknown properties, but ignore them.
-        for (const key of Object.keys(task.link_metrics.packet_loss).filter((k) => !IPERF_LINK_METRIC_KEYS.includes(k))) {
-            logger.warn(`Task ${taskName} has unknown property '${key}' on link_metrics.packet_loss.`);
-        }
+        // Emit warning for a longer interval, but ignore it.
+        if (interval !== undefined && parseStringInterval(interval) > parseStringInterval(duration))
+            report.warn("Interval is greater than the duration.", "link_metrics", metric, "interval");
     }
 
-    if (task.link_metrics.latency) {
-        // if (!task.global_options.target && !task.link_metrics.latency?.target)  return false;
-        // if (!task.global_options.counter && !task.link_metrics.latency?.counter)  return false;
-        // if (!task.global_options.interval && !task.link_metrics.latency?.interval)  return false;
+    if (udpIPerfServers > 1) report.error(`Task has ${udpIPerfServers} UDP iperf servers, but only 1 is allowed.`, "link_metrics");
 
-        for (const metric of ["target", "counter", "interval"] as const) {
-            if (!task.global_options[metric] && !task.link_metrics.latency[metric])
-                return makeInvalid(new Error(`Task ${taskName} has link metric with non-overridden undefined option '${metric}'.`));
+    // Validate Latency
+    const latency = task.link_metrics.latency;
+    if (latency) {
+        for (const key of ["target", "counter", "interval"] as const) {
+            if (latency[key] === undefined && task.global_options[key] === undefined)
+                report.error("Missing option, defined neither here nor on global_options.", "link_metrics", "latency", key);
         }
-        
-        // Verify latency execution time
-        const latencyInterval = typeof task.link_metrics.latency.interval === "undefined" 
-            ? parseStringInterval(<string>task.global_options.interval) 
-            : parseStringInterval(<string>task.link_metrics.latency.interval); 
-        const latencyCounter = typeof task.link_metrics.latency.counter === "undefined" 
-            ? task.global_options.counter : task.link_metrics.latency.counter;
-
-        if ((latencyInterval * <number>latencyCounter) >= taskFrequency)
-            return makeInvalid(new Error(`Task ${taskName} has a latency execution time greater or equal to the task frequency.`));
-
-        // Emit warnings for additional unknown properties, but ignore them.
-        for (const key of Object.keys(task.link_metrics.latency).filter((k) => !LATENCY_LINK_METRIC_KEYS.includes(k))) {
-            logger.warn(`Task ${taskName} has unknown property '${key}' on link_metrics.latency.`);
-        }
-    }
 
-    // Verify IPerf UDP Server quantity
-    if (udpIPerfServers > 1) return makeInvalid(new Error(`Task ${taskName} has more than 1 UDP IPerf Server. Current value: ${udpIPerfServers}`));
-
-    // Emit warnings for additional unknown properties, but ignore them.
-    for (const key of Object.keys(task.link_metrics).filter((k) => !LINK_METRICS_KEYS.includes(k))) {
-        logger.warn(`Task ${taskName} has unknown property '${key}' on link_metrics.`);
+        const interval = latency.interval ?? task.global_options.interval;
+        const counter = latency.counter ?? task.global_options.counter;
+        if (interval !== undefined && counter !== undefined && parseStringInterval(interval) * counter >= frequency)
+            report.error("Execution time (interval * counter) is greater or equal to the task frequency.", "link_metrics", "latency");
     }
 
     // Validate Alert Conditions for Link Metrics
-    if (task.alert_conditions) {
-        if (task.alert_conditions.jitter && !task.link_metrics.jitter) 
-            return makeInvalid(new Error(`Task ${taskName} has alert condition for undefined link metric 'jitter'.`));
+    for (const metric of ["jitter", "packet_loss", "latency"] as const) {
+        if (task.alert_conditions[metric] !== undefined && !task.link_metrics[metric])
+            report.warn(`Alert condition for undefined link metric '${metric}'.`, "alert_conditions", metric);
+    }
+}
 
-        if (task.alert_conditions.packet_loss && !task.link_metrics.packet_loss) 
-            return makeInvalid(new Error(`Task ${taskName} has alert condition for undefined link metric 'packet_loss'.`));
+/**
+ * Checks that every template, group and task referenced on a config exists, and that templates do not extend themselves.
+ */
+function checkReferences(config: InferSchema<typeof CONFIG_REFERENCES_SCHEMA>, report: SchemaReporter) {
+    const templates = config.templates ?? {};
+    const groups = config.groups ?? {};
 
-        if (task.alert_conditions.latency && !task.link_metrics.latency) 
-            return makeInvalid(new Error(`Task ${taskName} has alert condition for undefined link metric 'latency'.`));
+    if (Object.keys(config.tasks).length === 0 && Object.keys(config.devices).length === 0) report.error("Empty config.");
 
-        // Emit warnings for additional unknown properties, but ignore them.
-        for (const key of Object.keys(task.alert_conditions).filter((k) => !ALERT_CONDITIONS_KEYS.includes(k))) {
-            logger.warn(`Task ${taskName} has unknown property '${key}' on alert_conditions.`);
+    for (const [templateId, template] of Object.entries(templates)) {
+        if (template.extends === undefined) continue;
+        if (!(template.extends in templates)) {
+            report.error(`Unknown template '${template.extends}'.`, "templates", templateId, "extends");
+            continue;
         }
 
-        if (task.alert_conditions.latency && parseStringInterval(task.alert_conditions.latency) === 0)
-            return makeInvalid(new Error(`Task ${taskName} has latency alert condition with an unvalid format. Should have unit (ms)`));
-
-        if (task.alert_conditions.jitter && parseStringInterval(task.alert_conditions.jitter) === 0)
-            return makeInvalid(new Error(`Task ${taskName} has jitter alert condition with an unvalid format. Should have unit (ms)`));
+        const chain = [templateId];
+        for (let next: string | undefined = template.extends; next !== undefined && next in templates; next = templates[next].extends) {
+            if (chain.includes(next)) {
+                // Only report the cycle once, on the template it starts from.
+                if (next === templateId) {
+                    report.error(`Circular template inheritance: ${[...chain, next].join(" -> ")}.`, "templates", templateId, "extends");
+                }
+                break;
+            }
+
+            chain.push(next);
+        }
     }
 
-    // Emit warnings for additional unknown properties, but ignore them.
-    for (const key of Object.keys(task).filter((k) => !TASK_KEYS.includes(k))) {
-        logger.warn(`Task ${taskName} has unknown property '${key}'.`);
+    for (const [taskId, task] of Object.entries(config.tasks)) {
+        if (task.extends !== undefined && !(task.extends in templates)) 
+            report.error(`Unknown template '${task.extends}'.`, "tasks", taskId, "extends");
     }
 
-    return VALID;
-}
+    for (const [groupId, group] of Object.entries(groups)) {
+        group.tasks.forEach((task, i) => {
+            if (!(task in config.tasks)) report.error(`Unknown task '${task}'.`, "groups", groupId, "tasks", i);
+        });
+    }
 
-function validateDevice(deviceName: string, device: Device, config: RawConfig): Validation<never> {
-    const logger = getOrCreateGlobalLogger();
+    const ips: Record<string, string> = {};
+    for (const [deviceId, device] of Object.entries(config.devices)) {
+        const deviceTasks = new Set(device.tasks);
+        device.groups?.forEach((group, i) => {
+            if (!(group in groups)) report.error(`Unknown group '${group}'.`, "devices", deviceId, "groups", i);
+            else groups[group].tasks.forEach(task => deviceTasks.add(task));
+        });
+
+        device.tasks?.forEach((task, i) => {
+            if (!(task in config.tasks)) report.error(`Unknown task '${task}'.`, "devices", deviceId, "tasks", i);
+        });
+
+        for (const task of Object.keys(device.overrides ?? {})) {
+            if (!deviceTasks.has(task)) 
+                report.error(`Override for task '${task}', which is not assigned to the device.`, "devices", deviceId, "overrides", task);
+        }
 
-    if (!device.ip) return makeInvalid(new Error(`Device ${deviceName} has missing property 'ip'.`));
-    if (!device.tasks) return makeInvalid(new Error(`Device ${deviceName} has missing property 'tasks'.`));
-    if (device.tasks.length == 0) return makeInvalid(new Error(`Device ${deviceName} has empty task list.`));
-    
-    // Emit warnings for additional unknown properties, but ignore them.
-    for (const key of Object.keys(device).filter((k) => !DEVICE_KEYS.includes(k))) {
-        logger.warn(`Device ${deviceName} has unknown property '${key}'.`);
+        if (device.ip === undefined) continue;
+        if (device.ip in ips) report.warn(`Duplicate IP '${device.ip}', also used by device '${ips[device.ip]}'.`, "devices", deviceId, "ip");
+        else ips[device.ip] = deviceId;
     }
+}
 
-    if (!device.ip.match(/^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$/))
-        return makeInvalid(new Error(`Device ${deviceName} has invalid ip.`));
-    
-    // TODO: Ensure task in config.
-    for (const task of device.tasks) {
-        if (!(task in config.tasks)) return makeInvalid(new Error(`Device ${deviceName} has unknown task: '${task}'.`));
-    }
+/**
+ * Returns the properties of a template, with the properties of every template it extends applied.
+ */
+function resolveTemplate(templates: Record<string, RawTaskTemplate>, templateId: string): Omit<RawTaskTemplate, "extends"> {
+    const { extends: base, ...properties } = templates[templateId];
+    if (base === undefined) return properties;
 
-    return VALID;
+    return deepMerge(resolveTemplate(templates, base), properties);
 }
 
-function validateConfig(config: RawConfig): Validation<never> {
-    if (Object.entries(config).length == 0) {
-        // logger.error("Error on empty config.");
-        // return INVALID;
-        return makeInvalid(new Error("Empty config."));
-    }
+/**
+ * Expands the templates, groups and per-device overrides of a config into plain tasks and devices:
+ * - Tasks are merged on top of the template they extend.
+ * - Devices are assigned the tasks of their groups, along with their own.
+ * - Each task overridden by a device is replaced, on that device, by a copy of the task with the overrides applied, 
+ * identified by `<task>@<device>`.
+ * 
+ * The config is expected to be valid, as checked by {@link RAW_CONFIG_SCHEMA}.
+ */
+function expandConfig(config: RawConfig): ExpandedConfig {
+    const templates = config.templates ?? {};
+    const groups = config.groups ?? {};
+    const tasks: Record<string, RawTask> = {};
+    const devices: Record<string, Device> = {};
 
-    // Validate tasks
     for (const [taskId, task] of Object.entries(config.tasks)) {
-        // if (!taskId || !validateTask(task))  {
-        //     logger.error("Error on task with id: " + taskId);
-        //     return INVALID;
-        // }
-
-        const val = validateTask(taskId, task, config);
-        if (isInvalid(val)) return val;
+        const { extends: base, ...properties } = task;
+        tasks[taskId] = <RawTask>(base === undefined ? properties : deepMerge(resolveTemplate(templates, base), properties));
     }
 
     for (const [deviceId, device] of Object.entries(config.devices)) {
-        // if (!deviceId || !validateDevice(device)) {
-        //     logger.error("Error on device with id: " + deviceId);
-        //     return INVALID;    
-        // }
-        
-        const val = validateDevice(deviceId, device, config);
-        if (isInvalid(val)) return val;
+        const deviceTasks = new Set([...(device.groups ?? []).flatMap(group => groups[group].tasks), ...(device.tasks ?? [])]);
+
+        devices[deviceId] = {
+            ip: device.ip,
+            token: device.token,
+            public_key: device.public_key,
+            tasks: [...deviceTasks].map(taskId => {
+                const overrides = device.overrides?.[taskId];
+                if (!overrides) return taskId;
+
+                const overriddenId = `${taskId}${DEVICE_OVERRIDE_SEPARATOR}${deviceId}`;
+                tasks[overriddenId] = <RawTask>deepMerge(tasks[taskId], overrides);
+                return overriddenId;
+            })
+        };
     }
 
-    return VALID;
+    return { tasks, devices };
+}
+
+/**
+ * Validates a config, reporting every problem found, each located by it's path on the config. Once the config 
+ * itself is valid, the tasks and devices resulting from {@link expandConfig|expanding} it are validated as well.
+ * 
+ * @param config The config, after every included file is merged.
+ * @param ctx The state of the validation. Warnings, like unknown properties, are collected into it.
+ * @returns The validation state, with the config stripped of unknown properties when valid.
+ */
+function validateConfig(config: unknown, ctx: SchemaContext = makeSchemaContext()): Validation<RawConfig> {
+    const validation = RAW_CONFIG_SCHEMA.parse(config, ctx);
+    if (!isValid(validation)) return validation;
+
+    const expanded = EXPANDED_CONFIG_SCHEMA.parse(expandConfig(<RawConfig>validation.value), ctx);
+    if (!isValid(expanded)) return expanded;
+
+    return validation;
 }
 
-function transformConfig(config: RawConfig): Config {
+function transformConfig(rawConfig: RawConfig): Config {
+    const config = expandConfig(rawConfig);
+
     return {
         ...config,
         tasks: Object.fromEntries(
@@ -476,21 +661,31 @@ function transformConfig(config: RawConfig): Config {
                                 : undefined,
                         })
                         : {},
-                    alert_conditions: cleanUndefined({
-                        ...task.alert_conditions,
-                        jitter: task.alert_conditions.jitter
-                            ? parseStringInterval(task.alert_conditions.jitter)
-                            : undefined,
-                        latency: task.alert_conditions.latency
-                            ? parseStringInterval(task.alert_conditions.latency)
-                            : undefined,
-                    }),
+                    alert_conditions: cleanUndefined(Object.fromEntries(
+                        Object.entries(task.alert_conditions).map(([metric, condition]) => [
+                            metric, 
+                            condition === undefined ? undefined : makeAlertThreshold(condition)
+                        ])
+                    )),
                 },
             ])
         ),
     };
 }
 
+/**
+ * Returns the thresholds of an alert condition, as written on the config, with intervals converted to milliseconds.
+ * A single value is the critical threshold.
+ */
+function makeAlertThreshold(
+    condition: number | string | { warning?: number | string, critical?: number | string }
+): AlertThreshold {
+    const toNumber = (value?: number | string) => typeof value === "string" ? parseStringInterval(value) : value;
+    if (typeof condition !== "object") return { critical: toNumber(condition) };
+
+    return cleanUndefined({ warning: toNumber(condition.warning), critical: toNumber(condition.critical) });
+}
+
 function isEmpty(obj: unknown): boolean {
     return (typeof obj === "object" && obj !== null) && Object.keys(obj).length === 0;
 }
@@ -501,23 +696,260 @@ function cleanUndefined<T extends GenericObject>(obj: T): { [P in keyof T]-?: T[
     );
 }
 
-async function initConfig(file: string) {
-    const filePath = path.join(process.cwd(), file);
-    const json = await readJsonFile<RawConfig>(filePath);
+/**
+ * Reads and parses a single config file, with the parser matching it's extension.
+ * 
+ * @param filePath The absolute path of the config file.
+ */
+async function readConfigFile(filePath: string): Promise<RawConfigFile> {
+    const ext = path.extname(filePath).toLowerCase();
+    const parser = CONFIG_PARSERS[ext];
+    if (!parser) {
+        throw new Error(`Unsupported config format '${ext}' on '${filePath}'. Supported formats: ${
+            Object.keys(CONFIG_PARSERS).join(", ")
+        }.`);
+    }
+
+    const text = await fsp.readFile(filePath, "utf8");
+    let value: unknown;
+    try {
+        value = parser(text);
+    } catch (e) {
+        throw new Error(`Malformed config file '${filePath}'.`, { cause: e });
+    }
+
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new Error(`Config file '${filePath}' does not contain an object.`);
+    }
+
+    return <RawConfigFile>value;
+}
+
+/**
+ * Reads a config file and every file it includes, merging their tasks and devices into the resolution.
+ * Included files are merged before the file including them. Defining the same task or device on more than 
+ * one file is an error.
+ * 
+ * @param filePath The absolute path of the config file.
+ * @param resolution The state of the resolution.
+ * @param stack The files currently being resolved, used to detect circular includes.
+ */
+async function resolveConfigFile(filePath: string, resolution: ConfigResolution, stack: string[] = []) {
+    if (stack.includes(filePath)) {
+        throw new Error(`Circular config include: ${[...stack, filePath].join(" -> ")}.`);
+    }
+    if (!resolution.files.includes(filePath)) resolution.files.push(filePath);
+
+    const { include, ...file } = await readConfigFile(filePath);
+
+    const includes = include === undefined ? [] : (Array.isArray(include) ? include : [include]);
+    for (const inc of includes) {
+        if (typeof inc !== "string") {
+            throw new Error(`Config file '${filePath}' has an invalid include: ${JSON.stringify(inc)}.`);
+        }
+
+        await resolveConfigFile(path.resolve(path.dirname(filePath), inc), resolution, [...stack, filePath]);
+    }
+
+    for (const section of Object.keys(CONFIG_SECTIONS) as (keyof typeof CONFIG_SECTIONS)[]) {
+        for (const [key, value] of Object.entries(file[section] ?? {})) {
+            const source = resolution.sources[`${section}.${key}`];
+            if (source) {
+                throw new Error(`${CONFIG_SECTIONS[section]} '${key}' is defined on both '${source}' and '${filePath}'.`);
+            }
+
+            resolution.sources[`${section}.${key}`] = filePath;
+            (<Record<string, unknown>>resolution.config[section])[key] = value;
+        }
+    }
+}
+
+/**
+ * Reads, validates and transforms a config file and every file it includes, without touching the running config.
+ * 
+ * @param filePath The absolute path of the config file.
+ * @throws Throws an error when a file is unreadable or the config is invalid.
+ */
+async function loadConfig(filePath: string): Promise<LoadedConfig> {
+    const logger = getOrCreateGlobalLogger();
+    const resolution: ConfigResolution = { config: { templates: {}, tasks: {}, groups: {}, devices: {} }, files: [], sources: {} };
+    await resolveConfigFile(filePath, resolution);
+    const ctx = makeSchemaContext();
+    const validation = validateConfig(resolution.config, ctx);
+    for (const warning of ctx.warnings) {
+        logger.warn(`Config warning on '${formatSchemaPath(warning.path)}': ${warning.message}`);
+    }
 
-    const validation = validateConfig(json);
     if (!isValid(validation)) {
         throw new Error("Invalid config.", { cause: validation.error });
     }
 
-    const conf = transformConfig(json);
+    return { config: transformConfig(<RawConfig>validation.value), files: resolution.files };
+}
+
+/**
+ * Reads and validates a config file, and every file it includes, collecting every problem found instead of 
+ * failing on the first one. Neither the running config nor the global config are touched.
+ * 
+ * @param file The path of the config file, relative to the working directory.
+ */
+async function checkConfig(file: string): Promise<ConfigCheck> {
+    const filePath = path.resolve(process.cwd(), file);
+    const resolution: ConfigResolution = { config: { templates: {}, tasks: {}, groups: {}, devices: {} }, files: [], sources: {} };
+
+    try {
+        await resolveConfigFile(filePath, resolution);
+    } catch (e) {
+        // The files can not be merged, so there is nothing to validate.
+        return { files: resolution.files, errors: [describeError(e)], warnings: [] };
+    }
+
+    const ctx = makeSchemaContext();
+    const validation = validateConfig(resolution.config, ctx);
+    const errors = isValid(validation) 
+        ? [] 
+        : (validation.error instanceof SchemaError ? validation.error.issues.map(formatSchemaIssue) : [describeError(validation.error)]);
+
+    return { files: resolution.files, errors, warnings: ctx.warnings.map(formatSchemaIssue) };
+}
+
+/**
+ * Joins the message of an error with the messages of it's causes.
+ */
+function describeError(e: unknown): string {
+    if (!(e instanceof Error)) return String(e);
+    if (e.cause === undefined) return e.message;
+
+    return `${e.message} ${describeError(e.cause)}`;
+}
+
+/**
+ * Loads the config file, and every file it includes, into the global config.
+ * 
+ * @param file The path of the config file, relative to the working directory.
+ */
+async function initConfig(file: string) {
+    const filePath = path.resolve(process.cwd(), file);
+    const { config: conf } = await loadConfig(filePath);
     globalThis.config = conf;
     
     return config;
 }
 
+function diffEntries<T>(prev: Record<string, T>, next: Record<string, T>): ConfigChanges {
+    return {
+        added: Object.keys(next).filter(k => !(k in prev)),
+        modified: Object.keys(next).filter(k => k in prev && JSON.stringify(prev[k]) !== JSON.stringify(next[k])),
+        removed: Object.keys(prev).filter(k => !(k in next))
+    };
+}
+
+/**
+ * Compares two configs, returning the tasks and devices that were added, modified or removed.
+ */
+function diffConfig(prev: Config, next: Config): ConfigDiff {
+    return {
+        tasks: diffEntries(prev.tasks, next.tasks),
+        devices: diffEntries(prev.devices, next.devices)
+    };
+}
+
+/**
+ * Returns whether a {@link ConfigDiff} contains any change.
+ */
+function hasConfigChanges(diff: ConfigDiff): boolean {
+    return [diff.tasks, diff.devices].some(c => c.added.length + c.modified.length + c.removed.length > 0);
+}
+
+/**
+ * Watches a config file, and every file it includes, reloading the config whenever any of them changes. Invalid 
+ * edits are rejected, and the running config is kept until the files are fixed. Valid edits replace the global 
+ * config, and are then reported to the listener.
+ * 
+ * @param file The path of the config file, relative to the working directory.
+ * @param onChange Listener called after the global config is replaced, with the previous config and the changes.
+ * @returns A function that stops watching the files.
+ */
+function watchConfig(file: string, onChange: (prev: Config, diff: ConfigDiff) => Promise<void> | void): () => void {
+    const logger = getOrCreateGlobalLogger();
+    const filePath = path.resolve(process.cwd(), file);
+
+    let debounce: NodeJS.Timeout | undefined;
+    let reloading = Promise.resolve();
+    let files: string[] = [];
+    const watchers = new Map<string, fs.FSWatcher>();
+
+    const onFileChange = (dir: string, filename: string | null) => {
+        if (!filename || !files.includes(path.join(dir, filename))) return;
+
+        clearTimeout(debounce);
+        debounce = setTimeout(() => {
+            // Reloads are applied one at a time, in the order the changes happened.
+            reloading = reloading.then(reload);
+        }, CONFIG_RELOAD_DEBOUNCE);
+    };
+
+    // Watch the directories instead of the files, since editors often replace a file instead of writing to it.
+    const updateWatchers = (newFiles: string[]) => {
+        files = newFiles;
+        const dirs = new Set(files.map(f => path.dirname(f)));
+
+        for (const [dir, watcher] of watchers.entries()) {
+            if (dirs.has(dir)) continue;
+            watcher.close();
+            watchers.delete(dir);
+        }
+
+        for (const dir of dirs) {
+            if (watchers.has(dir)) continue;
+            watchers.set(dir, fs.watch(dir, (_, filename) => onFileChange(dir, filename)));
+        }
+    };
+
+    const reload = async () => {
+        let next: LoadedConfig;
+        try {
+            next = await loadConfig(filePath);
+        } catch (e) {
+            logger.pError(`Rejected config change on '${file}'. Keeping the running config:`, e);
+            return;
+        }
+
+        // Includes may have been added or removed.
+        updateWatchers(next.files);
+
+        const prev = config;
+        const diff = diffConfig(prev, next.config);
+        if (!hasConfigChanges(diff)) return;
+
+        globalThis.config = next.config;
+        logger.pInfo(`Reloaded config from '${file}':`, diff);
+
+        try {
+            await onChange(prev, diff);
+        } catch (e) {
+            logger.pError("Error applying config change:", e);
+        }
+    };
+
+    reloading = loadConfig(filePath).then(
+        loaded => updateWatchers(loaded.files),
+        () => updateWatchers([filePath])
+    );
+
+    return () => {
+        clearTimeout(debounce);
+        for (const watcher of watchers.values()) watcher.close();
+        watchers.clear();
+    };
+}
+
 // export type { RawConfig as Config, RawTask as Task, Task as TransformedTask, Device };
-export type { Config, RawTask, Task, Device};
+export type { AlertThreshold, Config, ConfigCheck, ConfigDiff, RawTask, Task, Device};
 export {
-    initConfig
+    initConfig,
+    checkConfig,
+    loadConfig,
+    diffConfig,
+    watchConfig
 };
\ No newline at end of file
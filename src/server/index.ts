@@ -5,11 +5,15 @@
  */
 
 // import path from "path";
+import fs from "fs";
+import fsp from "fs/promises";
+import path from "path";
 import { cac } from "cac";
 import isBinMode from "$common/util/isBinMode.js";
 // import { readJsonFile } from "$common/util/paths.js";
-import { initConfig } from "./config.js";
+import { checkConfig, initConfig, Task, watchConfig } from "./config.js";
 import { getOrCreateGlobalLogger } from "$common/util/logger.js";
+import { parseStringInterval } from "$common/util/date.js";
 import { DatabaseDAO } from "$common/db/databaseDAO.js";
 // import { createDevice } from "$common/db/interfaces/IDevice.js";
 import { createAlertConditions, createLinkMetrics, createOptions, createTask, IOptions, IPERF_MODE, IPERF_TRANSPORT, taskToString } from "$common/db/interfaces/ITask.js";
@@ -19,18 +23,45 @@ import { UDPServer } from "./protocol/udp.js";
 import { TCPServer } from "./protocol/tcp.js";
 import { ConnectionTarget } from "$common/protocol/connection.js";
 import { initWebServer } from "./web/index.js";
+import { FlowControl } from "$common/protocol/flowControl.js";
+import { certificateToPEM, generateSigningKeys, issueCertificate, loadServerSigner, parsePrivateKey, ServerSigner } from "$common/protocol/certificate.js";
 // import { initWebServer } from "./web/index.js";
 
 //#region ============== Types ==============
 interface CLIOptions {
     debug: boolean,
     host: string,
-    port: number
+    port: number,
+    config: string,
+    signingKey?: string,
+    certificate?: string,
+    rekeyAfter: number,
+    rekeyInterval: string
+}
+
+/**
+ * The options of the keygen command.
+ */
+interface KeygenOptions {
+    caKey?: string,
+    subject: string,
+    validity: number
 }
 
 interface ServerSharedData {
     dbMapper: Map<string, number>,
-    connectionStatus: Record<string, Date>
+    /**
+     * The last time each device was heard from, indexed by device name.
+     */
+    connectionStatus: Record<string, Date>,
+    /**
+     * The flow control of the connection to each device, indexed by device name.
+     */
+    flowControls: Record<string, FlowControl>,
+    /**
+     * The number of replayed datagrams dropped on the sessions of each device, indexed by device name.
+     */
+    replays: Record<string, number>
 }
 //#endregion ============== Types ==============
 
@@ -39,8 +70,103 @@ const NAME = "agent";
 const VERSION = "1.0.0";
 const DEFAULT_HOST = "127.0.0.1";
 const DEFAULT_PORT = 2022;
+const DEFAULT_CONFIG = "tmp/config.json";
+const DEFAULT_VALIDITY = 365;
+const DEFAULT_REKEY_AFTER = 100000;
+const DEFAULT_REKEY_INTERVAL = "1h";
 //#endregion ============== Constants ==============
 
+/**
+ * Converts a task of the config into it's database representation.
+ */
+function makeTaskRecord(task: Task) {
+    const device_metrics: string[] = [];
+    if (task.device_metrics.cpu_usage)  device_metrics.push("cpu");
+    if (task.device_metrics.interface_stats)  device_metrics.push("interface_stats");
+    if (task.device_metrics.ram_usage)  device_metrics.push("memory");
+    if (task.device_metrics.volume)  device_metrics.push("volume");
+
+    const link_metrics: string[] = [];
+    const options: IOptions[] = [];
+    if (task.link_metrics.bandwidth)  {
+        link_metrics.push("bandwidth");
+        options.push(
+            createOptions(
+                task.link_metrics.bandwidth.mode ? ((task.link_metrics.bandwidth?.mode === "client") ? IPERF_MODE.CLIENT : IPERF_MODE.SERVER) : undefined,
+                task.link_metrics.bandwidth?.target,
+                task.link_metrics.bandwidth?.duration,
+                task.link_metrics.bandwidth.transport ? ((task.link_metrics.bandwidth?.transport === "tcp") ? IPERF_TRANSPORT.TPC : IPERF_TRANSPORT.UDP) : undefined,
+                task.link_metrics.bandwidth?.interval,
+                undefined
+            )
+        );
+    }
+    if (task.link_metrics.jitter)  {
+        link_metrics.push("jitter");
+        options.push(
+            createOptions(
+                task.link_metrics.jitter.mode ? ((task.link_metrics.jitter?.mode === "client") ? IPERF_MODE.CLIENT : IPERF_MODE.SERVER) : undefined,
+                task.link_metrics.jitter?.target,
+                task.link_metrics.jitter?.duration,
+                task.link_metrics.jitter.transport ? ((task.link_metrics.jitter?.transport === "tcp") ? IPERF_TRANSPORT.TPC : IPERF_TRANSPORT.UDP) : undefined,
+                task.link_metrics.jitter?.interval,
+                undefined
+            )
+        );
+    }
+    if (task.link_metrics.latency)  {
+        link_metrics.push("latency");
+        options.push(
+            createOptions(
+                undefined,
+                task.link_metrics.latency?.target,
+                undefined,
+                undefined,
+                task.link_metrics.latency?.interval,
+                task.link_metrics.latency.counter
+            )
+        );
+    }
+    if (task.link_metrics.packet_loss)  {
+        link_metrics.push("packet_loss");
+        options.push(
+            createOptions(
+                task.link_metrics.packet_loss.mode ? ((task.link_metrics.packet_loss?.mode === "client") ? IPERF_MODE.CLIENT : IPERF_MODE.SERVER) : undefined,
+                task.link_metrics.packet_loss?.target,
+                task.link_metrics.packet_loss?.duration,
+                task.link_metrics.packet_loss.transport ? ((task.link_metrics.packet_loss?.transport === "tcp") ? IPERF_TRANSPORT.TPC : IPERF_TRANSPORT.UDP) : undefined,
+                task.link_metrics.packet_loss?.interval,
+                undefined
+            )
+        );
+    }
+
+
+    return createTask(
+        task.frequency,
+        device_metrics,
+        createOptions(
+            task.global_options.mode ? ((task.global_options.mode === "client") ? IPERF_MODE.CLIENT : IPERF_MODE.SERVER) : undefined,
+            task.global_options.target,
+            task.global_options.duration,
+            task.global_options.transport ? ((task.global_options.transport === "tcp") ? IPERF_TRANSPORT.TPC : IPERF_TRANSPORT.UDP) : undefined,
+            task.global_options.interval,
+            task.global_options.counter
+        ),
+        createLinkMetrics(
+            link_metrics,
+            options
+        ),
+        createAlertConditions(
+            task.alert_conditions.cpu_usage,
+            task.alert_conditions.ram_usage,
+            task.alert_conditions.interface_stats,
+            task.alert_conditions.packet_loss,
+            task.alert_conditions.jitter
+        )
+    );
+}
+
 /**
  * Entry point for SERVER solution.
  */
@@ -53,100 +179,14 @@ export async function serverInit(options: CLIOptions) {
 
     // Config loader
     // const json = await initConfig("docs/assets/config.json");
-    const json = await initConfig("tmp/config.json");
+    const json = await initConfig(options.config);
     logger.info(json);
 
     const db = new DatabaseDAO();
     const dbMapper = new Map<string, number>();
 
     for (const [taskConfigId, task] of Object.entries(config.tasks)) {
-        const device_metrics: string[] = [];
-        if (task.device_metrics.cpu_usage)  device_metrics.push("cpu");
-        if (task.device_metrics.interface_stats)  device_metrics.push("interface_stats");
-        if (task.device_metrics.ram_usage)  device_metrics.push("memory");
-        if (task.device_metrics.volume)  device_metrics.push("volume");
-
-        const link_metrics: string[] = [];
-        const options: IOptions[] = [];
-        if (task.link_metrics.bandwidth)  {
-            link_metrics.push("bandwidth");
-            options.push(
-                createOptions(
-                    task.link_metrics.bandwidth.mode ? ((task.link_metrics.bandwidth?.mode === "client") ? IPERF_MODE.CLIENT : IPERF_MODE.SERVER) : undefined,
-                    task.link_metrics.bandwidth?.target,
-                    task.link_metrics.bandwidth?.duration,
-                    task.link_metrics.bandwidth.transport ? ((task.link_metrics.bandwidth?.transport === "tcp") ? IPERF_TRANSPORT.TPC : IPERF_TRANSPORT.UDP) : undefined,
-                    task.link_metrics.bandwidth?.interval,
-                    undefined
-                )
-            );
-        }
-        if (task.link_metrics.jitter)  {
-            link_metrics.push("jitter");
-            options.push(
-                createOptions(
-                    task.link_metrics.jitter.mode ? ((task.link_metrics.jitter?.mode === "client") ? IPERF_MODE.CLIENT : IPERF_MODE.SERVER) : undefined,
-                    task.link_metrics.jitter?.target,
-                    task.link_metrics.jitter?.duration,
-                    task.link_metrics.jitter.transport ? ((task.link_metrics.jitter?.transport === "tcp") ? IPERF_TRANSPORT.TPC : IPERF_TRANSPORT.UDP) : undefined,
-                    task.link_metrics.jitter?.interval,
-                    undefined
-                )
-            );
-        }
-        if (task.link_metrics.latency)  {
-            link_metrics.push("latency");
-            options.push(
-                createOptions(
-                    undefined,
-                    task.link_metrics.latency?.target,
-                    undefined,
-                    undefined,
-                    task.link_metrics.latency?.interval,
-                    task.link_metrics.latency.counter
-                )
-            );
-        }
-        if (task.link_metrics.packet_loss)  {
-            link_metrics.push("packet_loss");
-            options.push(
-                createOptions(
-                    task.link_metrics.packet_loss.mode ? ((task.link_metrics.packet_loss?.mode === "client") ? IPERF_MODE.CLIENT : IPERF_MODE.SERVER) : undefined,
-                    task.link_metrics.packet_loss?.target,
-                    task.link_metrics.packet_loss?.duration,
-                    task.link_metrics.packet_loss.transport ? ((task.link_metrics.packet_loss?.transport === "tcp") ? IPERF_TRANSPORT.TPC : IPERF_TRANSPORT.UDP) : undefined,
-                    task.link_metrics.packet_loss?.interval,
-                    undefined
-                )
-            );
-        }
-
-
-        const newTask = createTask(
-            task.frequency,
-            device_metrics,
-            createOptions(
-                task.global_options.mode ? ((task.global_options.mode === "client") ? IPERF_MODE.CLIENT : IPERF_MODE.SERVER) : undefined,
-                task.global_options.target,
-                task.global_options.duration,
-                task.global_options.transport ? ((task.global_options.transport === "tcp") ? IPERF_TRANSPORT.TPC : IPERF_TRANSPORT.UDP) : undefined,
-                task.global_options.interval,
-                task.global_options.counter
-            ),
-            createLinkMetrics(
-                link_metrics,
-                options
-            ),
-            createAlertConditions(
-                task.alert_conditions.cpu_usage,
-                task.alert_conditions.ram_usage,
-                task.alert_conditions.interface_stats,
-                task.alert_conditions.packet_loss,
-                task.alert_conditions.jitter
-            )
-        );
-
-        const taskDatabaseId = await db.storeTask(newTask);
+        const taskDatabaseId = await db.storeTask(makeTaskRecord(task));
         dbMapper.set(taskConfigId, taskDatabaseId);
         logger.info("New task created with id: " + taskDatabaseId);
 
@@ -159,19 +199,125 @@ export async function serverInit(options: CLIOptions) {
 
     const sharedData: ServerSharedData = {
         dbMapper: dbMapper,
-        connectionStatus: <ServerSharedData["connectionStatus"]>{}
+        connectionStatus: <ServerSharedData["connectionStatus"]>{},
+        flowControls: <ServerSharedData["flowControls"]>{},
+        replays: <ServerSharedData["replays"]>{}
     };
 
     // Server setup
+    let signer: ServerSigner | undefined;
+    if (options.signingKey !== undefined) {
+        signer = await loadServerSigner(options.signingKey, options.certificate);
+        logger.pInfo(`Loaded signing key from '${options.signingKey}'.`);
+    } else {
+        logger.pWarn("No signing key given. Agents will not be able to verify the identity of this server.");
+    }
+
+    const rotation = { maxMessages: options.rekeyAfter, maxAge: parseStringInterval(options.rekeyInterval) };
+    const udpServer = new UDPServer(db, sharedData, rotation, signer);
+    udpServer.listen(port + 1);
+
+    // Alerts are authenticated with the keys of the sessions held by the UDP Server.
     const tcpCT = new ConnectionTarget(host, port);
     logger.info("TCP Target:", tcpCT.qualifiedName);
-    const tcpServer = new TCPServer(dbMapper, db);
+    const tcpServer = new TCPServer(dbMapper, db, udpServer);
     tcpServer.listen(tcpCT);
 
-    const udpServer = new UDPServer(db, sharedData);
-    udpServer.listen(port + 1);
+    initWebServer(options, db, sharedData, udpServer);
+
+    watchConfig(options.config, async (_, diff) => {
+        for (const taskConfigId of diff.tasks.added) {
+            const taskDatabaseId = await db.storeTask(makeTaskRecord(config.tasks[taskConfigId]));
+            dbMapper.set(taskConfigId, taskDatabaseId);
+            logger.info(`Task '${taskConfigId}' created with id: ${taskDatabaseId}`);
+        }
+
+        for (const taskConfigId of diff.tasks.modified) {
+            await db.updateTask(dbMapper.get(taskConfigId)!, makeTaskRecord(config.tasks[taskConfigId]));
+            logger.info(`Task '${taskConfigId}' updated.`);
+        }
+
+        for (const taskConfigId of diff.tasks.removed) {
+            // The agents stop the task without resolving it's alerts.
+            await db.resolveOpenAlerts(dbMapper.get(taskConfigId)!);
+            await db.removeTask(dbMapper.get(taskConfigId)!);
+            dbMapper.delete(taskConfigId);
+            logger.info(`Task '${taskConfigId}' removed.`);
+        }
+
+        await udpServer.applyConfigChanges(diff);
+    });
+    logger.info(`Watching '${options.config}' for changes.`);
+}
+
+/**
+ * Entry point for the config check command. Validates a config, and every file it includes, without starting the server.
+ * 
+ * @param file The path of the config file, relative to the working directory.
+ * @returns The exit code for the process: 0 if the config is valid, 1 otherwise.
+ */
+export async function checkInit(file: string): Promise<number> {
+    const logger = getOrCreateGlobalLogger();
+    const result = await checkConfig(file);
+
+    logger.pInfo(`Checking '${file}' (${result.files.length} file(s)).`);
+    for (const warning of result.warnings) logger.pWarn(warning);
+    for (const error of result.errors) logger.pError(error);
+
+    if (result.errors.length > 0) {
+        logger.pError(`Config is invalid: ${result.errors.length} error(s), ${result.warnings.length} warning(s).`);
+        return 1;
+    }
+
+    logger.pSuccess(`Config is valid: ${result.warnings.length} warning(s).`);
+    return 0;
+}
 
-    initWebServer(options, db, sharedData);
+/**
+ * Entry point for the keygen command. Generates, offline, the key material used to authenticate the server:
+ * - `ca`: The key pair of a certificate authority, whose public key is distributed to agents.
+ * - `server`: The signing key pair of a server, whose public key may be pinned by agents. If the key of a 
+ * certificate authority is given, a certificate for the key is issued as well.
+ * - `agent`: The key pair of an agent, whose public key is set as the `public_key` of it's device on the config.
+ * 
+ * Existing files are never overwritten.
+ * 
+ * @param kind The kind of key material to generate.
+ * @param dir The directory to write the files to.
+ * @returns The exit code for the process: 0 if the files were generated, 1 otherwise.
+ */
+export async function keygenInit(kind: string, dir: string, options: KeygenOptions): Promise<number> {
+    const logger = getOrCreateGlobalLogger();
+    if (kind !== "ca" && kind !== "server" && kind !== "agent") {
+        logger.pError(`Unknown kind of key material '${kind}'. Expected 'ca', 'server' or 'agent'.`);
+        return 1;
+    }
+
+    const files: Record<string, string> = {};
+    const keys = generateSigningKeys();
+    files[`${kind}.key`] = <string>keys.privateKey.export({ type: "pkcs8", format: "pem" });
+    files[`${kind}.pub`] = <string>keys.publicKey.export({ type: "spki", format: "pem" });
+
+    if (kind === "server" && options.caKey !== undefined) {
+        const caKey = parsePrivateKey(await fsp.readFile(options.caKey, "utf8"));
+        const cert = issueCertificate(options.subject, keys.publicKey, caKey, options.validity * 24 * 60 * 60 * 1000);
+        files["server.cert"] = certificateToPEM(cert);
+    }
+
+    const existing = Object.keys(files).filter(file => fs.existsSync(path.join(dir, file)));
+    if (existing.length > 0) {
+        logger.pError(`Refusing to overwrite existing files on '${dir}': ${existing.join(", ")}.`);
+        return 1;
+    }
+
+    await fsp.mkdir(dir, { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+        // Private keys are only readable by their owner.
+        await fsp.writeFile(path.join(dir, file), content, { mode: file.endsWith(".key") ? 0o600 : 0o644 });
+        logger.pSuccess(`Wrote '${path.join(dir, file)}'.`);
+    }
+
+    return 0;
 }
 
 //#region ============== CLI ==============
@@ -180,12 +326,47 @@ cli.help();
 cli.option("--debug, -d", "Enable debug mode");
 cli.option("--host [host]", "The IP address of the host to connect to.", { type: <never>String, default: DEFAULT_HOST });
 cli.option("--port [port]", "The port to the host to connect to.", { type: <never>Number, default: DEFAULT_PORT });
+cli.option(
+    "--config [config]", "The config file to be used by this server. Supports JSON, JSON5 and YAML.", 
+    { type: <never>String, default: DEFAULT_CONFIG }
+);
+cli.option("--signing-key [file]", "The private key used to sign register challenges, so that agents can verify this server.", { type: <never>String });
+cli.option("--certificate [file]", "The certificate issued for the signing key, for agents that trust a CA.", { type: <never>String });
+cli.option(
+    "--rekey-after [messages]", "The number of messages after which the keys of a session are rotated.", 
+    { type: <never>Number, default: DEFAULT_REKEY_AFTER }
+);
+cli.option(
+    "--rekey-interval [interval]", "The interval after which the keys of a session are rotated, like '30m' or '1h'.", 
+    { type: <never>String, default: DEFAULT_REKEY_INTERVAL }
+);
+cli.command("check [config]", "Validate a config file, and every file it includes, without starting the server.");
+cli.command("keygen <kind> [dir]", "Generate the key pair of a certificate authority ('ca'), a server ('server') or an agent ('agent').")
+    .option("--ca-key [file]", "The private key of the CA issuing a certificate for the server key.", { type: <never>String })
+    .option("--subject [subject]", "The host the server certificate is issued to.", { type: <never>String, default: DEFAULT_HOST })
+    .option("--validity [days]", "For how many days the server certificate is valid.", { type: <never>Number, default: DEFAULT_VALIDITY });
 
 async function cliHandler() {
-    const { options } = cli.parse();
+    const { args, options } = cli.parse();
     if (options.help || options.version) return; // Do not execute script if help message was requested.
     
-    getOrCreateGlobalLogger({ printCallerFile: options.debug, debug: options.debug });
+    const logger = getOrCreateGlobalLogger({ printCallerFile: options.debug, debug: options.debug });
+
+    if (cli.matchedCommandName === "check") {
+        process.exitCode = await checkInit(args[0] ?? options.config);
+        return;
+    }
+
+    if (cli.matchedCommandName === "keygen") {
+        process.exitCode = await keygenInit(args[0], args[1] ?? ".", <KeygenOptions>options);
+        return;
+    }
+
+    if (!Number.isInteger(options.rekeyAfter) || options.rekeyAfter <= 0 || !(parseStringInterval(options.rekeyInterval) > 0)) {
+        logger.pError("The options --rekey-after and --rekey-interval must be a positive number of messages and an interval.");
+        process.exitCode = 1;
+        return;
+    }
 
     await serverInit(<CLIOptions>options);
     return;
@@ -1,4 +1,4 @@
-import { AlertFlow } from "$common/datagram/AlertFlow.js";
+import { AlertFlow, AlertFlowAck, AlertSeverity, AlertState } from "$common/datagram/AlertFlow.js";
 import { ConnectionTarget, RemoteInfo } from "$common/protocol/connection.js";
 import { TCPConnection } from "$common/protocol/tcp.js";
 import { DefaultLogger, getOrCreateGlobalLogger } from "$common/util/logger.js";
@@ -6,6 +6,10 @@ import net from "net";
 import { BufferReader } from "$common/util/buffer.js";
 import { IgnoreValues } from "$common/datagram/spack.js";
 import { DatabaseDAO } from "$common/db/databaseDAO.js";
+import { IMetric } from "$common/db/interfaces/IMetrics.js";
+import { ReplayError } from "$common/protocol/replay.js";
+import { frame, FrameReader } from "$common/protocol/framing.js";
+import { UDPServer } from "./udp.js";
 
 const TCP_SERVER_EVENT_CLOSED = "__server_closed__";
 
@@ -21,9 +25,21 @@ class TCPServerConnection extends TCPConnection {
     protected closed: boolean;
     private db: DatabaseDAO;
     private dbMapper: Map<string, number>;
+    /**
+     * The UDP Server holding the NetTask sessions, whose keys authenticate the alerts.
+     */
+    private udpServer: UDPServer;
+    /**
+     * Reassembles the frames received on this connection.
+     */
+    private frames: FrameReader;
+    /**
+     * The handling of the alerts received so far, chained so that they are handled in order.
+     */
+    private processing: Promise<void>;
     public target: ConnectionTarget;
 
-    constructor(socket: net.Socket, id: number, db: DatabaseDAO, dbMapper: Map<string, number>) {
+    constructor(socket: net.Socket, id: number, db: DatabaseDAO, dbMapper: Map<string, number>, udpServer: UDPServer) {
         super(socket);
         
         this._id = id;
@@ -31,6 +47,9 @@ class TCPServerConnection extends TCPConnection {
         this.closed = false;
         this.db = db;
         this.dbMapper = dbMapper;
+        this.udpServer = udpServer;
+        this.frames = new FrameReader();
+        this.processing = Promise.resolve();
         this.target = new ConnectionTarget({
             address: socket.remoteAddress ?? "",
             family: <RemoteInfo["family"]>socket.remoteFamily ?? "IPv4",
@@ -70,84 +89,152 @@ class TCPServerConnection extends TCPConnection {
         this.logger.error(`TCP Server Socket #${this._id} got an error:`, err);
     }
     
-    protected async onMessage(msg: Buffer): Promise<void> {
-        this.logger.info(`TCP Server Socket #${this._id} got message from target:`, msg.toString("utf8"));
-        
-        const reader = new BufferReader(msg);
-        while(!reader.eof()) {
-            while(!reader.eof() && reader.peek() !== 65) {
-                reader.readUInt8();
-            }
+    protected onMessage(msg: Buffer): void {
+        this.logger.info(`TCP Server Socket #${this._id} got ${msg.byteLength} bytes from target.`);
+
+        let frames: Buffer[];
+        try {
+            frames = this.frames.push(msg);
+        } catch (e) {
+            // The stream is no longer in sync, and nothing else received on it can be trusted.
+            this.logger.pWarn(`Closing TCP connection from '${this.target.qualifiedName}': ${(<Error>e).message}`);
+            this.destroy((<Error>e).message);
+            return;
+        }
 
-            if (reader.eof())  break;
-            if (AlertFlow.verifySignature(reader)) {
-                const afRequest = AlertFlow.deserialize(reader, config.tasks);
-                const alertMetrics = afRequest.getMetrics();
+        for (const payload of frames) {
+            // Alerts are handled one at a time, in the order they were received.
+            this.processing = this.processing
+                .then(() => this.handleAlert(payload))
+                .catch(e => this.logger.error(`TCP Server Socket #${this._id} failed to handle an alert:`, e));
+        }
+    }
 
-                const device = await this.db.getDeviceBySession(afRequest.getSessionId());
-                if(!device){
-                    throw new Error(`Device does not exists`);
-                }
+    /**
+     * Handles a frame received from the agent, holding a single AlertFlow Datagram.
+     * 
+     * @param payload The payload of the frame.
+     */
+    private async handleAlert(payload: Buffer): Promise<void> {
+        const reader = new BufferReader(payload);
+        if (!AlertFlow.verifySignature(reader)) {
+            this.logger.pWarn(`Rejected frame from '${this.target.qualifiedName}': Not an AlertFlow datagram.`);
+            return;
+        }
+
+        const header = AlertFlow.deserializeHeader(reader);
+        const sessionName = header.sessionId.toString("hex");
+
+        // Only alerts enveloped with the keys of a known session are accepted.
+        const ecdhe = await this.udpServer.getSessionCrypto(header.sessionId);
+        if (!ecdhe) {
+            this.logger.pWarn(`Rejected alert from '${this.target.qualifiedName}': Unknown session '${sessionName}'.`);
+            return;
+        }
 
-                if (alertMetrics.device_metrics) {
-                    for (const key in alertMetrics.device_metrics) {
-                        if (key !== "interface_stats") {
-                            const value = alertMetrics.device_metrics[key as keyof typeof alertMetrics.device_metrics];
-
-                            if (value && value !== IgnoreValues.s8) {
-                                this.logger.pWarn(`Alert from Agent with device '${device?.id}' task '${afRequest.getTaskId()}' on metric '${key}': ${value}`);
-                                await this.db.addMetricsToExisting(
-                                    <number> this.dbMapper.get(afRequest.getTaskId()), 
-                                    device!.id, 
-                                    { [key] : { valor: <number>value, timestamp: new Date(), alert: true } }
-                                );
-                            }
-                        } else {    
-                            for (const networkInterface in alertMetrics.device_metrics.interface_stats) {
-                                const value = alertMetrics.device_metrics.interface_stats[networkInterface];
-
-                                if (value && value !== IgnoreValues.s8) {
-                                    this.logger.pWarn(`Alert from Agent with device '${device?.id}' task '${afRequest.getTaskId()}' on interface '${networkInterface}': ${value}`);
-                                    // await this.db.addMetricsToExisting(
-                                    //     <number> this.dbMapper.get(afRequest.getTaskId()), 
-                                    //     <number> device?.id, 
-                                    //     { [key] : { valor: <number>value, timestamp: new Date(), alert: true } }
-                                    // );
-                                }
-                            }
+        let afRequest: AlertFlow;
+        try {
+            afRequest = AlertFlow.deserialize(reader, header, ecdhe, config.tasks);
+        } catch (e) {
+            this.logger.pWarn(`Rejected alert from '${this.target.qualifiedName}' for session '${sessionName}': ${
+                e instanceof ReplayError ? "Alert was replayed" : "Alert could not be authenticated"
+            }.`);
+            this.logger.error("Alert deserialization failed:", e);
+            return;
+        }
+
+        const alertMetrics = afRequest.getMetrics();
+        const collectedAt = afRequest.getCollectionDate();
+
+        const device = await this.db.getDeviceBySession(afRequest.getSessionId());
+        if(!device){
+            throw new Error(`Device does not exists`);
+        }
+
+        // Every metric of the alert is stored in a single write, along with the id of the alert, so that an alert
+        // sent again by the agent is either stored whole or not at all.
+        const metrics: Record<string, { valor: number | Record<string, number>, timestamp: Date, alert: boolean }> = {};
+        const values: Record<string, number> = {};
+        const reports: string[] = [];
+
+        const firing = afRequest.getState() === AlertState.FIRING;
+        const severity = <"warning" | "critical">AlertSeverity[afRequest.getSeverity()].toLowerCase();
+        const kind = `[${AlertSeverity[afRequest.getSeverity()]}] ${firing ? "Alert" : "Resolved alert"}`;
+
+        if (alertMetrics.device_metrics) {
+            for (const key in alertMetrics.device_metrics) {
+                if (key !== "interface_stats") {
+                    const value = alertMetrics.device_metrics[key as keyof typeof alertMetrics.device_metrics];
+
+                    if (value && value !== IgnoreValues.s8) {
+                        reports.push(`${kind} from Agent with device '${device?.id}' task '${afRequest.getTaskId()}' on metric '${key}': ${value}`);
+                        metrics[key] = { valor: <number>value, timestamp: collectedAt, alert: firing };
+                        values[key] = <number>value;
+                    }
+                } else {    
+                    // The values of the interfaces are stored together, as they are with the task metrics.
+                    const interfaceValues: Record<string, number> = {};
+                    for (const networkInterface in alertMetrics.device_metrics.interface_stats) {
+                        const value = alertMetrics.device_metrics.interface_stats[networkInterface];
+
+                        if (value && value !== IgnoreValues.s8) {
+                            reports.push(`${kind} from Agent with device '${device?.id}' task '${afRequest.getTaskId()}' on interface '${networkInterface}': ${value}`);
+                            interfaceValues[networkInterface] = value;
+                            values[`${key}.${networkInterface}`] = value;
                         }
                     }
-                }
 
-                if (alertMetrics.link_metrics) {
-                    for (const key in alertMetrics.link_metrics) {
-                        let value = alertMetrics.link_metrics[key as keyof typeof alertMetrics.link_metrics] as number;
-
-                        if (value && value !== IgnoreValues.s16) {
-                            value = value - 1;
-                            this.logger.pWarn(`Alert from Agent with device '${device?.id}' task '${afRequest.getTaskId()}' on metric '${key}: ${value}`);
-                            await this.db.addMetricsToExisting(
-                                <number> this.dbMapper.get(afRequest.getTaskId()), 
-                                device!.id, 
-                                { [key] : { valor: <number>value, timestamp: new Date(), alert: true } }
-                            );
-                        }
+                    if (Object.keys(interfaceValues).length > 0) {
+                        metrics[key] = { valor: interfaceValues, timestamp: collectedAt, alert: firing };
                     }
                 }
+            }
+        }
 
-                this.logger.info("Alert inserted.");
+        if (alertMetrics.link_metrics) {
+            for (const key in alertMetrics.link_metrics) {
+                let value = alertMetrics.link_metrics[key as keyof typeof alertMetrics.link_metrics] as number;
+
+                if (value && value !== IgnoreValues.s16) {
+                    value = value - 1;
+                    reports.push(`${kind} from Agent with device '${device?.id}' task '${afRequest.getTaskId()}' on metric '${key}: ${value}`);
+                    metrics[key] = { valor: <number>value, timestamp: collectedAt, alert: firing };
+                    values[key] = value;
+                }
+            }
+        }
+
+        const stored = await this.db.addAlertToExisting(
+            <number> this.dbMapper.get(afRequest.getTaskId()), 
+            device!.id, 
+            afRequest.getAlertId(),
+            <IMetric>metrics,
+            { state: firing ? "firing" : "resolved", severity, values, timestamp: collectedAt }
+        );
+
+        if (stored) {
+            for (const report of reports) {
+                if (firing) this.logger.pWarn(report);
+                else this.logger.pInfo(report);
             }
+            this.logger.info("Alert inserted.");
+        } else {
+            this.logger.info(`Alert '${afRequest.getAlertId()}' was already stored.`);
         }
+
+        // The agent sends the alert again until it is acknowledged, even if it was already stored.
+        this.send(new AlertFlowAck(header.sessionId, afRequest.getAlertId()).link(ecdhe).serialize());
     }
 
     /**
-     * Sends a payload to the target.
+     * Sends a payload to the target, as a single frame.
      * @param payload A Buffer containing the payload data.
+     * @throws {FramingError} If the payload does not fit in a frame.
      */
     public send(payload: Buffer): void {
         if (!this.connected) return;
 
-        this.socket.write(payload);
+        this.socket.write(frame(payload));
     }
 
     /**
@@ -208,19 +295,25 @@ class TCPServer {
      */
     private db: DatabaseDAO;
 
+    /**
+     * The UDP Server holding the NetTask sessions, whose keys authenticate the alerts.
+     */
+    private udpServer: UDPServer;
+
     /**
      * A pointer to the fallback method used in case the "close" event is triggered by an external source 
      * in a non-gracious manner.
      */
     private _onClose: typeof this.onClose;
 
-    public constructor(dbMapper: Map<string,number>, db: DatabaseDAO) {
+    public constructor(dbMapper: Map<string,number>, db: DatabaseDAO, udpServer: UDPServer) {
         this.server = net.createServer();
         this.logger = getOrCreateGlobalLogger();
         this.seq = 0;
         this.connections = new Map();
         this.dbMapper = dbMapper;
         this.db = db;
+        this.udpServer = udpServer;
 
         this.server.on("listening", this.onListen.bind(this));
         this.server.on("close", (this._onClose = this.onClose.bind(this, 1000)));
@@ -298,7 +391,7 @@ class TCPServer {
         // TODO: Validar na base de dados se o device existe. Se não existir, é porque não fez o Registo pelo NetTask.
         // TODO: Portanto, fechar a conexão. Se existir, deixar passar.
 
-        const conn = new TCPServerConnection(socket, this.seq++, this.db, this.dbMapper);
+        const conn = new TCPServerConnection(socket, this.seq++, this.db, this.dbMapper, this.udpServer);
         this.connections.set(this.seq, conn);
 
         this.logger.info("TCP Server got a new connection from:", conn.target.qualifiedName);
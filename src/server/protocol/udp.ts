@@ -1,7 +1,11 @@
 import crypto from "crypto";
-import { NetTask, NetTaskDatagramType, NetTaskRegister, NetTaskRegisterChallenge, NetTaskRegisterChallenge2, NetTaskPushSchemas, NetTaskRejected, NetTaskMetric, NetTaskRejectedReason, NetTaskWake, NetTaskBodyless, NetTaskReset } from "$common/datagram/NetTask.js";
+import { NetTask, NetTaskDatagramType, NetTaskRegister, NetTaskRegisterChallenge, NetTaskRegisterChallenge2, NetTaskPushSchemas, NetTaskRejected, NetTaskMetric, NetTaskRejectedReason, NetTaskWake, NetTaskBodyless, NetTaskReset, NetTaskSelectiveAck, NetTaskRequestMetrics, NetTaskResponseTask, NetTaskResponseMetrics, NetTaskRequestStatus, NetTaskUpdateSchemas, NetTaskSchemasAck, NetTaskRekey, NetTaskRekeyAck } from "$common/datagram/NetTask.js";
 import { ConnectionTarget, ConnectionTargetLike, RemoteInfo } from "$common/protocol/connection.js";
-import { ChallengeControl, ECDHE } from "$common/protocol/ecdhe.js";
+import { AEADAlgorithm, ChallengeControl, ECDHE, LEGACY_AEAD } from "$common/protocol/ecdhe.js";
+import { makeNegotiationTranscript, negotiateCipherSuite } from "$common/protocol/cipherSuite.js";
+import { ServerSigner } from "$common/protocol/certificate.js";
+import { ReplayError } from "$common/protocol/replay.js";
+import { EnrollmentCredential, makeEnrollmentTranscript, verifyEnrollment } from "$common/protocol/enrollment.js";
 import { UDPConnection } from "$common/protocol/udp.js";
 import { BufferReader } from "$common/util/buffer.js";
 import { createDevice, deviceToString } from "$common/db/interfaces/IDevice.js";
@@ -11,13 +15,89 @@ import { createMetrics } from "$common/db/interfaces/IMetrics.js";
 import { DuplicatedPackageError, FlowControl, MaxRetransmissionsReachedError, OutOfOrderPackageError, ReachedMaxWindowError } from "$common/protocol/flowControl.js";
 import { subscribeShutdown } from "$common/util/shutdown.js";
 import { ServerSharedData } from "../index.js";
+import { ConfigDiff, Device, Task } from "../config.js";
 
 interface ClientData {
+    /**
+     * The name, on the config, of the device the agent registered as.
+     */
+    device: string,
+    /**
+     * The credentials presented by the agent when registering, used to authenticate it again when the config changes.
+     * Unknown for sessions revived from the database.
+     */
+    registration?: Registration,
     flowControl: FlowControl, 
     ecdhe: ECDHE, 
     salt: Buffer, 
     challenge?: ChallengeControl,
-    contiguousErrors: number
+    contiguousErrors: number,
+    target?: ConnectionTargetLike,
+    /**
+     * The tasks last pushed to the agent, used to detect changes to the config.
+     */
+    schemas?: Record<string, Task>,
+    /**
+     * The version of the last schema update sent to the agent.
+     */
+    schemaVersion: number,
+    /**
+     * The version of the last schema update the agent confirmed to have applied.
+     */
+    appliedSchemaVersion: number,
+    /**
+     * The salt of the last key rotation, while the agent did not yet confirm it.
+     */
+    rekey?: Buffer
+}
+
+/**
+ * When the keys of a session are rotated. Keys are rotated once either limit is reached.
+ */
+interface KeyRotationPolicy {
+    /**
+     * Maximum number of messages sent or received with the same keys.
+     */
+    maxMessages: number,
+    /**
+     * Maximum time, in milliseconds, the same keys are used for.
+     */
+    maxAge: number
+}
+
+/**
+ * The claims made by an agent when registering.
+ */
+interface Registration {
+    /**
+     * The name of the device the agent claimed to be, if any.
+     */
+    name?: string,
+    address: string,
+    /**
+     * The data the agent proves it's credentials over. See {@link makeEnrollmentTranscript}.
+     */
+    transcript: Buffer,
+    /**
+     * The proof of the credentials, received on the last phase of the registration.
+     */
+    proof?: Buffer
+}
+
+/**
+ * The result of authenticating an agent: either the device it was authenticated as, or why it was not.
+ */
+type Authentication = { device: string } | { reason: NetTaskRejectedReason };
+
+/**
+ * An on-demand metrics request sent to an agent, and the state it is in.
+ */
+interface MetricsRequest {
+    id: number,
+    device: string,
+    taskId: string,
+    requestedAt: Date,
+    status: "pending" | "accepted" | "rejected" | "completed"
 }
 
 /**
@@ -25,6 +105,12 @@ interface ClientData {
  */
 const MAX_CONTIGUOUS_ERRORS = 10;
 
+/**
+ * Maximum number of on-demand metrics requests kept per device. Older requests are forgotten, along with any response
+ * to them.
+ */
+const MAX_METRICS_REQUESTS = 5;
+
 /**
  * This class is meant to be used as a base for UDP Server implementations.
  */
@@ -32,18 +118,28 @@ class UDPServer extends UDPConnection {
     // private clients: Map<string, {flowControl: FlowControl, ecdhe: ECDHE, salt: Buffer, challenge?: ChallengeControl }>;
     private clients: Map<string, ClientData>;
     private db: DatabaseDAO;
-    private devicesNames: Record<string, string>;
     private sessionIds: Record<string, Buffer>;
     private sharedData: ServerSharedData;
+    private requests: Map<number, MetricsRequest>;
+    private nextRequestId: number;
+    private rotation: KeyRotationPolicy;
+    private signer?: ServerSigner;
 
-    public constructor(db: DatabaseDAO, sharedData: ServerSharedData) {
+    /**
+     * @param rotation When the keys of each session are rotated.
+     * @param signer Signs the register challenges, so that agents are able to verify the identity of this server.
+     */
+    public constructor(db: DatabaseDAO, sharedData: ServerSharedData, rotation: KeyRotationPolicy, signer?: ServerSigner) {
         super();
 
+        this.rotation = rotation;
+        this.signer = signer;
         this.clients = new Map();
         this.db = db;
-        this.devicesNames = Object.fromEntries(Object.entries(config.devices).map(([k,v]) => [v.ip, k]));
         this.sessionIds = {};
         this.sharedData = sharedData;
+        this.requests = new Map();
+        this.nextRequestId = 1;
 
         subscribeShutdown(async () => {
             
@@ -84,30 +180,29 @@ class UDPServer extends UDPConnection {
             this.logger.pLog(dgToSend.toString());
             this.logger.pLog(`-------------------------------------`); 
             
-            if(dgToSend.getSequenceNumber() === flowControl.getLastSeq()){
-                flowControl.readyToSend(dgToSend);
-            } else {
-                dgToSend.setNack(0);
-            }
+            this.socket.send(dgToSend.serialize(), target.port, target.address);
 
             if(
-                dgToSend.getType() === NetTaskDatagramType.BODYLESS 
-                || dgToSend.getType() === NetTaskDatagramType.WAKE 
-                || dgToSend.getType() === NetTaskDatagramType.CONNECTION_REJECTED
+                dgToSend.getType() !== NetTaskDatagramType.BODYLESS 
+                && dgToSend.getType() !== NetTaskDatagramType.WAKE 
+                && dgToSend.getType() !== NetTaskDatagramType.CONNECTION_REJECTED
+                && dgToSend.getType() !== NetTaskDatagramType.SELECTIVE_ACK
             ) {
-                //@ts-expect-error STFU Typescript.
-                this.socket.send(dgToSend.serialize(), target.port, target.address);
-                return;
+                flowControl.startTimer(dgToSend, (seq) => {
+                    this.handleTimeout(flowControl, seq, target);
+                }); 
+            }
+
+            // Keep draining the queue until it is empty or the window is full.
+            if (flowControl.hasPendingPackets()) {
+                this.send(flowControl, undefined, target);
             }
-            //@ts-expect-error STFU Typescript.
-            this.socket.send(dgToSend.serialize(), target.port, target.address);
-            
-            flowControl.startTimer(dgToSend, (seq) => {
-                this.handleTimeout(flowControl, seq, target);
-            }); 
         } catch (error) {
-            if ( error instanceof ReachedMaxWindowError)
+            if ( error instanceof ReachedMaxWindowError){
+                // The datagram stays queued, and is sent once the agent acknowledges the ones in flight.
+                this.logger.pLog(`Janela cheia para ${target.address}:${target.port}. Datagrama em espera.`);
                 return;
+            }
             if ( error instanceof MaxRetransmissionsReachedError){
                 this.logger.warn("Agent is not responding to meeee...");
                 this.socket.close();
@@ -147,22 +242,10 @@ class UDPServer extends UDPConnection {
                     }
 
                     if (NetTask.isEncrypted(pHeader)) {
-                        let client = this.clients.get(pHeader.sessionId.toString("hex"));
-                        if (!client) {
-                            const device = await this.db.getDeviceBySession(pHeader.sessionId);
-                            if (!device) throw new Error(
-                                `[SERVER] Authentication error: Unknown client '${pHeader.sessionId.toString("hex")}'`
-                            );
-
-                            client = {
-                                flowControl: new FlowControl(),
-                                ecdhe: new ECDHE(device.auth.secret, device.auth.salt),
-                                salt: device.auth.salt,
-                                challenge: undefined,
-                                contiguousErrors: 0
-                            };
-                            this.clients.set(pHeader.sessionId.toString("hex"), client);
-                        }
+                        const client = await this.getOrReviveClient(pHeader.sessionId);
+                        if (!client) throw new Error(
+                            `[SERVER] Authentication error: Unknown client '${pHeader.sessionId.toString("hex")}'`
+                        );
 
                         try {
                             const rawPayload = reader.read(pHeader.payloadSize);
@@ -172,13 +255,22 @@ class UDPServer extends UDPConnection {
                             this.logger.log("[SERVER] ENVMSG:", envelope);
                             payload = client.ecdhe.deenvelope(envelope);
                         } catch (e) {
+                            // Replayed datagrams are dropped without a response, which would otherwise disrupt the session.
+                            if (e instanceof ReplayError) {
+                                this.sharedData.replays[client.device] = (this.sharedData.replays[client.device] ?? 0) + 1;
+                                this.logger.pWarn(`Dropped ${e.reason} datagram replayed on the session of device '${client.device}' from ${
+                                    ConnectionTarget.toQualifiedName(rinfo)
+                                }.`);
+                                continue;
+                            }
+
                             throw new Error(`[SERVER] Authentication error: Crypto error.`, { cause: e });
                         }
                     } else {
                         payload = reader.read(pHeader.payloadSize);
                     }
 
-                    const payloadReader = new BufferReader(payload);
+                    let payloadReader = new BufferReader(payload);
                     const nt = NetTask.deserializePrivateHeader(payloadReader, pHeader);
                     _nt = nt;
 
@@ -190,11 +282,17 @@ class UDPServer extends UDPConnection {
 
                     const client = this.clients.get(pHeader.sessionId.toString("hex"));
                     if(client){
+                        // Expose the link estimates of this agent to the web UI.
+                        this.sharedData.flowControls[client.device] = client.flowControl;
+                        client.target = rinfo;
+
                         try {
-                            //Fragmentando tenho de criar o pacote
-                            
                             client.flowControl.evaluateConnection(_nt);
                             client.contiguousErrors = 0;
+
+                            if (client.flowControl.hasPendingPackets()) {
+                                this.send(client.flowControl, undefined, rinfo);
+                            }
                         } catch (error) {
                             // if (error instanceof ConnectionRejected) {
                             //     this.logger.error(error.message);
@@ -209,13 +307,13 @@ class UDPServer extends UDPConnection {
 
                                 client.contiguousErrors++;
 
-                                const retransmission = new NetTaskBodyless(
+                                const sack = new NetTaskSelectiveAck(
                                     pHeader.sessionId,
                                     client.flowControl.getLastSeq(),
-                                    nt.getSequenceNumber(),
-                                    client.flowControl.getLastAck() + 1,
+                                    client.flowControl.getLastAck(),
+                                    client.flowControl.getReceivedRanges()
                                 );
-                                this.send(client.flowControl, retransmission, rinfo);
+                                this.send(client.flowControl, sack, rinfo);
                             } else {
                                 this.logger.error("An unexpected error occurred:", error);
                                 break;
@@ -238,13 +336,40 @@ class UDPServer extends UDPConnection {
                         }
                     }
 
+                    if (nt.isFragment()) {
+                        if (!client) throw new Error(
+                            `[SERVER] Fragmented datagram from unknown client '${pHeader.sessionId.toString("hex")}'`
+                        );
+
+                        const body = client.flowControl.reassemble(nt, payloadReader.readRemaining());
+                        if (!body) {
+                            // Message still incomplete. Acknowledge the fragment and wait for the rest.
+                            const ack = new NetTaskBodyless(
+                                pHeader.sessionId,
+                                client.flowControl.getLastSeq(),
+                                client.flowControl.getLastAck(),
+                                0,
+                            );
+                            this.send(client.flowControl, ack, rinfo);
+
+                            _nt = undefined;
+                            continue;
+                        }
+
+                        payloadReader = new BufferReader(body);
+                    }
+
                     switch (nt.getType()) {
 
                         /**
-                         * Second phase of the Registration Process, where the Server, after receiving the Agent Public Key,
-                         * verifies if the device exists in the config. If it does not, the connection is rejected. Otherwise, it
-                         * creates an ecdhe link for the Agent and a challenge using 12 random bytes. Afterwards, a Register
-                         * Challenge Datagram is created, containing the Server Public Key, the challenge and the ecdhe link.
+                         * Second phase of the Registration Process, where the Server, after receiving the Agent Public Keys,
+                         * authenticates the agent as one of the devices on the config, either by the identity it presents or,
+                         * failing that, by it's address. If it can not, the connection is rejected. Otherwise, it picks
+                         * the cipher suite out of the ones offered by the Agent, rejecting the connection if none is supported,
+                         * and creates an ecdhe link for the Agent, bound to the negotiation, and a challenge using 12 random 
+                         * bytes. Afterwards, a Register Challenge Datagram is created, containing the Server Public Key, 
+                         * the challenge, the ecdhe link and the chosen cipher suite, signed by the long-term key of the Server 
+                         * along with it's certificate, if it has them.
                          * Before sending that datagram, the server saves the agent ecdhe, that will be used on the fourth phase.
                          */
                         case NetTaskDatagramType.REQUEST_REGISTER: {
@@ -254,12 +379,11 @@ class UDPServer extends UDPConnection {
 
                             const flowControl = new FlowControl();
 
-                            let exists = false;
-                            for (const device of Object.values(config.devices)) {
-                                if (device.ip === rinfo.address)
-                                    exists = true;
-                            }
-                            if (!exists) {
+                            const identification = this.identify(registerDg.name, rinfo.address);
+                            if ("reason" in identification) {
+                                this.logger.pWarn(`Rejected agent at '${rinfo.address}'${
+                                    registerDg.name !== undefined ? ` claiming to be device '${registerDg.name}'` : ""
+                                }: ${NetTaskRejectedReason[identification.reason]}.`);
                                 // const rejectedDg = new NetTask(
                                 //     nt.getSessionId(),
                                 //     NET_TASK_NOCRYPTO,
@@ -274,19 +398,48 @@ class UDPServer extends UDPConnection {
                                     0,
                                     0,
                                     0,
-                                    NetTaskRejectedReason.AUTH_ERROR
+                                    identification.reason
                                 );
                                 this.send(flowControl, rejectedDg, rinfo);
                                 break;
                             }
 
-                            const ecdhe = new ECDHE("secp128r1");
-                            const salt = ecdhe.link(registerDg.publicKey);
+                            const negotiated = negotiateCipherSuite(registerDg.keyShares, registerDg.aeads);
+                            if (!negotiated) {
+                                this.logger.pWarn(`Rejected agent at '${rinfo.address}': ${
+                                    NetTaskRejectedReason[NetTaskRejectedReason.UNSUPPORTED_CIPHER_SUITE]
+                                } (offered curves: ${registerDg.keyShares.map(share => share.curve).join(", ") || "none"}; AEADs: ${
+                                    registerDg.aeads.join(", ") || "none"
+                                }).`);
+
+                                const rejectedDg = new NetTaskRejected(
+                                    nt.getSessionId(),
+                                    0,
+                                    0,
+                                    0,
+                                    NetTaskRejectedReason.UNSUPPORTED_CIPHER_SUITE
+                                );
+                                this.send(flowControl, rejectedDg, rinfo);
+                                break;
+                            }
+
+                            const { suite, share } = negotiated;
+                            const negotiation = makeNegotiationTranscript(registerDg.keyShares, registerDg.aeads, suite);
+                            const ecdhe = new ECDHE(suite.curve);
+                            const salt = ecdhe.link(share.publicKey, undefined, { aead: suite.aead, context: negotiation });
                             const challenge = ecdhe.generateChallenge(crypto.randomBytes(12));
+                            const registration: Registration = { 
+                                name: registerDg.name, 
+                                address: rinfo.address, 
+                                transcript: makeEnrollmentTranscript(share.publicKey, ecdhe.publicKey, salt)
+                            };
 
                             this.clients.set(
                                 nt.getSessionId().toString("hex"), 
-                                { flowControl, ecdhe, salt, challenge: challenge, contiguousErrors: 0 }
+                                { 
+                                    device: identification.device, registration, flowControl, ecdhe, salt, challenge: challenge, 
+                                    contiguousErrors: 0, schemaVersion: 0, appliedSchemaVersion: 0 
+                                }
                             );
             
                             const client = this.clients.get(nt.getSessionId().toString("hex"));
@@ -305,7 +458,10 @@ class UDPServer extends UDPConnection {
                                 0,
                                 ecdhe.publicKey, 
                                 ECDHE.serializeChallenge(challenge.challenge),
-                                salt
+                                salt,
+                                suite,
+                                this.signer?.sign(share.publicKey, ecdhe.publicKey, salt, negotiation) ?? Buffer.alloc(0),
+                                this.signer?.certificate ?? Buffer.alloc(0)
                             );
 
 
@@ -350,6 +506,25 @@ class UDPServer extends UDPConnection {
                                 break;
                             }
 
+                            // The agent must prove it holds the credentials of the device it claimed to be before being stored.
+                            let authentication: Authentication = { reason: NetTaskRejectedReason.AUTH_ERROR };
+                            if (client.registration) {
+                                client.registration.proof = regChallenge2Dg.proof;
+                                authentication = this.authenticate(client.registration);
+                            }
+
+                            if ("reason" in authentication || authentication.device !== client.device) {
+                                const reason = "reason" in authentication ? authentication.reason : NetTaskRejectedReason.UNKNOWN_IDENTITY;
+                                this.logger.pWarn(`Rejected agent at '${rinfo.address}' claiming to be device '${client.device}': ${
+                                    NetTaskRejectedReason[reason]
+                                }.`);
+
+                                this.clients.delete(nt.getSessionId().toString("hex"));
+                                const rejectedDg = new NetTaskRejected(nt.getSessionId(), 0, 0, 0, reason);
+                                this.send(new FlowControl(), rejectedDg, rinfo);
+                                break;
+                            }
+
                             client?.ecdhe.regenerateKeys(client.challenge!.control);
 
                             // const device = createDevice(
@@ -372,55 +547,40 @@ class UDPServer extends UDPConnection {
 
                                 device.auth.secret = client!.ecdhe.secret!;
                                 device.auth.salt = client!.challenge!.control;
+                                device.auth.aead = client!.ecdhe.aead;
+                                device.auth.registration = client.registration;
                             } else {
                                 device = createDevice(
+                                    client.device,
                                     rinfo.address,
                                     rinfo.port,
                                     <Buffer> client?.ecdhe.secret,
                                     client!.challenge!.control,
                                     nt.getSessionId(),
-                                    new Date()
+                                    client.ecdhe.aead,
+                                    new Date(),
+                                    client.registration
                                 );
                             }
 
                             const deviceId = await this.db.storeDevice(device);
                             this.logger.info("[SERVER] Stored device with ID: " + deviceId);
-                            this.logger.pInfo(`Agent with device '${deviceId}' connected.`);
+                            this.logger.pInfo(`Agent with device '${deviceId}' (${client.device}) connected.`);
                             const deviceById = await this.db.getDeviceByID(deviceId);
                             if(deviceById) this.logger.info("[SERVER] Retrieved Device by ID:", deviceToString(deviceById));
 
                             // const requestTaskDg = new NetTaskPushSchemas(123123, 123123, false, 0, "e que").link(client!.ecdhe);
 
                             // const task = config.tasks["task1"];
-                            const cDevice = config.devices[this.devicesNames[rinfo.address]];
-                            const tasks = Object.fromEntries(Object.entries(config.tasks).filter(([k,_]) => cDevice.tasks.includes(k)));
-
-                            for (const [taskConfigId, task] of Object.entries(tasks)) {
-                                const taskDatabaseId = this.sharedData.dbMapper.get(taskConfigId);
-                                const metrics: string[] = [];
-                                for (const key in task.device_metrics)
-                                    if (task.device_metrics[key as keyof typeof task.device_metrics])
-                                        metrics.push(key);
-
-                                for (const key in task.link_metrics)
-                                    if (task.link_metrics[key as keyof typeof task.link_metrics])
-                                        metrics.push(key);
-
-                                const device = await this.db.getDeviceByIP(rinfo.address);
-                                if(!device){
-                                    throw new Error(`Device not found!`);
-                                }
-                                const iMetric = createMetrics(
-                                    <number> taskDatabaseId,
-                                    device.id,
-                                    metrics
-                                );
-
-                                await this.db.storeMetrics(iMetric);
-                            }
+                            const tasks = this.getDeviceTasks(client.device);
+                            await this.prepareMetricsStorage(client.device, tasks);
+                            await this.resolveTaskAlerts(client.device, Object.keys(tasks));
                         
                             this.logger.info("=========TABELAS DE METRICAS CRIADAS==========");
 
+                            client.schemas = structuredClone(tasks);
+                            client.schemaVersion = 0;
+                            client.appliedSchemaVersion = 0;
                             const spack = packTaskSchemas(tasks);
                             const requestTaskDg = new NetTaskPushSchemas(
                                 nt.getSessionId(),
@@ -457,86 +617,125 @@ class UDPServer extends UDPConnection {
                             );
                             this.send(client.flowControl, ack, rinfo);
 
-                            // this.logger.log("[SERVER] Got metrics:", metricsDg);
-                            const metricsResult = metricsDg.getMetrics();
+                            await this.storeMetrics(device.id, metricsDg);
+                            break;
+                        }
+                        case NetTaskDatagramType.ACK_SCHEMAS: {
+                            const client = this.clients.get(nt.getSessionId().toString("hex"));
+                            if(!client){
+                                throw new Error(`Agent not found!`);
+                            }
+                            const schemasAckDg = NetTaskSchemasAck.deserialize(payloadReader, client.ecdhe, nt);
 
-                            this.logger.info(metricsResult);
-                            
-                            this.logger.pInfo(`Metrics report from Agent with device '${device.id}':`);
-
-                            const metricsDb: {
-                                [metricName: string]: 
-                                    { valor: number; timestamp: Date; alert: boolean } 
-                                    | { 
-                                        interface_stats?: { 
-                                            metric: { 
-                                                value: Record<string, number>; 
-                                                timestamp: Date; 
-                                                alert: boolean 
-                                            }[] 
-                                        } 
-                                    };
-                            } = {};
-
-                            if (metricsResult.device_metrics) {
-                                this.logger.pInfo(`|-> Device metrics:`);
-                                for (const key in metricsResult.device_metrics) {
-                                    
-                                    if (key !== "interface_stats") {
-                                        const value = metricsResult.device_metrics[key as keyof typeof metricsResult.device_metrics];
-
-                                        if (value && value !== IgnoreValues.s8) {
-                                            this.logger.pInfo(`|--> ${key}: ${value}`);
-                                            metricsDb[key] = { 
-                                                valor: metricsResult.device_metrics[key as keyof typeof metricsResult.device_metrics] as number, 
-                                                timestamp: new Date(),
-                                                alert: false 
-                                            };
-                                        }
-                                    } else {
-                                        for (const networkInterface in metricsResult.device_metrics.interface_stats) {
-                                            const value = metricsResult.device_metrics.interface_stats[networkInterface];
-
-                                            if (value && value !== IgnoreValues.s8) {
-                                                this.logger.pInfo(`|--> '${networkInterface}' total packets: ${value}`);
-                                                // (metricsDb[key] as { interface_stats: { metric: { value: Record<string, number>; timestamp: Date; alert: boolean }[] } })
-                                                //     .interface_stats.metric.push({
-                                                //         value: { [networkInterface]: value },
-                                                //         timestamp: new Date(),
-                                                //         alert: false
-                                                //     });
-                                            }
-                                        }
-                                    }
-                                }
+                            const ack = new NetTaskBodyless(
+                                nt.getSessionId(),
+                                client.flowControl.getLastSeq(),
+                                client.flowControl.getLastAck(),
+                                0,
+                            );
+                            this.send(client.flowControl, ack, rinfo);
+
+                            client.appliedSchemaVersion = Math.max(client.appliedSchemaVersion, schemasAckDg.getSchemaVersion());
+                            this.logger.info(`[SERVER] Agent at '${rinfo.address}' is running schema version ${schemasAckDg.getSchemaVersion()}.`);
+                            break;
+                        }
+                        case NetTaskDatagramType.RESPONSE_TASK: {
+                            const client = this.clients.get(nt.getSessionId().toString("hex"));
+                            if(!client){
+                                throw new Error(`Agent not found!`);
                             }
+                            const responseDg = NetTaskResponseTask.deserialize(payloadReader, client.ecdhe, nt);
 
-                            if (metricsResult.link_metrics) {
-                                this.logger.pInfo(`|-> Link metrics:`);
-                                for (const key in metricsResult.link_metrics) {
-                                    let value = metricsResult.link_metrics[key as keyof typeof metricsResult.link_metrics] as number;
-                                    if (value && value !== IgnoreValues.s16) {
-                                        value = value - 1;
-                                        this.logger.pInfo(`|--> ${key}: ${value}`);
-                                        this.logger.info(`Received for metric '${key}' value: ${value}`);
-                                        metricsDb[key] = { 
-                                            valor: value, 
-                                            timestamp: new Date(),
-                                            alert: false 
-                                        };
-                                    }
-                                }
+                            const ack = new NetTaskBodyless(
+                                nt.getSessionId(),
+                                client.flowControl.getLastSeq(),
+                                client.flowControl.getLastAck(),
+                                0,
+                            );
+                            this.send(client.flowControl, ack, rinfo);
+
+                            const request = this.requests.get(responseDg.getRequestId());
+                            if (!request || request.device !== client.device) {
+                                this.logger.warn(`[SERVER] Got response to unknown metrics request ${responseDg.getRequestId()}.`);
+                                break;
                             }
 
-                            this.logger.pInfo(`Metrics report from Agent with device '${device.id}' ended.\n`);
+                            if (responseDg.getStatus() === NetTaskRequestStatus.ACCEPTED) {
+                                request.status = "accepted";
+                                this.logger.info(`[SERVER] Metrics request ${request.id} accepted by agent.`);
+                            } else {
+                                request.status = "rejected";
+                                this.logger.warn(`[SERVER] Metrics request ${request.id} rejected by agent: ${
+                                    NetTaskRequestStatus[responseDg.getStatus()]
+                                }.`);
+                            }
+                            break;
+                        }
+                        case NetTaskDatagramType.RESPONSE_METRICS: {
+                            const client = this.clients.get(nt.getSessionId().toString("hex"));
+                            if(!client){
+                                throw new Error(`Agent not found!`);
+                            }
+                            const metricsDg = NetTaskResponseMetrics.deserialize(payloadReader, client.ecdhe, nt, config.tasks);
+                            const device = await this.db.getDeviceBySession(nt.getSessionId());
+                            if (!device) {
+                                throw new Error("Device not found.");
+                            }
 
-                            await this.db.addMetricsToExisting(
-                                <number> this.sharedData.dbMapper.get(metricsDg.getTaskId()),
-                                <number> device?.id,
-                                metricsDb
+                            const ack = new NetTaskBodyless(
+                                nt.getSessionId(),
+                                client.flowControl.getLastSeq(),
+                                client.flowControl.getLastAck(),
+                                0,
                             );
+                            this.send(client.flowControl, ack, rinfo);
+
+                            await this.storeMetrics(device.id, metricsDg);
 
-                            this.logger.info("Updated metrics.");
+                            const request = this.requests.get(metricsDg.getRequestId());
+                            if (request && request.device === client.device) request.status = "completed";
+                            break;
+                        }
+                        /**
+                         * Confirmation of the Agent that it rotated the keys of the session. The Server completes the
+                         * rotation, and the new salt is stored, so that the session can be revived with the new keys.
+                         */
+                        case NetTaskDatagramType.ACK_REKEY: {
+                            const client = this.clients.get(nt.getSessionId().toString("hex"));
+                            if(!client){
+                                throw new Error(`Agent not found!`);
+                            }
+                            const rekeyAckDg = NetTaskRekeyAck.deserialize(payloadReader, client.ecdhe, nt);
+
+                            const ack = new NetTaskBodyless(
+                                nt.getSessionId(),
+                                client.flowControl.getLastSeq(),
+                                client.flowControl.getLastAck(),
+                                0,
+                            );
+                            this.send(client.flowControl, ack, rinfo);
+
+                            if (!client.rekey || !client.rekey.equals(rekeyAckDg.getSalt())) {
+                                this.logger.warn(`[SERVER] Ignoring confirmation of unknown key rotation from agent at '${rinfo.address}'.`);
+                                break;
+                            }
+
+                            client.ecdhe.rotateKeys(rekeyAckDg.getSalt());
+                            client.rekey = undefined;
+                            const device = await this.db.getDeviceBySession(nt.getSessionId());
+                            if (device) {
+                                await this.db.updateDevice(device.name, { 
+                                    auth: { 
+                                        secret: device.auth.secret, 
+                                        salt: rekeyAckDg.getSalt(), 
+                                        sessionId: device.auth.sessionId, 
+                                        aead: device.auth.aead,
+                                        registration: device.auth.registration
+                                    } 
+                                });
+                            }
+
+                            this.logger.info(`[SERVER] Agent of device '${client.device}' rotated it's session keys.`);
                             break;
                         }
                         case NetTaskDatagramType.WAKE: {
@@ -576,8 +775,11 @@ class UDPServer extends UDPConnection {
                             client!.flowControl.reset(newSeq);
                             // client!.flowControl.setLastSeq(newSeq);
 
-                            const cDevice = config.devices[this.devicesNames[rinfo.address]];
-                            const tasks = Object.fromEntries(Object.entries(config.tasks).filter(([k,_]) => cDevice.tasks.includes(k)));
+                            const tasks = this.getDeviceTasks(client.device);
+                            await this.resolveTaskAlerts(client.device, Object.keys(tasks));
+                            client.schemas = structuredClone(tasks);
+                            client.schemaVersion = 0;
+                            client.appliedSchemaVersion = 0;
                             const spack = packTaskSchemas(tasks);
                             const requestTaskDg = new NetTaskPushSchemas(
                                 nt.getSessionId(),
@@ -605,12 +807,31 @@ class UDPServer extends UDPConnection {
                             }
                             break;
                         }
+                        case NetTaskDatagramType.SELECTIVE_ACK: {
+                            const client = this.clients.get(nt.getSessionId().toString("hex"));
+                            if(!client){
+                                throw new Error(`Agent not found!`);
+                            }
+
+                            const sackDg = NetTaskSelectiveAck.deserialize(payloadReader, nt);
+                            client.flowControl.acknowledgeRanges(sackDg.getRanges());
+
+                            const missing = client.flowControl.packetsMissing(nt.getAcknowledgementNumber(), sackDg.getRanges());
+                            this.logger.warn("Pedido de retransmissão dos pacotes com seq:", missing.join(", "));
+                            for (const dg of client.flowControl.getDgFromRecoveryList(missing)) {
+                                this.send(client.flowControl, dg, rinfo);
+                            }
+                            break;
+                        }
                         default: {
                             // TODO: Ignore?
                             break;
                         }
                     }
 
+                    const session = this.clients.get(pHeader.sessionId.toString("hex"));
+                    if (session) this.rotateKeysIfDue(pHeader.sessionId, session);
+
                     // Reset error recovery reference.
                     _nt = undefined;
                 }
@@ -635,6 +856,419 @@ class UDPServer extends UDPConnection {
         }
     }
 
+    /**
+     * Brings the connected agents up to date with a reloaded config. Agents that no longer authenticate as the
+     * device they registered as, because the device was removed or it's identity changed, are disconnected, and their
+     * sessions forgotten, so that they have to register again. Every other agent receives the changes to it's tasks.
+     * 
+     * @param diff The changes between the previous and the current config.
+     */
+    public async applyConfigChanges(diff: ConfigDiff) {
+        for (const [sessionId, client] of this.clients.entries()) {
+            if (!client.target) continue;
+
+            const authentication = client.registration 
+                ? this.authenticate(client.registration) 
+                : { reason: NetTaskRejectedReason.AUTH_ERROR };
+            if (
+                !diff.devices.removed.includes(client.device)
+                && "device" in authentication && authentication.device === client.device
+            ) continue;
+
+            this.logger.pWarn(`Agent at '${client.target.address}' no longer authenticates as device '${client.device}'. Disconnecting agent.`);
+            const resetDg = new NetTaskReset(
+                Buffer.from(sessionId, "hex"),
+                client.flowControl.getLastSeq(),
+                client.flowControl.getLastAck()
+            ).link(client.ecdhe);
+            this.send(client.flowControl, resetDg, client.target);
+
+            this.clients.delete(sessionId);
+            delete this.sharedData.flowControls[client.device];
+            delete this.sharedData.connectionStatus[client.device];
+            await this.db.removeDeviceSession(client.device);
+            if (client.schemas) await this.resolveTaskAlerts(client.device, Object.keys(client.schemas));
+        }
+
+        await this.pushTaskUpdates();
+    }
+
+    /**
+     * Compares the tasks assigned to every connected agent on the config against the tasks last pushed to it,
+     * and sends the tasks that were added, modified or removed to the agents affected.
+     */
+    public async pushTaskUpdates() {
+        for (const [sessionId, client] of this.clients.entries()) {
+            if (!client.target || !client.schemas) continue;
+            if (!(client.device in config.devices)) continue;
+
+            const tasks = this.getDeviceTasks(client.device);
+            const changed = Object.fromEntries(Object.entries(tasks).filter(
+                ([k,v]) => !(k in client.schemas!) || JSON.stringify(client.schemas![k]) !== JSON.stringify(v)
+            ));
+            const removed = Object.keys(client.schemas).filter(k => !(k in tasks));
+            if (Object.keys(changed).length === 0 && removed.length === 0) continue;
+
+            await this.prepareMetricsStorage(client.device, changed);
+            await this.resolveTaskAlerts(client.device, [...Object.keys(changed), ...removed]);
+
+            client.schemas = structuredClone(tasks);
+            client.schemaVersion++;
+            this.logger.pInfo(`Pushing schema version ${client.schemaVersion} to agent of device '${client.device}': ${
+                Object.keys(changed).length
+            } tasks added or modified, ${removed.length} removed.`);
+
+            const updateDg = new NetTaskUpdateSchemas(
+                Buffer.from(sessionId, "hex"),
+                client.flowControl.getLastSeq(),
+                client.flowControl.getLastAck(),
+                client.schemaVersion,
+                packTaskSchemas(changed),
+                removed
+            ).link(client.ecdhe);
+            this.send(client.flowControl, updateDg, client.target);
+        }
+    }
+
+    /**
+     * Returns the client of a session, reviving it from the database if the session was established before the
+     * server restarted. Revived sessions are authenticated again with the claims their agent registered with.
+     * 
+     * @param sessionId The identifier of the session.
+     * @returns The client, or undefined if the session is unknown or it's agent no longer authenticates as it's device.
+     */
+    private async getOrReviveClient(sessionId: Buffer): Promise<ClientData | undefined> {
+        const key = sessionId.toString("hex");
+        const client = this.clients.get(key);
+        if (client) return client;
+
+        const device = await this.db.getDeviceBySession(sessionId);
+        if (!device) return undefined;
+
+        // Sessions established before the registration was stored are only revived for devices identified by address.
+        const stored = device.auth.registration;
+        const registration: Registration = stored?.address 
+            ? { name: stored.name ?? undefined, address: stored.address, transcript: stored.transcript, proof: stored.proof ?? undefined }
+            : { address: device.ip, transcript: Buffer.alloc(0) };
+        const authentication = this.authenticate(registration);
+        if ("reason" in authentication || authentication.device !== device.name) {
+            this.logger.pWarn(`Refused to revive the session of device '${device.name}': ${
+                NetTaskRejectedReason["reason" in authentication ? authentication.reason : NetTaskRejectedReason.UNKNOWN_IDENTITY]
+            }.`);
+            return undefined;
+        }
+
+        // The session might have been revived by another message while the device was being fetched.
+        if (!this.clients.has(key)) {
+            this.clients.set(key, {
+                device: device.name,
+                registration,
+                flowControl: new FlowControl(),
+                ecdhe: new ECDHE(device.auth.secret, device.auth.salt, <AEADAlgorithm>(device.auth.aead ?? LEGACY_AEAD)),
+                salt: device.auth.salt,
+                challenge: undefined,
+                contiguousErrors: 0,
+                schemaVersion: 0,
+                appliedSchemaVersion: 0
+            });
+        }
+
+        return this.clients.get(key);
+    }
+
+    /**
+     * Returns the keys of a session, used to authenticate the messages sent by it's agent over other channels.
+     * 
+     * @param sessionId The identifier of the session.
+     * @returns The keys of the session, or undefined if the session is unknown.
+     */
+    public async getSessionCrypto(sessionId: Buffer): Promise<ECDHE | undefined> {
+        return (await this.getOrReviveClient(sessionId))?.ecdhe;
+    }
+
+    /**
+     * Rotates the keys of a session once they were used for as many messages, or for as long, as allowed by the 
+     * {@link KeyRotationPolicy} of this server. The new salt is sent to the agent encrypted with the current keys.
+     * The new keys are accepted right away, but the server only encrypts with them once the agent confirms the
+     * rotation, so that the datagrams queued or retransmitted until then can still be read by the agent.
+     * 
+     * @param sessionId The identifier of the session.
+     * @param client The client of the session.
+     */
+    private rotateKeysIfDue(sessionId: Buffer, client: ClientData) {
+        // Only established sessions are rotated, and only one rotation is in progress at a time.
+        if (!client.target || !client.schemas || client.rekey) return;
+        if (client.ecdhe.messageCount < this.rotation.maxMessages && client.ecdhe.keyAge < this.rotation.maxAge) return;
+
+        const salt = crypto.randomBytes(16);
+        const rekeyDg = new NetTaskRekey(
+            sessionId,
+            client.flowControl.getLastSeq(),
+            client.flowControl.getLastAck(),
+            salt
+        ).link(client.ecdhe.snapshot());
+        this.send(client.flowControl, rekeyDg, client.target);
+
+        client.ecdhe.stageRotation(salt);
+        client.rekey = salt;
+        this.logger.info(`[SERVER] Rotating the session keys of the agent of device '${client.device}'.`);
+    }
+
+    /**
+     * Returns the credentials provisioned for a device on the config, if any.
+     */
+    private getDeviceCredential(device: Device): EnrollmentCredential | undefined {
+        if (device.token !== undefined) return { token: device.token };
+        if (device.public_key !== undefined) return { publicKey: crypto.createPublicKey(device.public_key) };
+        return undefined;
+    }
+
+    /**
+     * Finds the device on the config an agent claims to be, on the first phase of the registration. 
+     * Devices with credentials are matched by name, and by address if they have an IP. Devices without credentials 
+     * are matched by address alone, and only by agents that claim no name.
+     * 
+     * @param name The name of the device the agent claimed to be, if any.
+     * @param address The address of the agent.
+     */
+    private identify(name: string | undefined, address: string): Authentication {
+        if (name === undefined) {
+            const device = Object.entries(config.devices).find(([_, d]) => d.ip === address && this.getDeviceCredential(d) === undefined);
+            return device ? { device: device[0] } : { reason: NetTaskRejectedReason.AUTH_ERROR };
+        }
+
+        const device = config.devices[name];
+        if (!device || this.getDeviceCredential(device) === undefined) return { reason: NetTaskRejectedReason.UNKNOWN_IDENTITY };
+        if (device.ip !== undefined && device.ip !== address) return { reason: NetTaskRejectedReason.AUTH_ERROR };
+
+        return { device: name };
+    }
+
+    /**
+     * Authenticates an agent once it's registration is complete: it must be {@link identify|identified} as a device
+     * and, if the device has credentials, it must prove it holds them.
+     * 
+     * @param registration The claims made by the agent.
+     */
+    private authenticate(registration: Registration): Authentication {
+        const identification = this.identify(registration.name, registration.address);
+        if ("reason" in identification) return identification;
+
+        const credential = this.getDeviceCredential(config.devices[identification.device]);
+        if (credential && !verifyEnrollment(credential, registration.transcript, registration.proof ?? Buffer.alloc(0))) 
+            return { reason: NetTaskRejectedReason.BAD_PROOF };
+
+        return identification;
+    }
+
+    /**
+     * Returns the tasks assigned on the config to the given device.
+     * 
+     * @param deviceName The name of the device.
+     */
+    private getDeviceTasks(deviceName: string): Record<string, Task> {
+        const cDevice = config.devices[deviceName];
+        return Object.fromEntries(Object.entries(config.tasks).filter(([k,_]) => cDevice.tasks.includes(k)));
+    }
+
+    /**
+     * Resolves the alerts left firing by the given tasks on a device, before the tasks are restarted or stopped on
+     * it's agent. The agent forgets the alerts of a task when it stops it, and so never resolves them.
+     *
+     * @param deviceName The name of the device.
+     * @param taskConfigIds The identifiers of the tasks on the config.
+     */
+    private async resolveTaskAlerts(deviceName: string, taskConfigIds: string[]) {
+        const device = await this.db.getDeviceByName(deviceName);
+        if (!device) return;
+
+        for (const taskConfigId of taskConfigIds) {
+            const taskDatabaseId = this.sharedData.dbMapper.get(taskConfigId);
+            if (taskDatabaseId === undefined) continue;
+
+            await this.db.resolveOpenAlerts(taskDatabaseId, device.id);
+        }
+    }
+
+    /**
+     * Creates the database entries where the metrics collected by a device for the given tasks are stored,
+     * unless they already exist.
+     * 
+     * @param deviceName The name of the device.
+     * @param tasks The tasks the device is going to run.
+     */
+    private async prepareMetricsStorage(deviceName: string, tasks: Record<string, Task>) {
+        const device = await this.db.getDeviceByName(deviceName);
+        if(!device){
+            throw new Error(`Device not found!`);
+        }
+
+        for (const [taskConfigId, task] of Object.entries(tasks)) {
+            const taskDatabaseId = this.sharedData.dbMapper.get(taskConfigId);
+            if (taskDatabaseId === undefined) {
+                this.logger.warn(`[SERVER] Task '${taskConfigId}' has no database entry. Metrics will not be stored.`);
+                continue;
+            }
+            if (await this.db.hasMetrics(taskDatabaseId, device.id)) continue;
+
+            const metrics: string[] = [];
+            for (const key in task.device_metrics)
+                if (task.device_metrics[key as keyof typeof task.device_metrics])
+                    metrics.push(key);
+
+            for (const key in task.link_metrics)
+                if (task.link_metrics[key as keyof typeof task.link_metrics])
+                    metrics.push(key);
+
+            const iMetric = createMetrics(
+                taskDatabaseId,
+                device.id,
+                metrics
+            );
+
+            await this.db.storeMetrics(iMetric);
+        }
+    }
+
+    /**
+     * Requests an agent to immediately run a task once, out of it's schedule. The collected metrics are stored
+     * as soon as the agent responds.
+     * 
+     * @param deviceName The name of the device the agent registered as.
+     * @param taskId The config identifier of the task to run.
+     * @returns The request sent, which is updated as the agent responds.
+     */
+    public requestMetrics(deviceName: string, taskId: string): MetricsRequest {
+        const [sessionId, client] = [...this.clients.entries()].find(([_, c]) => c.device === deviceName) ?? [];
+        if (!sessionId || !client || !client.target) {
+            throw new Error(`[SERVER] Agent of device '${deviceName}' is not connected.`);
+        }
+
+        const request: MetricsRequest = {
+            id: this.nextRequestId++,
+            device: deviceName,
+            taskId: taskId,
+            requestedAt: new Date(),
+            status: "pending"
+        };
+        this.requests.set(request.id, request);
+
+        const requests = [...this.requests.values()].filter(r => r.device === deviceName);
+        for (const old of requests.slice(0, -MAX_METRICS_REQUESTS)) {
+            this.requests.delete(old.id);
+        }
+
+        const requestDg = new NetTaskRequestMetrics(
+            Buffer.from(sessionId, "hex"),
+            client.flowControl.getLastSeq(),
+            client.flowControl.getLastAck(),
+            request.id,
+            taskId
+        ).link(client.ecdhe);
+        this.send(client.flowControl, requestDg, client.target);
+
+        return request;
+    }
+
+    /**
+     * Returns the last on-demand metrics requests sent to an agent, from the most recent to the oldest.
+     * 
+     * @param deviceName The name of the device the agent registered as.
+     */
+    public getMetricsRequests(deviceName: string): MetricsRequest[] {
+        return [...this.requests.values()].filter(r => r.device === deviceName).reverse();
+    }
+
+    /**
+     * Stores the metrics received from an agent on the database, timestamped with the time of their collection.
+     * 
+     * @param deviceId The database identifier of the device that collected the metrics.
+     * @param metricsDg The datagram carrying the metrics.
+     */
+    private async storeMetrics(deviceId: number, metricsDg: NetTaskMetric) {
+        // this.logger.log("[SERVER] Got metrics:", metricsDg);
+        const metricsResult = metricsDg.getMetrics();
+        const collectedAt = metricsDg.getCollectionDate();
+
+        this.logger.info(metricsResult);
+        
+        this.logger.pInfo(`Metrics report from Agent with device '${deviceId}':`);
+
+        const metricsDb: {
+            [metricName: string]: 
+                { valor: number; timestamp: Date; alert: boolean } 
+                | { 
+                    interface_stats?: { 
+                        metric: { 
+                            value: Record<string, number>; 
+                            timestamp: Date; 
+                            alert: boolean 
+                        }[] 
+                    } 
+                };
+        } = {};
+
+        if (metricsResult.device_metrics) {
+            this.logger.pInfo(`|-> Device metrics:`);
+            for (const key in metricsResult.device_metrics) {
+                
+                if (key !== "interface_stats") {
+                    const value = metricsResult.device_metrics[key as keyof typeof metricsResult.device_metrics];
+
+                    if (value && value !== IgnoreValues.s8) {
+                        this.logger.pInfo(`|--> ${key}: ${value}`);
+                        metricsDb[key] = { 
+                            valor: metricsResult.device_metrics[key as keyof typeof metricsResult.device_metrics] as number, 
+                            timestamp: collectedAt,
+                            alert: false 
+                        };
+                    }
+                } else {
+                    for (const networkInterface in metricsResult.device_metrics.interface_stats) {
+                        const value = metricsResult.device_metrics.interface_stats[networkInterface];
+
+                        if (value && value !== IgnoreValues.s8) {
+                            this.logger.pInfo(`|--> '${networkInterface}' total packets: ${value}`);
+                            // (metricsDb[key] as { interface_stats: { metric: { value: Record<string, number>; timestamp: Date; alert: boolean }[] } })
+                            //     .interface_stats.metric.push({
+                            //         value: { [networkInterface]: value },
+                            //         timestamp: collectedAt,
+                            //         alert: false
+                            //     });
+                        }
+                    }
+                }
+            }
+        }
+
+        if (metricsResult.link_metrics) {
+            this.logger.pInfo(`|-> Link metrics:`);
+            for (const key in metricsResult.link_metrics) {
+                let value = metricsResult.link_metrics[key as keyof typeof metricsResult.link_metrics] as number;
+                if (value && value !== IgnoreValues.s16) {
+                    value = value - 1;
+                    this.logger.pInfo(`|--> ${key}: ${value}`);
+                    this.logger.info(`Received for metric '${key}' value: ${value}`);
+                    metricsDb[key] = { 
+                        valor: value, 
+                        timestamp: collectedAt,
+                        alert: false 
+                    };
+                }
+            }
+        }
+
+        this.logger.pInfo(`Metrics report from Agent with device '${deviceId}' ended.\n`);
+
+        await this.db.addMetricsToExisting(
+            <number> this.sharedData.dbMapper.get(metricsDg.getTaskId()),
+            deviceId,
+            metricsDb
+        );
+
+        this.logger.info("Updated metrics.");
+    }
+
     private handleTimeout(flowControl: FlowControl, seqNumber: number, target: ConnectionTargetLike) {
         try {
             const dg = flowControl.getDgFromRecoveryList(seqNumber);
@@ -653,5 +1287,8 @@ class UDPServer extends UDPConnection {
 
 
 export { 
+    type KeyRotationPolicy,
+    type MetricsRequest,
+
     UDPServer 
 };
\ No newline at end of file
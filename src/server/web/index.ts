@@ -15,10 +15,11 @@ import loggerMiddleware from "./middlewares/logger.js";
 // Add Router imports here
 import mainRouter from "./routes/main.js";
 import { DatabaseDAO } from "$common/db/databaseDAO.js";
+import { UDPServer } from "../protocol/udp.js";
 
 const { dirname: __dirname } = makeLocations(import.meta.url);
 
-function initWebServer(options: CLIOptions, db: DatabaseDAO, sharedData: ServerSharedData): express.Express {
+function initWebServer(options: CLIOptions, db: DatabaseDAO, sharedData: ServerSharedData, udp: UDPServer): express.Express {
     const logger = createLogger(WEB_LOGGER_LEVELS, { debug: options.debug, printCallerFile: options.debug });
 
     // Override logger logging function. 
@@ -52,6 +53,7 @@ function initWebServer(options: CLIOptions, db: DatabaseDAO, sharedData: ServerS
 
     webOptions.db = db;
     webOptions.sharedData = sharedData;
+    webOptions.udp = udp;
 
     const app = express();
     app.set("view engine", "ejs");
@@ -2,7 +2,6 @@ import { Router } from "express";
 import nocacheMiddleware from "../middlewares/nocache.js";
 import path from "path";
 import options, { CONNECTION_ALIVE_THRESHOLD } from "../webConfig.js";
-import { preparedMemoize } from "$common/util/memoize.js";
 import { IMetric } from "$common/db/interfaces/IMetrics.js";
 
 interface UIMetric {
@@ -15,21 +14,15 @@ interface UIMetric {
 const router: Router = Router();
 router.use(nocacheMiddleware);
 
-const cache = {
-    deviceNames: preparedMemoize(() => Object.fromEntries(Object.entries(config.devices).map(([k,v]) => [v.ip, k])))
-};
-
 router.get("/", async function(req, res) {
     ;(() => req)();
-    // const deviceNames = memoize(() => Object.fromEntries(Object.entries(config.devices).map(([k,v]) => [v.ip, k])));
-    const deviceNames = cache.deviceNames();
     const devices = await options.db.getAllDevices();
 
     const sendDevices = devices.map(d => ({ 
-        name: deviceNames[d.ip] ?? undefined, 
+        name: d.name, 
         ip: d.ip, 
         connectedAt: d.connectAt,
-        alive: ((options.sharedData.connectionStatus[d.ip] ?? new Date(0)).getTime() + CONNECTION_ALIVE_THRESHOLD > Date.now())
+        alive: ((options.sharedData.connectionStatus[d.name] ?? new Date(0)).getTime() + CONNECTION_ALIVE_THRESHOLD > Date.now())
     }));
     // options.logger.log(`Devices:`, sendDevices);
     // options.logger.log(options.sharedData.connectionStatus, devices[1].ip);
@@ -52,7 +45,7 @@ router.get("/devices/:device", async function(req, res) {
     }
 
     try {
-        const deviceInfo = await options.db.getDeviceByIP(config.devices[deviceName].ip);
+        const deviceInfo = await options.db.getDeviceByName(deviceName);
         if (!deviceInfo) {
             res.status(404).render(path.join(options.public, "pages/error.ejs"), { reason: "Unknown device.", status: 404 });
             return;
@@ -102,14 +95,25 @@ router.get("/devices/:device", async function(req, res) {
 
         logger.log("TS METRICS:", tsMetrics);
 
+        const taskNames = new Map([...options.sharedData.dbMapper].map(([taskId, dbId]) => [dbId, taskId]));
+        const openAlerts = (await options.db.getOpenAlerts(deviceInfo.id))
+            .map(alert => ({ ...alert, task: taskNames.get(alert.taskID) ?? String(alert.taskID) }))
+            .sort((a, b) => a.since.getTime() - b.since.getTime());
+
         res.status(200).render(path.join(options.public, "pages/device.ejs"), { 
-            ...config.devices[deviceName], 
+            // The device is spelled out, so that it's enrollment token is never sent to the page.
+            tasks: config.devices[deviceName].tasks, 
             name: deviceName,
+            ip: deviceInfo.ip,
             connectedAt: deviceInfo.connectAt,
             alive: !(
-                (options.sharedData.connectionStatus[config.devices[deviceName].ip] ?? new Date()).getTime() + CONNECTION_ALIVE_THRESHOLD 
+                (options.sharedData.connectionStatus[deviceName] ?? new Date()).getTime() + CONNECTION_ALIVE_THRESHOLD 
                 < Date.now()
             ),
+            link: options.sharedData.flowControls[deviceName]?.getRTTEstimates(),
+            replays: options.sharedData.replays[deviceName] ?? 0,
+            requests: options.udp.getMetricsRequests(deviceName),
+            openAlerts: openAlerts,
             metrics: Object.values(tsMetrics)
             // metrics: [
             //     {
@@ -151,4 +155,30 @@ router.get("/devices/:device", async function(req, res) {
     }
 });
 
+router.post("/devices/:device/request", async function(req, res) {
+    const logger = options.logger;
+    const devices = config.devices;
+
+    const deviceName = req.params.device;
+    if (!(deviceName in devices)) {
+        res.status(404).render(path.join(options.public, "pages/error.ejs"), { reason: "Unknown device.", status: 404 });
+        return;
+    }
+
+    const taskId = req.body?.task;
+    if (typeof taskId !== "string" || !devices[deviceName].tasks.includes(taskId)) {
+        res.status(400).render(path.join(options.public, "pages/error.ejs"), { reason: "Unknown task.", status: 400 });
+        return;
+    }
+
+    try {
+        const request = options.udp.requestMetrics(deviceName, taskId);
+        logger.info({ req, res }, `Requested metrics for task '${taskId}' from device '${deviceName}' (request #${request.id}).`);
+        res.redirect(303, `/devices/${encodeURIComponent(deviceName)}`);
+    } catch (e) {
+        res.status(409).render(path.join(options.public, "pages/error.ejs"), { reason: "Device is not connected.", status: 409 });
+        logger.warn({ req, res }, "Error requesting metrics:", e);
+    }
+});
+
 export default router;
\ No newline at end of file
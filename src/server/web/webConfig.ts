@@ -5,13 +5,15 @@ import chalk from "chalk";
 import express from "express";
 import path from "path";
 import { ServerSharedData } from "../index.js";
+import { UDPServer } from "../protocol/udp.js";
 
 //#region ============== Types ==============
 interface Options {
     logger: Logger<typeof WEB_LOGGER_LEVELS>,
     public: string,
     db: DatabaseDAO,
-    sharedData: ServerSharedData
+    sharedData: ServerSharedData,
+    udp: UDPServer
 }
 
 interface WebLoggerInitArg {
@@ -38,7 +40,8 @@ const options: Options = {
     logger: <never>undefined,
     public: path.join(__dirname, "./public"),
     db: <never>undefined,
-    sharedData: <never>undefined
+    sharedData: <never>undefined,
+    udp: <never>undefined
 };
 
 